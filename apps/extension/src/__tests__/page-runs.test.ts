@@ -0,0 +1,248 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fakeBrowser } from "wxt/testing/fake-browser";
+import background from "@/entrypoints/background";
+import { reportExecution } from "@/lib/hub-client";
+import { executeAcrossPages, fetchRunResult, listenForRunContinuations } from "@/lib/page-runs";
+import type { ExecutionDescriptor } from "@/types";
+
+vi.mock("@/lib/hub-client", () => ({
+  lookupConfig: vi.fn(async () => ({ configs: [] })),
+  getPin: vi.fn(async () => undefined),
+  getTelemetry: vi.fn(async () => true),
+  reportExecution: vi.fn(async () => {}),
+}));
+
+const TAB = 1;
+
+type Listener = (
+  message: unknown,
+  sender: unknown,
+  sendResponse: (response: unknown) => void,
+) => unknown;
+
+// The background and the page run in separate contexts, each with its own listeners. The
+// fake browser's messaging doesn't pass sendResponse, so it's replaced with this.
+const backgroundListeners: Listener[] = [];
+let pageListeners: Listener[] = [];
+let registering = backgroundListeners;
+
+/** Deliver a message like extension messaging: to every listener, answered by the first. */
+function deliver(listeners: Listener[], message: unknown, sender: unknown): Promise<unknown> {
+  if (listeners.length === 0) return Promise.reject(new Error("Receiving end does not exist"));
+  return new Promise((resolve) => {
+    let answering = false;
+    for (const listener of [...listeners]) {
+      if (listener(structuredClone(message), sender, resolve) === true) answering = true;
+    }
+    if (!answering) resolve(undefined);
+  });
+}
+
+const onContinue = vi.fn();
+
+/** A new document in the tab: its content, and its content script listening for runs. */
+function loadPage(html: string) {
+  document.body.innerHTML = html;
+  pageListeners = [];
+  registering = pageListeners;
+  listenForRunContinuations(onContinue);
+  registering = backgroundListeners;
+}
+
+function details(url: string) {
+  const href = new URL(url, location.href).href;
+  return { tabId: TAB, frameId: 0, parentFrameId: -1, url: href, timeStamp: Date.now() } as never;
+}
+
+/** Let the background's listeners finish their storage round trips. */
+const settle = () => new Promise((r) => setTimeout(r, 20));
+
+/** The tab starts loading a new document, as a submit or navigate step makes it do. */
+async function leave(url: string) {
+  await fakeBrowser.webNavigation.onBeforeNavigate.trigger(details(url));
+  await settle();
+}
+
+/** The new document commits and finishes loading. */
+async function arrive(url: string, html: string) {
+  await fakeBrowser.webNavigation.onCommitted.trigger(details(url));
+  await settle();
+  loadPage(html);
+  await fakeBrowser.webNavigation.onCompleted.trigger(details(url));
+  await settle();
+}
+
+/** The service worker being suspended and started again: its memory and timers are gone. */
+function restartBackground() {
+  vi.clearAllTimers();
+  const { webNavigation } = fakeBrowser;
+  for (const event of [
+    webNavigation.onBeforeNavigate,
+    webNavigation.onCommitted,
+    webNavigation.onCompleted,
+    webNavigation.onHistoryStateUpdated,
+    webNavigation.onReferenceFragmentUpdated,
+    fakeBrowser.tabs.onRemoved,
+  ]) {
+    event.removeAllListeners();
+  }
+  backgroundListeners.length = 0;
+  background.main();
+}
+
+beforeEach(() => {
+  fakeBrowser.reset();
+  vi.mocked(reportExecution).mockClear();
+  onContinue.mockClear();
+  backgroundListeners.length = 0;
+  registering = backgroundListeners;
+  vi.spyOn(fakeBrowser.runtime.onMessage, "addListener").mockImplementation((listener: unknown) => {
+    registering.push(listener as Listener);
+  });
+  vi.spyOn(fakeBrowser.runtime, "sendMessage").mockImplementation((message: unknown) =>
+    deliver(backgroundListeners, message, { tab: { id: TAB }, frameId: 0 }),
+  );
+  vi.spyOn(fakeBrowser.tabs, "sendMessage").mockImplementation(
+    (_tabId: unknown, message: unknown) => deliver(pageListeners, message, {}),
+  );
+  background.main();
+  loadPage(`<h1 id="title">Search</h1><form id="search"></form><p id="result"></p>`);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// Workflows
+// ---------------------------------------------------------------------------
+
+describe("workflows across pages", () => {
+  const exec = {
+    selector: "body",
+    autosubmit: false,
+    steps: [
+      { action: "extract", selector: "#title", extract: "text", as: "from" },
+      { action: "navigate", url: "/results?q={{query}}" },
+      { action: "extract", selector: "#title", extract: "text", as: "to" },
+    ],
+  } as ExecutionDescriptor;
+
+  it("answers that the run continues, and keeps its result for the result tool", async () => {
+    const report = { configId: "config-1", version: 3, startedAt: Date.now() };
+    const first = await executeAcrossPages("search", exec, { query: "shoes" }, {}, report);
+    expect(first.continued).toBe(true);
+    expect(first.result.content[0].text).toBe("Navigating to /results?q=shoes");
+    expect(first.result.content[1].text).toContain("Call webmcp_hub_run_result there");
+
+    // Asked before the run ends, the result tool waits for it
+    const result = fetchRunResult();
+    await leave("/results?q=shoes");
+    await arrive("/results?q=shoes", `<h1 id="title">Results</h1>`);
+    expect(onContinue).toHaveBeenCalledOnce();
+    expect(JSON.parse((await result).content[0].text)).toEqual({ from: "Search", to: "Results" });
+    expect(await fetchRunResult()).toEqual(await result);
+
+    await vi.waitFor(() =>
+      expect(reportExecution).toHaveBeenCalledWith(
+        expect.objectContaining({ configId: "config-1", toolName: "search", outcome: "success" }),
+      ),
+    );
+  });
+
+  it("doesn't give the run to a page that was loading before the hand-off", async () => {
+    await executeAcrossPages("search", exec, { query: "hats" }, {});
+    await fakeBrowser.webNavigation.onCompleted.trigger(details("/"));
+    await settle();
+    expect(onContinue).not.toHaveBeenCalled();
+
+    await leave("/results?q=hats");
+    await arrive("/results?q=hats", `<h1 id="title">Hats</h1>`);
+    expect(JSON.parse((await fetchRunResult()).content[0].text).to).toBe("Hats");
+  });
+
+  it("answers that the run is still going when it doesn't end within the wait", async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    await executeAcrossPages("search", exec, { query: "gloves" }, {});
+    const result = fetchRunResult();
+    await vi.advanceTimersByTimeAsync(21_000);
+    expect((await result).content[0].text).toBe(
+      '"search" is still running on this tab\'s pages. Call webmcp_hub_run_result again for its result.',
+    );
+  });
+
+  it("times a run out after the service worker restarts and loses its timer", async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    await executeAcrossPages("search", exec, { query: "scarves" }, {});
+    restartBackground();
+    await vi.advanceTimersByTimeAsync(61_000);
+    expect((await fetchRunResult()).content[0].text).toMatch(/^Error: Timeout: "search"/);
+  });
+
+  it("keeps the result of a run that ends after the service worker restarts", async () => {
+    await executeAcrossPages("search", exec, { query: "belts" }, {});
+    await leave("/results?q=belts");
+    restartBackground();
+    await arrive("/results?q=belts", `<h1 id="title">Belts</h1>`);
+    expect(JSON.parse((await fetchRunResult()).content[0].text).to).toBe("Belts");
+  });
+
+  it("runs a workflow with a #fragment navigate on its own page", async () => {
+    const steps = exec.steps!.map((step) =>
+      step.action === "navigate" ? { ...step, url: "#results" } : step,
+    );
+    const { result, continued } = await executeAcrossPages(
+      "search",
+      { ...exec, steps },
+      { query: "socks" },
+      {},
+    );
+    expect(continued).toBe(false);
+    expect(JSON.parse(result.content[0].text)).toEqual({ from: "Search", to: "Search" });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// resultAfterNavigation
+// ---------------------------------------------------------------------------
+
+describe("results after navigation", () => {
+  const exec = {
+    selector: "#search",
+    autosubmit: true,
+    submitAction: "enter",
+    resultSelector: "#result",
+    resultAfterNavigation: true,
+  } as ExecutionDescriptor;
+
+  function onSubmit(handler: () => void) {
+    document.querySelector("form")!.addEventListener("submit", (event) => {
+      event.preventDefault();
+      handler();
+    });
+  }
+
+  it("reads the result on the page the submit loads", async () => {
+    onSubmit(() => void leave("/search?q=boots"));
+    const first = await executeAcrossPages("search", exec, {}, {});
+    expect(first.continued).toBe(true);
+    expect(first.result.content[0].text).toBe("Submitted search");
+
+    await arrive("/search?q=boots", `<p id="result">3 results</p>`);
+    expect((await fetchRunResult()).content[0].text).toBe("3 results");
+  });
+
+  it("reads the result in place when the submit only changes the URL", async () => {
+    onSubmit(() => {
+      document.querySelector("#result")!.textContent = "2 results";
+      void fakeBrowser.webNavigation.onHistoryStateUpdated.trigger(details("/search?q=caps"));
+    });
+    const start = Date.now();
+    const { result, continued } = await executeAcrossPages("search", exec, {}, {});
+    expect(continued).toBe(false);
+    expect(result.content[0].text).toBe("2 results");
+    expect(Date.now() - start).toBeLessThan(1000);
+    // The run ended here, so there's nothing for the result tool
+    expect((await fetchRunResult()).content[0].text).toMatch(/^Error: No tool run/);
+  });
+});
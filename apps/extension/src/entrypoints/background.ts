@@ -1,4 +1,101 @@
-import { lookupConfig } from "@/lib/hub-client";
+import {
+  classifyOutcome,
+  mcpResult,
+  observeNetwork,
+  type FrameRequest,
+  type FrameResponse,
+  type McpToolResult,
+  type WorkflowState,
+} from "@web-mcp-hub/engine";
+import { lookupConfig, getPin, getTelemetry, reportExecution } from "@/lib/hub-client";
+import { RUN_RESULT_TOOL } from "@/lib/page-runs";
+import type { ActionStep, ExecutionDescriptor, ExecutionReport, RunReport } from "@/types";
+
+// How long a frame request waits for the frame's content script to announce itself
+const FRAME_HELLO_TIMEOUT_MS = 3000;
+// How long a tool run may take across page loads, counted from its first hand-off
+const RUN_TIMEOUT_MS = 60_000;
+// How long a loaded page's content script has to start answering
+const CONTENT_SCRIPT_TIMEOUT_MS = 5000;
+// How soon after a resultAfterNavigation submit the new page has to start loading
+const NAVIGATION_START_TIMEOUT_MS = 3000;
+// How long a run-result call waits for the run to end before answering that it's going
+const RESULT_WAIT_MS = 20_000;
+// How often a waiting run-result call checks storage.session for the run's end
+const RESULT_POLL_MS = 250;
+
+/**
+ * A tool run that continues on its tab's next page (see lib/page-runs.ts). Also kept in
+ * storage.session, since the service worker can be stopped while the page loads.
+ */
+interface PendingRun {
+  id: string;
+  toolName: string;
+  exec: ExecutionDescriptor;
+  /** Where a workflow resumes; unset when the next page only reads the result */
+  state?: WorkflowState;
+  /** Where the outcome goes once the run ends; unset for tools without a config */
+  report?: RunReport;
+  /** When the run times out, in ms since the epoch */
+  deadline: number;
+  /** Hand-offs so far — a page load only continues the latest */
+  handOffs: number;
+  /**
+   * How the tab navigated since the latest hand-off: to a new document, or only changing
+   * its URL in place (pushState or a new #fragment)
+   */
+  navigated?: "document" | "in place";
+  /** Set when a new page commits, so a page still loading from before doesn't count */
+  committed: boolean;
+}
+
+function runKey(tabId: number) {
+  return `run-${tabId}`;
+}
+
+/** Where the result of a tab's latest run that continued across pages is kept. */
+function resultKey(tabId: number) {
+  return `run-result-${tabId}`;
+}
+
+/** The result kept under resultKey, with the ID of the run that ended with it. */
+interface StoredResult {
+  id: string;
+  result: McpToolResult;
+}
+
+/** Whether `steps`, or steps nested in condition and forEach steps, wait for the network. */
+function waitsForNetwork(steps: ActionStep[] = []): boolean {
+  return steps.some((step) => {
+    switch (step.action) {
+      case "waitForNetworkIdle":
+        return true;
+      case "condition":
+        return waitsForNetwork(step.then) || waitsForNetwork(step.else);
+      case "forEach":
+        return waitsForNetwork(step.steps);
+      default:
+        return false;
+    }
+  });
+}
+
+/** Send a tool outcome to the hub, if the user opted in. */
+function forwardReport(report: ExecutionReport) {
+  getTelemetry()
+    .then((enabled) => {
+      if (enabled) return reportExecution(report);
+    })
+    .catch(() => {
+      // Telemetry is best-effort — never surface failures
+    });
+}
+
+function runTimeout(toolName: string) {
+  return mcpResult(
+    `Error: Timeout: "${toolName}" didn't finish within ${RUN_TIMEOUT_MS / 1000}s across page loads`,
+  );
+}
 
 export default defineBackground(() => {
   // Track the last URL we processed per tab so we skip duplicate lookups
@@ -8,6 +105,15 @@ export default defineBackground(() => {
   // Domain for which tools are currently registered per tab.
   // Used to decide whether an empty lookup result should wipe tools or be ignored.
   const registeredDomain = new Map<number, string>();
+  // Frames that announced a frame-bridge token (see lib/frame-bridge.ts), by token
+  const frameTokens = new Map<string, { tabId: number; frameId: number }[]>();
+  // Runs continuing on each tab's next page, mirrored in storage.session
+  const pendingRuns = new Map<number, PendingRun>();
+  const runTimers = new Map<number, ReturnType<typeof setTimeout>>();
+  // Pages waiting to hear whether a run's submit loads a new document, by run ID
+  const navigationWaiters = new Map<string, (leaving: boolean) => void>();
+  // The channel of the network observer in each tab's current page (see watchNetwork)
+  const networkChannels = new Map<number, Promise<string | undefined>>();
 
   async function handleNavigation(tabId: number, rawUrl: string) {
     try {
@@ -16,9 +122,10 @@ export default defineBackground(() => {
       const domain =
         url.port && url.port !== "80" && url.port !== "443" ? `${host}:${url.port}` : host;
 
-      // Send domain + pathname (no protocol/query) for URL pattern matching.
-      // Patterns like "example.com/dashboard/:id" match against this.
-      const normalizedUrl = domain + url.pathname;
+      // Send domain + pathname + query + hash (no protocol) for URL pattern matching.
+      // Patterns like "example.com/dashboard/:id", "example.com/search?q=:query"
+      // and "example.com/#/inbox" match against this.
+      const normalizedUrl = domain + url.pathname + url.search + url.hash;
 
       // Skip if we already processed this exact URL for this tab
       if (lastUrl.get(tabId) === normalizedUrl) return;
@@ -31,6 +138,7 @@ export default defineBackground(() => {
 
       const result = await lookupConfig(domain, normalizedUrl, {
         executable: true,
+        pin: await getPin(domain),
       });
 
       // Another navigation started while we were fetching — discard stale result
@@ -48,6 +156,10 @@ export default defineBackground(() => {
       if (result.configs.length === 0 && !domainChanged) return;
 
       registeredDomain.set(tabId, domain);
+      const networkChannel = await watchNetwork(
+        tabId,
+        result.configs.flatMap((config) => config.tools.map((tool) => tool.execution)),
+      );
 
       // Store result in session storage keyed by tab ID
       await browser.storage.session.set({
@@ -60,10 +172,15 @@ export default defineBackground(() => {
 
       // Notify content script
       browser.tabs
-        .sendMessage(tabId, {
-          type: "CONFIGS_FOUND",
-          configs: result.configs,
-        })
+        .sendMessage(
+          tabId,
+          {
+            type: "CONFIGS_FOUND",
+            configs: result.configs,
+            networkChannel,
+          },
+          { frameId: 0 },
+        )
         .catch(() => {
           // Content script may not be ready yet — expected during page load
         });
@@ -72,10 +189,277 @@ export default defineBackground(() => {
     }
   }
 
+  /**
+   * Start the network observer (engine observeNetwork) in the page's own JS world if one of
+   * `execs` waits for the network, and resolve to its channel — also when an earlier call
+   * already started it on this page. Only pages with such tools get the observer, and only
+   * once their configs are looked up, so requests already in flight by then aren't counted.
+   */
+  function watchNetwork(
+    tabId: number,
+    execs: (ExecutionDescriptor | undefined)[],
+  ): Promise<string | undefined> {
+    const started = networkChannels.get(tabId);
+    if (started || !execs.some((exec) => waitsForNetwork(exec?.steps))) {
+      return started ?? Promise.resolve(undefined);
+    }
+    // Random per page, so the page's own scripts don't send on it by guessing its name
+    const channel = `webmcp-hub:network:${crypto.randomUUID()}`;
+    const starting = browser.scripting
+      .executeScript({
+        target: { tabId, frameIds: [0] },
+        world: "MAIN",
+        injectImmediately: true,
+        func: observeNetwork,
+        args: [channel],
+      })
+      .then(
+        () => channel,
+        (err) => {
+          // The page may be gone already, or be one extensions can't script
+          console.warn("WebMCP Hub: failed to start the network observer:", err);
+          if (networkChannels.get(tabId) === starting) networkChannels.delete(tabId);
+          return undefined;
+        },
+      );
+    networkChannels.set(tabId, starting);
+    return starting;
+  }
+
+  /**
+   * The frame that announced `token` as a direct child of the requesting frame. A page
+   * can pass a token on to other frames, but only the <iframe> it was posted to is a
+   * child of the requester and answers to it.
+   */
+  async function findFrame(
+    token: string,
+    tabId: number,
+    parentFrameId: number,
+  ): Promise<number | undefined> {
+    const deadline = Date.now() + FRAME_HELLO_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      for (const frame of frameTokens.get(token) ?? []) {
+        if (frame.tabId !== tabId) continue;
+        const details = await browser.webNavigation.getFrame({ tabId, frameId: frame.frameId });
+        if (details?.parentFrameId === parentFrameId) return frame.frameId;
+      }
+      await new Promise((r) => setTimeout(r, 100));
+    }
+    return undefined;
+  }
+
+  async function relayToFrame(
+    tabId: number,
+    parentFrameId: number,
+    token: string,
+    request: FrameRequest,
+  ): Promise<FrameResponse> {
+    const frameId = await findFrame(token, tabId, parentFrameId);
+    if (frameId === undefined) {
+      return { error: "No content script answered in the frame (it may be sandboxed or loading)" };
+    }
+    try {
+      return (await browser.tabs.sendMessage(
+        tabId,
+        { type: "FRAME_REQUEST", request },
+        { frameId },
+      )) as FrameResponse;
+    } catch (err) {
+      // The frame navigated or was removed mid-request
+      return { error: err instanceof Error ? err.message : String(err) };
+    }
+  }
+
+  async function getRun(tabId: number): Promise<PendingRun | undefined> {
+    if (!pendingRuns.has(tabId)) {
+      // The service worker may have restarted since the run was stored
+      const stored = (await browser.storage.session.get(runKey(tabId)))[runKey(tabId)];
+      if (stored && !pendingRuns.has(tabId)) pendingRuns.set(tabId, stored as PendingRun);
+    }
+    return pendingRuns.get(tabId);
+  }
+
+  async function saveRun(tabId: number, run: PendingRun) {
+    pendingRuns.set(tabId, run);
+    clearTimeout(runTimers.get(tabId));
+    runTimers.set(
+      tabId,
+      setTimeout(() => {
+        if (pendingRuns.get(tabId)?.id === run.id) endRun(tabId, runTimeout(run.toolName));
+      }, run.deadline - Date.now()),
+    );
+    await browser.storage.session.set({ [runKey(tabId)]: run });
+  }
+
+  /**
+   * Drop a tab's run. With a `result` — the run ended on another page, or never reached
+   * one — keep that for the run-result tool and report the outcome. Without one, the run
+   * ended on the page it started on, which answers for it.
+   */
+  function endRun(tabId: number, result?: McpToolResult) {
+    const run = pendingRuns.get(tabId);
+    pendingRuns.delete(tabId);
+    clearTimeout(runTimers.get(tabId));
+    runTimers.delete(tabId);
+    // Stored before the run is removed, so a run-result call never sees neither
+    if (run && result) {
+      const stored: StoredResult = { id: run.id, result };
+      browser.storage.session.set({ [resultKey(tabId)]: stored });
+    }
+    browser.storage.session.remove(runKey(tabId));
+    if (!run) return;
+    answerNavigation(run.id, false);
+    if (!result) return;
+    const outcome = classifyOutcome(result);
+    if (run.report && outcome) {
+      const { configId, version, startedAt } = run.report;
+      const durationMs = Math.min(Date.now() - startedAt, 600_000);
+      forwardReport({ configId, toolName: run.toolName, version, outcome, durationMs });
+    }
+  }
+
+  /**
+   * The result of the tab's latest run across pages. While the run is going, waits up to
+   * RESULT_WAIT_MS for it to end, then answers that it's still running. The wait polls
+   * storage.session rather than being resolved from memory, so it still ends if the
+   * service worker was suspended and restarted meanwhile.
+   */
+  async function runResult(tabId: number): Promise<McpToolResult> {
+    const waitUntil = Date.now() + RESULT_WAIT_MS;
+    let waitingFor: PendingRun | undefined;
+    for (;;) {
+      const stored = await browser.storage.session.get([runKey(tabId), resultKey(tabId)]);
+      const run = stored[runKey(tabId)] as PendingRun | undefined;
+      const last = stored[resultKey(tabId)] as StoredResult | undefined;
+      waitingFor ??= run;
+      if (waitingFor && run?.id !== waitingFor.id) {
+        // The run ended while this call waited: with a result, or on its own page
+        return last?.id === waitingFor.id
+          ? last.result
+          : mcpResult(`Error: "${waitingFor.toolName}" ended on the page it was called on`);
+      }
+      if (!run) {
+        return last?.result ?? mcpResult("Error: No tool run has continued on this tab's pages");
+      }
+      // Its timer may have gone with a suspended service worker
+      if (Date.now() >= run.deadline) {
+        if (await getRun(tabId)) endRun(tabId, runTimeout(run.toolName));
+        continue;
+      }
+      if (Date.now() >= waitUntil) {
+        return mcpResult(
+          `"${run.toolName}" is still running on this tab's pages. Call ${RUN_RESULT_TOOL} again for its result.`,
+        );
+      }
+      await new Promise((r) => setTimeout(r, RESULT_POLL_MS));
+    }
+  }
+
+  /**
+   * Whether the tab started loading a new document after run `id` was handed off.
+   * False once the page only changes its URL in place (pushState or a new #fragment), or
+   * nothing starts within NAVIGATION_START_TIMEOUT_MS.
+   */
+  async function awaitNavigation(tabId: number, id: string): Promise<boolean> {
+    const run = await getRun(tabId);
+    if (run?.id !== id) return false;
+    if (run.navigated) return run.navigated === "document";
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => answerNavigation(id, false), NAVIGATION_START_TIMEOUT_MS);
+      navigationWaiters.set(id, (leaving) => {
+        clearTimeout(timer);
+        resolve(leaving);
+      });
+    });
+  }
+
+  function answerNavigation(id: string, leaving: boolean) {
+    const answer = navigationWaiters.get(id);
+    navigationWaiters.delete(id);
+    answer?.(leaving);
+  }
+
+  /** Note how the tab navigated for its run, answering a page waiting to hear about it. */
+  async function noteNavigation(tabId: number, how: NonNullable<PendingRun["navigated"]>) {
+    const run = await getRun(tabId);
+    // A new document takes precedence: the run can only continue there
+    if (!run || run.navigated === "document" || run.navigated === how) return;
+    await saveRun(tabId, { ...run, navigated: how });
+    answerNavigation(run.id, how === "document");
+  }
+
+  /** Store where a run continues once its tab's next page has loaded. */
+  async function handOffRun(
+    tabId: number,
+    {
+      id,
+      toolName,
+      exec,
+      state,
+      report,
+    }: Pick<PendingRun, "id" | "toolName" | "exec" | "state" | "report">,
+  ) {
+    const earlier = await getRun(tabId);
+    if (earlier && earlier.id !== id) {
+      endRun(
+        tabId,
+        mcpResult(`Error: Another tool ran before "${earlier.toolName}" loaded its page`),
+      );
+    }
+    const same = earlier?.id === id ? earlier : undefined;
+    await saveRun(tabId, {
+      id,
+      toolName,
+      exec,
+      state,
+      report: same?.report ?? report,
+      deadline: same?.deadline ?? Date.now() + RUN_TIMEOUT_MS,
+      handOffs: (same?.handOffs ?? 0) + 1,
+      committed: false,
+    });
+  }
+
+  /** Pass a tab's run to the content script on the page that just loaded. */
+  async function continueRun(tabId: number) {
+    const run = await getRun(tabId);
+    if (!run?.committed) return;
+    if (Date.now() >= run.deadline) {
+      endRun(tabId, runTimeout(run.toolName));
+      return;
+    }
+    // This page takes the run; the next one only gets it after another hand-off
+    await saveRun(tabId, { ...run, committed: false });
+    const { id, toolName, exec, state } = run;
+    const networkChannel = await watchNetwork(tabId, [exec]);
+    const message = { type: "CONTINUE_RUN", id, toolName, exec, state, networkChannel };
+    const deadline = Date.now() + CONTENT_SCRIPT_TIMEOUT_MS;
+    for (;;) {
+      try {
+        // Null when the run handed off to yet another page
+        const result = await browser.tabs.sendMessage(tabId, message, { frameId: 0 });
+        if (result && pendingRuns.get(tabId)?.id === id) endRun(tabId, result as McpToolResult);
+        return;
+      } catch {
+        // The content script may not be listening yet — or the run already moved on
+        const current = pendingRuns.get(tabId);
+        if (current?.id !== id || current.handOffs !== run.handOffs) return;
+        if (Date.now() >= deadline) {
+          endRun(
+            tabId,
+            mcpResult(`Error: No content script answered on the page "${toolName}" loaded`),
+          );
+          return;
+        }
+        await new Promise((r) => setTimeout(r, 100));
+      }
+    }
+  }
+
   // Full page navigations (traditional + hard reloads)
   browser.webNavigation.onCompleted.addListener(
     (details) => {
       if (details.frameId !== 0) return;
+      continueRun(details.tabId);
       // Clear dedup and domain tracking on full navigation so a fresh lookup always runs
       lastUrl.delete(details.tabId);
       registeredDomain.delete(details.tabId);
@@ -84,20 +468,106 @@ export default defineBackground(() => {
     { url: [{ schemes: ["http", "https"] }] },
   );
 
+  // A new document starts loading — for a run just handed off, the page it continues on
+  browser.webNavigation.onBeforeNavigate.addListener(
+    (details) => {
+      if (details.frameId !== 0) return;
+      noteNavigation(details.tabId, "document");
+    },
+    { url: [{ schemes: ["http", "https"] }] },
+  );
+
+  browser.webNavigation.onCommitted.addListener(
+    (details) => {
+      if (details.frameId !== 0) return;
+      // A new document: any network observer went with the old one
+      networkChannels.delete(details.tabId);
+      getRun(details.tabId).then((run) => {
+        if (run && !run.committed) saveRun(details.tabId, { ...run, committed: true });
+      });
+    },
+    { url: [{ schemes: ["http", "https"] }] },
+  );
+
   // SPA navigations (pushState / replaceState) — URL changes without page reload
   browser.webNavigation.onHistoryStateUpdated.addListener(
     (details) => {
       if (details.frameId !== 0) return;
+      noteNavigation(details.tabId, "in place");
+      handleNavigation(details.tabId, details.url);
+    },
+    { url: [{ schemes: ["http", "https"] }] },
+  );
+
+  // Hash-routed SPAs (#/inbox → #/sent) — only the fragment changes
+  browser.webNavigation.onReferenceFragmentUpdated.addListener(
+    (details) => {
+      if (details.frameId !== 0) return;
+      noteNavigation(details.tabId, "in place");
       handleNavigation(details.tabId, details.url);
     },
     { url: [{ schemes: ["http", "https"] }] },
   );
 
+  // Tool outcomes from content scripts — only sent to the hub if the user opted in
+  browser.runtime.onMessage.addListener((message) => {
+    if (message.type !== "EXECUTION_REPORT") return;
+    forwardReport(message.report as ExecutionReport);
+  });
+
+  // Frame bridge: frames announce tokens, parent frames send requests to run in them
+  browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    const tabId = sender.tab?.id;
+    const frameId = sender.frameId;
+    if (tabId === undefined || frameId === undefined) return;
+    if (message.type === "FRAME_HELLO") {
+      const frames = frameTokens.get(message.token) ?? [];
+      if (!frames.some((f) => f.tabId === tabId && f.frameId === frameId)) {
+        frames.push({ tabId, frameId });
+      }
+      frameTokens.set(message.token, frames);
+      return;
+    }
+    if (message.type !== "FRAME_REQUEST") return;
+    relayToFrame(tabId, frameId, message.token, message.request).then(sendResponse);
+    // Keep the channel open for the async response
+    return true;
+  });
+
+  // Tool runs that continue on the next page: stored by CONTINUE_ON_NEXT_PAGE, asked
+  // about with AWAIT_NAVIGATION after a submit, their result read with GET_RUN_RESULT
+  browser.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    const tabId = sender.tab?.id;
+    if (tabId === undefined || sender.frameId !== 0) return;
+    switch (message.type) {
+      case "CONTINUE_ON_NEXT_PAGE":
+        handOffRun(tabId, message).then(() => sendResponse(true));
+        return true;
+      case "AWAIT_NAVIGATION":
+        awaitNavigation(tabId, message.id).then(sendResponse);
+        return true;
+      case "GET_RUN_RESULT":
+        runResult(tabId).then(sendResponse);
+        // Keep the channel open until the run ends
+        return true;
+      case "CANCEL_RUN":
+        if (pendingRuns.get(tabId)?.id === message.id) endRun(tabId);
+        return;
+    }
+  });
+
   // Clean up storage and tracking when tab is closed
   browser.tabs.onRemoved.addListener((tabId) => {
-    browser.storage.session.remove(`tab-${tabId}`);
+    browser.storage.session.remove([`tab-${tabId}`, resultKey(tabId)]);
     lastUrl.delete(tabId);
     navSeq.delete(tabId);
     registeredDomain.delete(tabId);
+    networkChannels.delete(tabId);
+    endRun(tabId);
+    for (const [token, frames] of frameTokens) {
+      const rest = frames.filter((f) => f.tabId !== tabId);
+      if (rest.length > 0) frameTokens.set(token, rest);
+      else frameTokens.delete(token);
+    }
   });
 });
@@ -1,5 +1,17 @@
 import type { WebMcpConfig } from "@/types";
-import { getHubUrl, setHubUrl, getApiKey, setApiKey } from "@/lib/hub-client";
+import {
+  getHubUrl,
+  setHubUrl,
+  getApiKey,
+  setApiKey,
+  getPin,
+  setPin,
+  getDebug,
+  setDebug,
+  getTelemetry,
+  setTelemetry,
+  type DomainPin,
+} from "@/lib/hub-client";
 
 async function init() {
   const statusEl = document.getElementById("status")!;
@@ -7,6 +19,8 @@ async function init() {
   const savedEl = document.getElementById("saved")!;
   const apiKeyInput = document.getElementById("apiKey") as HTMLInputElement;
   const apiKeySavedEl = document.getElementById("apiKeySaved")!;
+  const debugInput = document.getElementById("debug") as HTMLInputElement;
+  const telemetryInput = document.getElementById("telemetry") as HTMLInputElement;
 
   // Load current hub URL into input
   hubUrlInput.value = await getHubUrl();
@@ -46,6 +60,11 @@ async function init() {
     }, 500);
   });
 
+  debugInput.checked = await getDebug();
+  debugInput.addEventListener("change", () => setDebug(debugInput.checked));
+  telemetryInput.checked = await getTelemetry();
+  telemetryInput.addEventListener("change", () => setTelemetry(telemetryInput.checked));
+
   const [tab] = await browser.tabs.query({
     active: true,
     currentWindow: true,
@@ -60,6 +79,10 @@ async function init() {
   const data = await browser.storage.session.get(`tab-${tab.id}`);
   const entry = data[`tab-${tab.id}`] as { configs: WebMcpConfig[]; domain: string } | undefined;
 
+  if (entry) {
+    await initPin(entry.domain, entry.configs);
+  }
+
   if (!entry || entry.configs.length === 0) {
     statusEl.textContent = "No configs found for this page";
     statusEl.className = "status none";
@@ -71,4 +94,41 @@ async function init() {
   statusEl.innerHTML = `<span class="found">Config found for ${entry.domain}</span><br/>${entry.configs.length} config(s), ${totalTools} tool(s)`;
 }
 
+async function initPin(domain: string, configs: WebMcpConfig[]) {
+  const pinEl = document.getElementById("pin")!;
+  const pinStatusEl = document.getElementById("pinStatus")!;
+  const pinToggle = document.getElementById("pinToggle") as HTMLButtonElement;
+
+  let pin = await getPin(domain);
+
+  const render = () => {
+    if (pin) {
+      pinStatusEl.textContent =
+        "version" in pin
+          ? `Pinned to v${pin.version}`
+          : `Pinned to ${new Date(pin.at).toLocaleString()}`;
+      pinToggle.textContent = "Unpin";
+    } else {
+      pinStatusEl.textContent = "Following the latest versions";
+      pinToggle.textContent = "Pin current version";
+    }
+    // Nothing to pin to until the hub has returned configs
+    pinEl.style.display = pin || configs.length > 0 ? "block" : "none";
+  };
+
+  pinToggle.addEventListener("click", async () => {
+    // A single config pins to its exact version; several are frozen at the current time
+    const next: DomainPin | undefined = pin
+      ? undefined
+      : configs.length === 1
+        ? { configId: configs[0].id, version: configs[0].version }
+        : { at: new Date().toISOString() };
+    await setPin(domain, next ?? null);
+    pin = next;
+    render();
+  });
+
+  render();
+}
+
 init();
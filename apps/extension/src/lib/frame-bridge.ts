@@ -0,0 +1,57 @@
+import {
+  handleFrameRequest,
+  type FrameBridge,
+  type FrameRequest,
+  type FrameResponse,
+} from "@web-mcp-hub/engine";
+
+// The content script runs in every frame. To reach the one inside an <iframe>, a parent
+// posts a random token into the frame; the frame reports it to the background, which
+// learns the frame's frameId from the sender and relays the parent's requests there.
+// Requests only travel over extension messaging, which page scripts can't use.
+const FRAME_HELLO = "webmcp-hub:frame-hello";
+
+// Re-post the token until the frame answers — its content script may still be loading
+const HELLO_INTERVAL_MS = 250;
+
+const frameTokens = new WeakMap<HTMLIFrameElement, string>();
+
+/** The engine's FrameBridge: run a request in the content script inside `frame`. */
+export const sendToFrame: FrameBridge = async (frame, request) => {
+  let token = frameTokens.get(frame);
+  if (!token) {
+    token = crypto.randomUUID();
+    frameTokens.set(frame, token);
+  }
+  const hello = () => frame.contentWindow?.postMessage({ type: FRAME_HELLO, token }, "*");
+  hello();
+  const retry = setInterval(hello, HELLO_INTERVAL_MS);
+  try {
+    return (await browser.runtime.sendMessage({
+      type: "FRAME_REQUEST",
+      token,
+      request,
+    })) as FrameResponse;
+  } finally {
+    clearInterval(retry);
+  }
+};
+
+/** In a frame: report tokens from the parent frame and run the requests relayed here. */
+export function listenForFrameRequests() {
+  window.addEventListener("message", (event) => {
+    // Only the parent knows which <iframe> this is; ignore tokens posted by anyone else
+    if (event.source !== window.parent || event.data?.type !== FRAME_HELLO) return;
+    if (typeof event.data.token !== "string") return;
+    browser.runtime.sendMessage({ type: "FRAME_HELLO", token: event.data.token }).catch(() => {
+      // The background may be restarting — the parent posts the token again
+    });
+  });
+
+  browser.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    if (message.type !== "FRAME_REQUEST") return;
+    handleFrameRequest(message.request as FrameRequest).then(sendResponse);
+    // Keep the channel open for the async response
+    return true;
+  });
+}
@@ -1,4 +1,4 @@
-import type { WebMcpConfig } from "@/types";
+import type { WebMcpConfig, ExecutionReport } from "@/types";
 
 const DEFAULT_HUB_URL = "https://www.webmcp-hub.com";
 
@@ -20,15 +20,69 @@ export async function setApiKey(key: string): Promise<void> {
   await browser.storage.local.set({ apiKey: key });
 }
 
+/** When on, hub tools append a step-by-step execution trace to their results. */
+export async function getDebug(): Promise<boolean> {
+  const data = await browser.storage.local.get("debug");
+  return data.debug === true;
+}
+
+export async function setDebug(debug: boolean): Promise<void> {
+  await browser.storage.local.set({ debug });
+}
+
+/** Opt-in: report anonymous tool outcomes so the hub can show per-tool success rates. */
+export async function getTelemetry(): Promise<boolean> {
+  const data = await browser.storage.sync.get("telemetry");
+  return data.telemetry === true;
+}
+
+export async function setTelemetry(telemetry: boolean): Promise<void> {
+  await browser.storage.sync.set({ telemetry });
+}
+
+/**
+ * A known-good point to resolve a domain's configs at, instead of the latest edit: one
+ * config's version, or a point in time for every config on the domain.
+ */
+export type DomainPin = { configId: string; version: number } | { at: string };
+
+export async function getPins(): Promise<Record<string, DomainPin>> {
+  const data = await browser.storage.sync.get("pins");
+  const pins = (data.pins as Record<string, DomainPin>) || {};
+  // Version pins saved before they named their config can't be looked up: drop them
+  return Object.fromEntries(
+    Object.entries(pins).filter(([, pin]) => !("version" in pin) || "configId" in pin),
+  );
+}
+
+export async function getPin(domain: string): Promise<DomainPin | undefined> {
+  return (await getPins())[domain];
+}
+
+export async function setPin(domain: string, pin: DomainPin | null): Promise<void> {
+  const pins = await getPins();
+  if (pin) {
+    pins[domain] = pin;
+  } else {
+    delete pins[domain];
+  }
+  await browser.storage.sync.set({ pins });
+}
+
 export async function lookupConfig(
   domain: string,
   url?: string,
-  opts?: { executable?: boolean },
+  opts?: { executable?: boolean; pin?: DomainPin },
 ): Promise<{ configs: WebMcpConfig[] }> {
   const hubBase = await getHubUrl();
   const params = new URLSearchParams({ domain });
   if (url) params.set("url", url);
   if (opts?.executable) params.set("executable", "true");
+  if (opts?.pin && "version" in opts.pin) {
+    params.set("configId", opts.pin.configId);
+    params.set("version", String(opts.pin.version));
+  }
+  if (opts?.pin && "at" in opts.pin) params.set("at", opts.pin.at);
 
   const headers: Record<string, string> = {};
   const apiKey = await getApiKey();
@@ -39,3 +93,12 @@ export async function lookupConfig(
   const res = await fetch(`${hubBase}/api/configs/lookup?${params}`, { headers });
   return res.json() as Promise<{ configs: WebMcpConfig[] }>;
 }
+
+export async function reportExecution(report: ExecutionReport): Promise<void> {
+  const hubBase = await getHubUrl();
+  await fetch(`${hubBase}/api/telemetry/executions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(report),
+  });
+}
@@ -0,0 +1,179 @@
+import {
+  classifyOutcome,
+  executeTool,
+  mcpResult,
+  readToolResult,
+  resumeTool,
+  setNetworkChannel,
+  type ExecuteOptions,
+  type McpToolResult,
+  type WorkflowState,
+} from "@web-mcp-hub/engine";
+import type { ExecutionDescriptor, RunReport } from "@/types";
+
+// A tool run can outlive the page it starts on: a resultAfterNavigation tool reads its
+// result on the page its submit loads, and a workflow's steps after a navigate step that
+// loads a new document run on that page. Before the page goes, the content script hands
+// the run to the background, which keeps it in storage.session and passes it to the
+// content script on the next page once that has loaded.
+//
+// The call that started the run goes with its page, so it can't wait for the result.
+// It answers that the run continues on the next page instead. The background keeps the
+// result once the run ends, and the pages the run reaches register RUN_RESULT_TOOL to
+// read it.
+
+/** The tool pages a run continues on register, to read the run's result. */
+export const RUN_RESULT_TOOL = "webmcp_hub_run_result";
+
+/** A run's result, and whether the run continues on another page instead of ending here. */
+export interface PageRunResult {
+  result: McpToolResult;
+  continued: boolean;
+}
+
+/** Have the background store where a run continues; resolves once it's stored. */
+async function handOff(
+  id: string,
+  toolName: string,
+  exec: ExecutionDescriptor,
+  state?: WorkflowState,
+  report?: RunReport,
+): Promise<void> {
+  await browser.runtime.sendMessage({
+    type: "CONTINUE_ON_NEXT_PAGE",
+    id,
+    toolName,
+    exec,
+    state,
+    report,
+  });
+}
+
+/**
+ * Run a tool, letting it continue on the pages it loads. `report` is passed on to the
+ * background, which reports a run that continues elsewhere once it ends.
+ */
+export async function executeAcrossPages(
+  toolName: string,
+  exec: ExecutionDescriptor,
+  params: Record<string, unknown>,
+  options: ExecuteOptions,
+  report?: RunReport,
+): Promise<PageRunResult> {
+  const id = crypto.randomUUID();
+  let handedOff = false;
+  const continueOnNextPage = async (state?: WorkflowState) => {
+    await handOff(id, toolName, exec, state, report);
+    handedOff = true;
+  };
+  const cancel = () => {
+    browser.runtime.sendMessage({ type: "CANCEL_RUN", id }).catch(() => {});
+  };
+
+  // A submit can unload the page as soon as it happens, so hand the run off first
+  if (exec.resultAfterNavigation) await continueOnNextPage();
+  let result: McpToolResult;
+  try {
+    result = await executeTool(toolName, exec, params, {
+      ...options,
+      onNavigate: continueOnNextPage,
+    });
+  } catch (err) {
+    if (handedOff) cancel();
+    throw err;
+  }
+  if (!handedOff) return { result, continued: false };
+  // Nothing was submitted or the user cancelled: no page is coming
+  if (classifyOutcome(result) !== "success") {
+    cancel();
+    return { result, continued: false };
+  }
+  if (exec.resultAfterNavigation && !(await loadsNewPage(id))) {
+    // Script handled the submit in place, or the form didn't validate: the result is here
+    cancel();
+    const here = await readToolResult(toolName, exec, { trace: options.trace });
+    return { result: here, continued: false };
+  }
+  return {
+    result: {
+      ...result,
+      content: [
+        ...result.content,
+        {
+          type: "text" as const,
+          text: `"${toolName}" continues on the page being loaded. Call ${RUN_RESULT_TOOL} there for its result.`,
+        },
+      ],
+    },
+    continued: true,
+  };
+}
+
+/**
+ * Whether the tab started loading a new document after run `id` was handed off. The
+ * background answers false when only the URL changed in place, or nothing started soon.
+ */
+async function loadsNewPage(id: string): Promise<boolean> {
+  try {
+    return (await browser.runtime.sendMessage({ type: "AWAIT_NAVIGATION", id })) === true;
+  } catch {
+    // The page is already going away
+    return true;
+  }
+}
+
+/**
+ * The result of the latest run that continued on this tab's pages, once it has ended. The
+ * background waits a while for a run that's still going, then answers that it is.
+ */
+export async function fetchRunResult(): Promise<McpToolResult> {
+  return (await browser.runtime.sendMessage({ type: "GET_RUN_RESULT" })) as McpToolResult;
+}
+
+/**
+ * In the top frame: continue the runs the background hands over from the previous page,
+ * calling `onContinue` when one reaches this page.
+ */
+export function listenForRunContinuations(onContinue: () => void) {
+  browser.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    if (message.type !== "CONTINUE_RUN") return;
+    const { id, toolName, exec, state, networkChannel } = message as {
+      id: string;
+      toolName: string;
+      exec: ExecutionDescriptor;
+      state?: WorkflowState;
+      networkChannel?: string;
+    };
+    // The page's configs may not have been looked up yet, so the run brings the channel
+    if (networkChannel) setNetworkChannel(networkChannel);
+    onContinue();
+    continueRun(id, toolName, exec, state).then(sendResponse);
+    // Keep the channel open for the async response
+    return true;
+  });
+}
+
+/** Read the result or resume the steps here. Null when the run hands off to another page. */
+async function continueRun(
+  id: string,
+  toolName: string,
+  exec: ExecutionDescriptor,
+  state?: WorkflowState,
+): Promise<McpToolResult | null> {
+  let handedOff = false;
+  const onNavigate = async (next: WorkflowState) => {
+    await handOff(id, toolName, exec, next);
+    handedOff = true;
+  };
+  try {
+    const result = state
+      ? await resumeTool(toolName, exec, state, { onNavigate })
+      : await readToolResult(toolName, exec);
+    // A navigate step that failed stays on this page, so the run ends here
+    return handedOff && classifyOutcome(result) === "success" ? null : result;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[webmcp-hub] Tool "${toolName}" threw:`, err);
+    return mcpResult(`Error executing "${toolName}": ${msg}`);
+  }
+}
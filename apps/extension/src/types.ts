@@ -1,9 +1,15 @@
+/**
+ * A selector, or an ordered list of alternatives for when a page changes: the extension
+ * uses the first alternative that matches and reports which one it was.
+ */
+export type SelectorChain = string | string[];
+
 // ---------------------------------------------------------------------------
 // Tool Field types (discriminated union on `type`)
 // ---------------------------------------------------------------------------
 
 interface FieldBase {
-  selector: string;
+  selector: SelectorChain;
   name: string;
   description: string;
   required?: boolean;
@@ -40,7 +46,7 @@ export interface CheckboxField extends FieldBase {
 export interface RadioOption {
   value: string;
   label: string;
-  selector: string;
+  selector: SelectorChain;
 }
 
 export interface RadioField extends FieldBase {
@@ -56,6 +62,37 @@ export interface HiddenField extends FieldBase {
   type: "hidden";
 }
 
+export interface MultiselectOption {
+  value: string;
+  label: string;
+  selector?: SelectorChain;
+}
+
+export interface MultiselectField extends FieldBase {
+  type: "multiselect";
+  options?: MultiselectOption[];
+}
+
+export interface RangeField extends FieldBase {
+  type: "range";
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export interface ComboboxField extends FieldBase {
+  type: "combobox";
+  optionSelector: SelectorChain;
+  options?: SelectOption[];
+  timeout?: number;
+}
+
+export interface FileField extends FieldBase {
+  type: "file";
+  accept?: string;
+  multiple?: boolean;
+}
+
 export type ToolField =
   | TextField
   | NumberField
@@ -64,93 +101,222 @@ export type ToolField =
   | CheckboxField
   | RadioField
   | DateField
-  | HiddenField;
+  | HiddenField
+  | FileField
+  | MultiselectField
+  | RangeField
+  | ComboboxField;
 
 // ---------------------------------------------------------------------------
 // Action Step types (discriminated union on `action`)
 // ---------------------------------------------------------------------------
 
-export interface NavigateStep {
+/** Per-step failure handling; the ExecutionDescriptor's values are the tool-wide default. */
+export interface StepErrorPolicy {
+  onError?: "fail" | "continue" | "retry";
+  retries?: number;
+  retryDelay?: number;
+}
+
+/** Loads `url`; the steps after it run on the loaded page. */
+export interface NavigateStep extends StepErrorPolicy {
   action: "navigate";
   url: string; // supports {{paramName}} templates
 }
 
-export interface ClickStep {
+export interface ClickStep extends StepErrorPolicy {
   action: "click";
-  selector: string;
+  selector: SelectorChain;
 }
 
-export interface FillStep {
+export interface FillStep extends StepErrorPolicy {
   action: "fill";
-  selector: string;
+  selector: SelectorChain;
   value: string; // supports {{paramName}} templates
 }
 
-export interface SelectStep {
+export interface SelectStep extends StepErrorPolicy {
   action: "select";
-  selector: string;
+  selector: SelectorChain;
   value: string; // supports {{paramName}} templates
 }
 
-export interface WaitStep {
+export interface WaitStep extends StepErrorPolicy {
   action: "wait";
-  selector: string;
+  selector: SelectorChain;
   state?: "visible" | "exists" | "hidden";
   timeout?: number;
 }
 
-export interface ExtractStep {
+export interface WaitForUrlStep extends StepErrorPolicy {
+  action: "waitForUrl";
+  /** A urlPattern, or a path on the current site. Supports {{paramName}} templates. */
+  url: string;
+  timeout?: number;
+}
+
+export interface WaitForNetworkIdleStep extends StepErrorPolicy {
+  action: "waitForNetworkIdle";
+  idleTime?: number;
+  timeout?: number;
+}
+
+export interface WaitForTextStep extends StepErrorPolicy {
+  action: "waitForText";
+  text: string;
+  /** Defaults to the whole page. */
+  selector?: SelectorChain;
+  timeout?: number;
+}
+
+export interface ExtractStep extends StepErrorPolicy {
   action: "extract";
-  selector: string;
+  selector: SelectorChain;
   extract: "text" | "html" | "list" | "table" | "attribute";
   attribute?: string;
+  /** Store the value under this name — collected into the result and usable as {{$vars.name}}. */
+  as?: string;
 }
 
-export interface ScrollStep {
+export interface ScrollStep extends StepErrorPolicy {
   action: "scroll";
-  selector: string;
+  selector: SelectorChain;
+}
+
+export interface RemoveStep extends StepErrorPolicy {
+  action: "remove";
+  selector: SelectorChain;
+  all?: boolean;
+}
+
+export interface DispatchStep extends StepErrorPolicy {
+  action: "dispatch";
+  selector: SelectorChain;
+  event: string;
+  detail?: unknown;
+  bubbles?: boolean;
 }
 
-export interface ConditionStep {
+export interface SetAttributeStep extends StepErrorPolicy {
+  action: "setAttribute";
+  selector: SelectorChain;
+  attribute: string;
+  /** Omit to remove the attribute. */
+  value?: string;
+}
+
+export interface FocusStep extends StepErrorPolicy {
+  action: "focus";
+  selector: SelectorChain;
+}
+
+export interface PressStep extends StepErrorPolicy {
+  action: "press";
+  /** Key value, optionally with modifiers: "Control+Enter". */
+  key: string;
+  /** Defaults to the focused element. */
+  selector?: SelectorChain;
+}
+
+export interface HoverStep extends StepErrorPolicy {
+  action: "hover";
+  selector: SelectorChain;
+}
+
+export interface DragStep extends StepErrorPolicy {
+  action: "drag";
+  selector: SelectorChain;
+  to: SelectorChain;
+}
+
+export interface ClearStep extends StepErrorPolicy {
+  action: "clear";
+  selector: SelectorChain;
+}
+
+export interface ConditionStep extends StepErrorPolicy {
   action: "condition";
-  selector: string;
+  selector: SelectorChain;
   state: "visible" | "exists" | "hidden";
   then: ActionStep[];
   else?: ActionStep[];
 }
 
-export interface EvaluateStep {
+export interface EvaluateStep extends StepErrorPolicy {
   action: "evaluate";
   value: string;
 }
 
+export interface ForEachStep extends StepErrorPolicy {
+  action: "forEach";
+  selector: SelectorChain;
+  /** Run once per matched element — {{$item}} in selectors refers to the current element. */
+  steps: ActionStep[];
+  max?: number;
+  as?: string;
+}
+
 export type ActionStep =
   | NavigateStep
   | ClickStep
   | FillStep
   | SelectStep
   | WaitStep
+  | WaitForUrlStep
+  | WaitForNetworkIdleStep
+  | WaitForTextStep
   | ExtractStep
   | ScrollStep
+  | RemoveStep
+  | DispatchStep
+  | SetAttributeStep
+  | FocusStep
+  | PressStep
+  | HoverStep
+  | DragStep
+  | ClearStep
   | ConditionStep
-  | EvaluateStep;
+  | EvaluateStep
+  | ForEachStep;
 
 // ---------------------------------------------------------------------------
 // Execution Descriptor
 // ---------------------------------------------------------------------------
 
-export interface ExecutionDescriptor {
-  selector: string;
+export interface ExecutionDescriptor extends StepErrorPolicy {
+  selector: SelectorChain;
   fields?: ToolField[];
   autosubmit: boolean;
   submitAction?: "click" | "enter";
-  submitSelector?: string;
-  resultSelector?: string;
+  submitSelector?: SelectorChain;
+  resultSelector?: SelectorChain;
   resultExtract?: "text" | "html" | "attribute" | "table" | "list";
   resultAttribute?: string;
   steps?: ActionStep[];
   resultDelay?: number;
-  resultWaitSelector?: string;
+  resultWaitSelector?: SelectorChain;
+  resultRequired?: boolean;
+  /** JSON Schema for the extracted result — when set, results are returned as typed JSON. */
+  outputSchema?: OutputSchema;
+  /** Read list/table results across pages (next button or infinite scroll). */
+  pagination?: Pagination;
+  /** Read the result from the page the submit loads. */
+  resultAfterNavigation?: boolean;
+}
+
+export interface Pagination {
+  mode: "click" | "scroll";
+  nextSelector?: SelectorChain;
+  maxPages?: number;
+  maxItems?: number;
+  timeout?: number;
+}
+
+export interface OutputSchema {
+  type: "string" | "number" | "integer" | "boolean" | "array" | "object";
+  description?: string;
+  items?: OutputSchema;
+  properties?: Record<string, OutputSchema>;
 }
 
 // ---------------------------------------------------------------------------
@@ -175,7 +341,34 @@ export interface WebMcpConfig {
   tools: ToolDescriptor[];
   contributor: string;
   version: number;
+  /** Set when the config was resolved from a pinned revision. */
+  latestVersion?: number;
+  /** Values captured from the page URL by urlPattern — available as {{url.name}} in templates. */
+  urlParams?: Record<string, string>;
   createdAt: string;
   updatedAt: string;
   tags?: string[];
 }
+
+// ---------------------------------------------------------------------------
+// Execution telemetry
+// ---------------------------------------------------------------------------
+
+export type ExecutionOutcome = "success" | "not_found" | "timeout" | "no_result" | "error";
+
+/** Anonymous outcome of one tool run, reported to the hub when the user opts in. */
+export interface ExecutionReport {
+  configId: string;
+  toolName: string;
+  version: number;
+  outcome: ExecutionOutcome;
+  durationMs: number;
+}
+
+/** Where a run that continues on other pages reports its outcome once it ends. */
+export interface RunReport {
+  configId: string;
+  version: number;
+  /** When the run started, in ms since the epoch */
+  startedAt: number;
+}
@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+import { WxtVitest } from "wxt/testing/vitest-plugin";
+
+export default defineConfig({
+  // Sets up `browser` as an in-memory fake, WXT's auto-imports and the "@/" alias
+  plugins: [WxtVitest()],
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "happy-dom",
+  },
+});
@@ -24,6 +24,9 @@ export default defineConfig({
       "activeTab",
       // storage: persist hub URL setting (sync) and per-tab config cache (session)
       "storage",
+      // scripting: start the network observer for waitForNetworkIdle steps, only on pages
+      // whose matching configs use them
+      "scripting",
     ],
     // <all_urls> is required because configs can target any domain.
     // The extension only injects tools when the hub returns a matching config
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getRevision } from "@/lib/db";
+import { rateLimit } from "@/lib/rate-limit";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> },
+) {
+  const limited = rateLimit(request);
+  if (limited) return limited;
+
+  const { id, version } = await params;
+  const versionNum = parseInt(version, 10);
+  if (!Number.isInteger(versionNum) || versionNum < 1) {
+    return NextResponse.json({ error: "version must be a positive integer" }, { status: 400 });
+  }
+
+  const revision = await getRevision(id, versionNum);
+  if (!revision) {
+    return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+  }
+  return NextResponse.json(revision);
+}
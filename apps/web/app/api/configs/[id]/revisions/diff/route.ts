@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getConfigById, diffRevisions } from "@/lib/db";
+import { rateLimit } from "@/lib/rate-limit";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const limited = rateLimit(request);
+  if (limited) return limited;
+
+  const { id } = await params;
+  const config = await getConfigById(id);
+  if (!config) {
+    return NextResponse.json({ error: "Config not found" }, { status: 404 });
+  }
+
+  // `to` defaults to the current version, so ?from=N shows everything since N
+  const search = request.nextUrl.searchParams;
+  const from = parseInt(search.get("from") ?? "", 10);
+  const to = search.get("to") ? parseInt(search.get("to")!, 10) : config.version;
+  if (!Number.isInteger(from) || from < 1 || !Number.isInteger(to) || to < 1) {
+    return NextResponse.json(
+      { error: "from (and optional to) must be positive integer versions" },
+      { status: 400 },
+    );
+  }
+
+  const diff = await diffRevisions(id, from, to);
+  if (!diff) {
+    return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+  }
+  return NextResponse.json(diff);
+}
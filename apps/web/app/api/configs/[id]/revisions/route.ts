@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getConfigById, listRevisions } from "@/lib/db";
+import { rateLimit } from "@/lib/rate-limit";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const limited = rateLimit(request);
+  if (limited) return limited;
+
+  const { id } = await params;
+  const config = await getConfigById(id);
+  if (!config) {
+    return NextResponse.json({ error: "Config not found" }, { status: 404 });
+  }
+
+  const revisions = await listRevisions(id);
+  return NextResponse.json({ configId: id, currentVersion: config.version, revisions });
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rollbackSchema } from "@web-mcp-hub/db";
+import { getConfigById, getRevision, findByDomainAndPattern, rollbackConfig } from "@/lib/db";
+import { checkAuth, getUserName } from "@/lib/auth-check";
+import { rateLimit } from "@/lib/rate-limit";
+import { fireWebhook } from "@/lib/webhook";
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const limited = rateLimit(request, { max: 20 });
+  if (limited) return limited;
+
+  const authResult = await checkAuth(request);
+  if (!authResult.authenticated) {
+    return NextResponse.json(
+      { error: authResult.error, message: authResult.helpMessage },
+      { status: 401 },
+    );
+  }
+
+  const { id } = await params;
+
+  // Ownership check: only the config's contributor can roll it back
+  const existing = await getConfigById(id);
+  if (!existing) {
+    return NextResponse.json({ error: "Config not found" }, { status: 404 });
+  }
+  const userName = await getUserName(authResult.userId);
+  if (!userName || existing.contributor !== userName) {
+    return NextResponse.json(
+      { error: "Forbidden: only the config owner can roll it back" },
+      { status: 403 },
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = rollbackSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+  const { version } = parsed.data;
+  if (version === existing.version) {
+    return NextResponse.json({ error: `Config is already at version ${version}` }, { status: 400 });
+  }
+
+  const revision = await getRevision(id, version);
+  if (!revision) {
+    return NextResponse.json({ error: "Revision not found" }, { status: 404 });
+  }
+
+  // Restoring an old urlPattern must not collide with another config on the domain
+  if (revision.snapshot.urlPattern !== existing.urlPattern) {
+    const conflict = await findByDomainAndPattern(existing.domain, revision.snapshot.urlPattern);
+    if (conflict && conflict.id !== id) {
+      return NextResponse.json(
+        {
+          error: "Another config now uses this revision's urlPattern",
+          existingId: conflict.id,
+        },
+        { status: 409 },
+      );
+    }
+  }
+
+  const result = await rollbackConfig(id, version, userName);
+  if (!result) {
+    return NextResponse.json({ error: "Config not found" }, { status: 404 });
+  }
+
+  const events = [
+    ["tool.created", result.createdTools],
+    ["tool.updated", result.updatedTools],
+    ["tool.deleted", result.deletedTools],
+  ] as const;
+  for (const [event, changed] of events) {
+    for (const tool of changed) {
+      fireWebhook(event, {
+        configId: id,
+        toolName: tool.name,
+        tool,
+        contributor: tool.contributor ?? userName,
+      });
+    }
+  }
+
+  return NextResponse.json(result.config);
+}
@@ -1,19 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
-import { updateConfigSchema } from "@web-mcp-hub/db";
+import { updateConfigSchema, validatePatternDomain, validateUrlTemplates } from "@web-mcp-hub/db";
 import { getConfigById, updateConfig } from "@/lib/db";
 
 export const dynamic = "force-dynamic";
 import { checkAuth, getUserName } from "@/lib/auth-check";
 import { rateLimit } from "@/lib/rate-limit";
+import { parsePin } from "@/lib/pin";
 
 export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const limited = rateLimit(_request);
   if (limited) return limited;
 
+  const { pin, error } = parsePin(_request.nextUrl.searchParams);
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
   const { id } = await params;
-  const config = await getConfigById(id);
+  const config = await getConfigById(id, pin);
   if (!config) {
-    return NextResponse.json({ error: "Config not found" }, { status: 404 });
+    return NextResponse.json(
+      { error: pin ? "Config not found at the requested version" : "Config not found" },
+      { status: 404 },
+    );
   }
   return NextResponse.json(config);
 }
@@ -57,6 +66,20 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
     return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
   }
 
+  if (parsed.data.urlPattern) {
+    const patternError = validatePatternDomain(parsed.data.urlPattern, existing.domain);
+    if (patternError) {
+      return NextResponse.json({ error: patternError }, { status: 400 });
+    }
+    // Existing tools' {{url.name}} templates must still resolve under the new pattern
+    for (const tool of existing.tools) {
+      const templateError = validateUrlTemplates(tool, parsed.data.urlPattern);
+      if (templateError) {
+        return NextResponse.json({ error: templateError }, { status: 400 });
+      }
+    }
+  }
+
   parsed.data.contributor = userName;
 
   const config = await updateConfig(id, parsed.data);
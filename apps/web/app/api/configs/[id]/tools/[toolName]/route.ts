@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { updateToolSchema } from "@web-mcp-hub/db";
+import { toolDescriptorSchema, updateToolSchema, validateUrlTemplates } from "@web-mcp-hub/db";
 import {
   getConfigById,
   deleteToolFromConfig,
@@ -55,10 +55,20 @@ export async function PATCH(
   if (!parsed.success) {
     return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
   }
+  // The checks across fields (examples against inputSchema, template references) need the
+  // whole tool, not just the fields the update changes
+  const merged = toolDescriptorSchema.safeParse({ ...tool, ...parsed.data });
+  if (!merged.success) {
+    return NextResponse.json({ error: merged.error.flatten() }, { status: 400 });
+  }
+  const templateError = validateUrlTemplates(merged.data, existing.urlPattern);
+  if (templateError) {
+    return NextResponse.json({ error: templateError }, { status: 400 });
+  }
 
   await resetToolVerified(id, toolName);
 
-  const updated = await updateToolInConfig(id, toolName, parsed.data);
+  const updated = await updateToolInConfig(id, toolName, parsed.data, userName!);
   if (!updated) {
     return NextResponse.json({ error: "Tool not found" }, { status: 404 });
   }
@@ -111,7 +121,13 @@ export async function DELETE(
     );
   }
 
-  const config = await deleteToolFromConfig(id, toolName);
+  const config = await deleteToolFromConfig(id, toolName, userName!);
+  fireWebhook("tool.deleted", {
+    configId: id,
+    toolName,
+    tool,
+    contributor: tool.contributor ?? userName!,
+  });
   if (!config) {
     return NextResponse.json({ message: "Tool deleted; config auto-removed (no tools remaining)" });
   }
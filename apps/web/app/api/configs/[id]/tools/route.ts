@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { addToolSchema } from "@web-mcp-hub/db";
+import { addToolSchema, validateUrlTemplates } from "@web-mcp-hub/db";
 import { getConfigById, addToolToConfig } from "@/lib/db";
 import { checkAuth, getUserName } from "@/lib/auth-check";
 import { rateLimit } from "@/lib/rate-limit";
@@ -37,6 +37,10 @@ export async function POST(request: NextRequest, { params }: { params: Promise<{
   if (!parsed.success) {
     return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
   }
+  const templateError = validateUrlTemplates(parsed.data, config.urlPattern);
+  if (templateError) {
+    return NextResponse.json({ error: templateError }, { status: 400 });
+  }
 
   const contributor = await getUserName(authResult.userId);
   if (!contributor) {
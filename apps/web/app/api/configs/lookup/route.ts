@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { lookupByDomain } from "@/lib/db";
 import { rateLimit } from "@/lib/rate-limit";
 import { checkAuth, getUserName } from "@/lib/auth-check";
+import { parsePin } from "@/lib/pin";
 
 export const dynamic = "force-dynamic";
 
@@ -15,6 +16,26 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: "domain query parameter is required" }, { status: 400 });
   }
 
+  const { pin, error } = parsePin(params);
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+  // Config versions are per-config counters, so a version means nothing across configs
+  const configId = params.get("configId");
+  if (pin && "version" in pin && !configId) {
+    return NextResponse.json(
+      {
+        error:
+          "version pins a single config: pass its configId too, or use at to pin every config on the domain",
+      },
+      { status: 400 },
+    );
+  }
+  if (configId && !(pin && "version" in pin)) {
+    return NextResponse.json({ error: "configId is only used with version" }, { status: 400 });
+  }
+  const lookupPin = pin && ("version" in pin ? { ...pin, configId: configId! } : pin);
+
   // Best-effort auth: if the caller is authenticated, include their own
   // unverified configs in the results so they can test before verification.
   let currentUser: string | undefined;
@@ -26,6 +47,11 @@ export async function GET(request: NextRequest) {
   const url = params.get("url") ?? undefined;
   const executable = params.get("executable") === "true";
   const yolo = params.get("yolo") === "true";
-  const configs = await lookupByDomain(domain, url, { executable, yolo, currentUser });
+  const configs = await lookupByDomain(domain, url, {
+    executable,
+    yolo,
+    currentUser,
+    pin: lookupPin,
+  });
   return NextResponse.json({ configs });
 }
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { healthReportSchema } from "@web-mcp-hub/db";
+import { getConfigById, recordToolHealth } from "@/lib/db";
+import { rateLimit } from "@/lib/rate-limit";
+
+export const dynamic = "force-dynamic";
+
+// Written by the headless health checker (@web-mcp-hub/health-check)
+export async function POST(request: NextRequest) {
+  const limited = rateLimit(request, { max: 30 });
+  if (limited) return limited;
+
+  const secret = process.env.WEBHOOK_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "Webhook not configured" }, { status: 503 });
+  }
+
+  const headerSecret = request.headers.get("x-webhook-secret");
+  if (headerSecret !== secret) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const parsed = healthReportSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+
+  const { configId, results } = parsed.data;
+  const config = await getConfigById(configId);
+  if (!config) {
+    return NextResponse.json({ error: "Config not found" }, { status: 404 });
+  }
+
+  // Ignore results for tools that were deleted while the check ran
+  const toolNames = new Set(config.tools.map((t) => t.name));
+  const known = results.filter((r) => toolNames.has(r.toolName));
+  await recordToolHealth(configId, known);
+
+  return NextResponse.json({ ok: true, recorded: known.length });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { executionReportSchema } from "@web-mcp-hub/db";
+import { getConfigById, recordExecution } from "@/lib/db";
+import { rateLimit } from "@/lib/rate-limit";
+
+export const dynamic = "force-dynamic";
+
+// Anonymous by design: no auth, and nothing about the caller is stored — only the
+// outcome is added to the tool's rolled-up counts.
+export async function POST(request: NextRequest) {
+  const limited = rateLimit(request, { max: 60 });
+  if (limited) return limited;
+
+  const body = await request.json().catch(() => null);
+  const parsed = executionReportSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.flatten() }, { status: 400 });
+  }
+  const report = parsed.data;
+
+  const config = await getConfigById(report.configId);
+  if (!config) {
+    return NextResponse.json({ error: "Config not found" }, { status: 404 });
+  }
+  if (report.version > config.version) {
+    return NextResponse.json(
+      { error: `Config is at version ${config.version}, got ${report.version}` },
+      { status: 400 },
+    );
+  }
+  if (!config.tools.some((t) => t.name === report.toolName)) {
+    return NextResponse.json(
+      { error: `Tool "${report.toolName}" not found in this config` },
+      { status: 404 },
+    );
+  }
+
+  await recordExecution(report);
+  return new NextResponse(null, { status: 204 });
+}
@@ -53,7 +53,7 @@ export async function deleteToolAction(formData: FormData): Promise<{ error?: st
     return { error: "Only the config owner can delete tools" };
   }
 
-  await deleteToolFromConfig(configId, toolName);
+  await deleteToolFromConfig(configId, toolName, session.user.name);
 
   revalidatePath(`/configs/${configId}`);
   revalidatePath(`/domains/${config.domain}`);
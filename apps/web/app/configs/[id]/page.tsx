@@ -1,12 +1,18 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
-import { getConfigById, getToolVotesBatch } from "@/lib/db";
+import { getConfigById, getToolVotesBatch, getToolStatsBatch, getToolHealth } from "@/lib/db";
 import { auth } from "@/lib/auth";
 import { VoteButtons } from "@/components/vote-buttons";
 import { DeleteToolButton } from "@/components/delete-tool-button";
 
 export const dynamic = "force-dynamic";
-import type { ExecutionDescriptor } from "@web-mcp-hub/db";
+import {
+  describeOutputSchema,
+  describeToolStats,
+  describeExpectation,
+  type ExecutionDescriptor,
+  type ToolExecutionStats,
+} from "@web-mcp-hub/db";
 
 function getExecType(exec: ExecutionDescriptor): string {
   if (exec.steps && exec.steps.length > 0) return "multi-step";
@@ -17,12 +23,28 @@ function getExecType(exec: ExecutionDescriptor): string {
   return "extract";
 }
 
+/** Badge colour for a reported success rate. */
+function successRateClass(rate: number): string {
+  if (rate >= 0.9) return "bg-green-500/10 text-green-400";
+  if (rate >= 0.6) return "bg-yellow-500/10 text-yellow-400";
+  return "bg-red-500/10 text-red-400";
+}
+
 export default async function ConfigDetailPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = await params;
   const [config, session] = await Promise.all([getConfigById(id), auth()]);
   if (!config) notFound();
   const toolNames = config.tools.map((t) => t.name);
-  const toolVotes = await getToolVotesBatch(id, toolNames, session?.user?.id);
+  const [toolVotes, allToolStats, allToolHealth] = await Promise.all([
+    getToolVotesBatch(id, toolNames, session?.user?.id),
+    getToolStatsBatch([config]),
+    getToolHealth(id),
+  ]);
+  const toolStats: Record<string, ToolExecutionStats> = allToolStats[id] ?? {};
+  // A check against an older version may predate a selector fix, so only current ones count
+  const toolHealth = Object.fromEntries(
+    Object.entries(allToolHealth).filter(([, health]) => health.configVersion >= config.version),
+  );
   const isConfigOwner = !!session?.user?.name && session.user.name === config.contributor;
   const canDeleteTool = (tool: { contributor?: string }) =>
     isConfigOwner || (!!session?.user?.name && session.user.name === tool.contributor);
@@ -129,8 +151,25 @@ export default async function ConfigDetailPage({ params }: { params: Promise<{ i
                       verified
                     </span>
                   )}
+                  {toolHealth[tool.name]?.status === "broken" && (
+                    <span
+                      title={`Health check on ${new Date(toolHealth[tool.name].checkedAt).toUTCString()} (v${toolHealth[tool.name].configVersion})`}
+                      className="ml-2 text-[0.7em] bg-red-500/10 text-red-400 px-2 py-0.5 rounded-full align-middle"
+                    >
+                      selectors broken
+                    </span>
+                  )}
                 </h3>
                 <div className="flex items-center gap-2">
+                  {toolStats[tool.name] && (
+                    <span
+                      title={`${describeToolStats(toolStats[tool.name])}, avg ${toolStats[tool.name].avgDurationMs}ms`}
+                      className={`text-xs px-2 py-0.5 rounded-full ${successRateClass(toolStats[tool.name].successRate)}`}
+                    >
+                      {Math.round(toolStats[tool.name].successRate * 100)}% success ·{" "}
+                      {toolStats[tool.name].runs} runs
+                    </span>
+                  )}
                   <VoteButtons
                     configId={config.id}
                     toolName={tool.name}
@@ -148,6 +187,25 @@ export default async function ConfigDetailPage({ params }: { params: Promise<{ i
               )}
               <p className="text-sm text-zinc-400 mb-3">{tool.description}</p>
 
+              {toolHealth[tool.name]?.status === "broken" && (
+                <div className="mb-3 p-3 bg-red-500/5 border border-red-500/20 rounded text-xs text-zinc-400">
+                  <p className="text-red-400 mb-1">
+                    These selectors matched nothing on {toolHealth[tool.name].url} (checked v
+                    {toolHealth[tool.name].configVersion}):
+                  </p>
+                  <ul className="space-y-0.5">
+                    {toolHealth[tool.name].selectors
+                      .filter((s) => s.matched === 0)
+                      .map((s) => (
+                        <li key={s.path}>
+                          {s.path}: <code className="bg-zinc-950 px-1 rounded">{s.selector}</code>
+                          {s.error && <span className="text-zinc-500"> — {s.error}</span>}
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              )}
+
               <details className="mb-2">
                 <summary className="text-xs text-zinc-500 cursor-pointer hover:text-zinc-300">
                   Input Schema
@@ -168,6 +226,36 @@ export default async function ConfigDetailPage({ params }: { params: Promise<{ i
                 </details>
               )}
 
+              {tool.examples && tool.examples.length > 0 && (
+                <details className="mb-2">
+                  <summary className="text-xs text-zinc-500 cursor-pointer hover:text-zinc-300">
+                    Examples ({tool.examples.length})
+                  </summary>
+                  <ul className="mt-2 space-y-2">
+                    {tool.examples.map((example, i) => (
+                      <li key={i} className="p-3 bg-zinc-950 rounded text-xs text-zinc-300">
+                        {example.description && (
+                          <p className="text-zinc-400 mb-1">{example.description}</p>
+                        )}
+                        <p>
+                          <strong className="text-zinc-300">Input:</strong>{" "}
+                          <code>{JSON.stringify(example.input)}</code>
+                        </p>
+                        <p>
+                          <strong className="text-zinc-300">Expect:</strong>{" "}
+                          {describeExpectation(example.expect)}
+                        </p>
+                        {(example.fixtureHtml || example.url) && (
+                          <p className="text-zinc-500 mt-1">
+                            Runs against {example.url ?? "a page snapshot"}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+
               {hasExec && exec && (
                 <details>
                   <summary className="text-xs text-zinc-500 cursor-pointer hover:text-zinc-300">
@@ -211,6 +299,14 @@ export default async function ConfigDetailPage({ params }: { params: Promise<{ i
                         {exec.resultExtract}
                       </p>
                     )}
+                    {exec.outputSchema && (
+                      <p>
+                        <strong className="text-zinc-300">Output:</strong>{" "}
+                        <code className="bg-zinc-950 px-1 rounded">
+                          {describeOutputSchema(exec.outputSchema)}
+                        </code>
+                      </p>
+                    )}
                     {exec.steps && exec.steps.length > 0 && (
                       <p>
                         <strong className="text-zinc-300">Steps ({exec.steps.length}):</strong>{" "}
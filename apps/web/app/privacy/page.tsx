@@ -31,6 +31,12 @@ export default function PrivacyPage() {
             If a matching configuration exists, the extension registers the defined tools on the
             page. If no configuration matches, the extension does nothing.
           </p>
+          <p className="mt-3">
+            When a matching configuration has a tool that waits for the page to finish loading data,
+            the extension also adds a small script to that page which counts how many of its network
+            requests are still pending. It doesn&apos;t read or send the requests or their
+            responses.
+          </p>
         </section>
 
         <section>
@@ -58,6 +64,13 @@ export default function PrivacyPage() {
             <li>Browsing history beyond the current navigation lookup</li>
             <li>Personal information such as your name, email, or IP address</li>
           </ul>
+          <p className="mt-3">
+            If you turn on <strong>Share tool success stats</strong> in the extension popup (off by
+            default), the extension also reports the outcome of each hub tool it runs: the config
+            ID, tool name, config version, whether it succeeded or how it failed (e.g. element not
+            found), and how long it took. Reports contain no page content, tool inputs or results,
+            and are only stored as per-tool totals.
+          </p>
         </section>
 
         <section>
@@ -69,9 +82,9 @@ export default function PrivacyPage() {
               individual requests.
             </li>
             <li>
-              <strong>Session cache:</strong> Matched configurations are stored temporarily in the
-              browser&apos;s session storage (per tab) and are automatically removed when the tab is
-              closed.
+              <strong>Session cache:</strong> Matched configurations, and the result of a tool run
+              that continues on the next page, are stored temporarily in the browser&apos;s session
+              storage (per tab) and are automatically removed when the tab is closed.
             </li>
             <li>
               <strong>Hub URL setting:</strong> Your configured hub URL is stored in Chrome sync
@@ -133,6 +146,9 @@ export default function PrivacyPage() {
               You can <strong>change the hub URL</strong> via the extension popup settings if you
               want to use an alternative registry
             </li>
+            <li>
+              You can <strong>turn tool success stats on or off</strong> in the extension popup
+            </li>
             <li>
               You can <strong>delete your account</strong> and contributed configurations by
               contacting us
@@ -1,19 +1,45 @@
-import { eq, and, like, or, sql, desc, inArray } from "drizzle-orm";
+import { eq, and, like, or, sql, desc, inArray, lte } from "drizzle-orm";
 import {
   getDb,
   configs,
   tools,
   users,
   configVotes,
+  configRevisions,
+  toolExecutionStats,
+  toolHealth,
   rankConfigsByUrl,
+  wildcardDomainsFor,
+  diffConfigSnapshots,
   type WebMcpConfig,
   type CreateConfigInput,
   type UpdateConfigInput,
   type AddToolInput,
   type UpdateToolInput,
   type ToolDescriptor,
+  type ConfigSnapshot,
+  type ConfigRevision,
+  type ConfigRevisionSummary,
+  type RevisionChangeType,
+  type RevisionDiff,
+  type ExecutionReport,
+  type ToolExecutionStats,
+  type ToolHealth,
+  type Database,
 } from "@web-mcp-hub/db";
 
+/** A transaction from `db.transaction()`, which runs the same queries as the database. */
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+/** Resolve configs as they were at a version, or at a point in time, instead of the latest. */
+export type ConfigPin = { version: number } | { at: Date };
+
+/**
+ * A domain lookup's pin. Each config counts its own versions, so a version only pins the
+ * one config it belongs to; a point in time pins every config on the domain.
+ */
+export type LookupPin = { at: Date } | { version: number; configId: string };
+
 export type LeaderboardEntry = {
   rank: number;
   contributor: string;
@@ -29,6 +55,7 @@ function toolRowToDescriptor(t: typeof tools.$inferSelect): ToolDescriptor {
     inputSchema: t.inputSchema,
     annotations: t.annotations ?? undefined,
     execution: t.execution ?? undefined,
+    examples: t.examples ?? undefined,
     contributor: t.contributor,
   };
 }
@@ -81,6 +108,60 @@ function rowToVerifiedConfig(
   };
 }
 
+function revisionToConfig(
+  row: typeof configs.$inferSelect,
+  revision: typeof configRevisions.$inferSelect,
+  verifiedOnly: boolean,
+): WebMcpConfig {
+  const { snapshot } = revision;
+  const verifiedNames = new Set(revision.verifiedToolNames);
+  const verifiedToolNames = snapshot.tools.map((t) => t.name).filter((n) => verifiedNames.has(n));
+  return {
+    id: row.id,
+    domain: row.domain,
+    urlPattern: snapshot.urlPattern,
+    pageType: snapshot.pageType,
+    title: snapshot.title,
+    description: snapshot.description,
+    tools: verifiedOnly ? snapshot.tools.filter((t) => verifiedNames.has(t.name)) : snapshot.tools,
+    totalToolCount: verifiedOnly ? snapshot.tools.length : undefined,
+    contributor: row.contributor,
+    version: revision.version,
+    latestVersion: row.version,
+    verified: snapshot.tools.length > 0 && verifiedToolNames.length === snapshot.tools.length,
+    verifiedToolNames: verifiedToolNames.length > 0 ? verifiedToolNames : undefined,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: revision.createdAt.toISOString(),
+    tags: snapshot.tags,
+  };
+}
+
+/** For each config, the latest revision at or before the pin. Configs with none are omitted. */
+async function getPinnedRevisions(
+  configIds: string[],
+  pin: ConfigPin,
+): Promise<Map<string, typeof configRevisions.$inferSelect>> {
+  if (configIds.length === 0) return new Map();
+  const db = getDb();
+  const rows = await db
+    .select()
+    .from(configRevisions)
+    .where(
+      and(
+        inArray(configRevisions.configId, configIds),
+        "version" in pin
+          ? lte(configRevisions.version, pin.version)
+          : lte(configRevisions.createdAt, pin.at),
+      ),
+    )
+    .orderBy(desc(configRevisions.version));
+  const map = new Map<string, typeof configRevisions.$inferSelect>();
+  for (const row of rows) {
+    if (!map.has(row.configId)) map.set(row.configId, row);
+  }
+  return map;
+}
+
 async function getToolsForConfigIds(
   configIds: string[],
 ): Promise<Map<string, (typeof tools.$inferSelect)[]>> {
@@ -158,16 +239,26 @@ export async function listConfigs(opts: {
   };
 }
 
+/** Order exact-domain configs before wildcard-domain ones that also cover the domain. */
+function exactDomainFirst(domain: string) {
+  return sql`${configs.domain} = ${domain} DESC`;
+}
+
 export async function lookupByDomain(
   domain: string,
   url?: string,
-  opts?: { executable?: boolean; yolo?: boolean; currentUser?: string },
+  opts?: { executable?: boolean; yolo?: boolean; currentUser?: string; pin?: LookupPin },
 ): Promise<WebMcpConfig[]> {
   const db = getDb();
   const normalized = domain.toLowerCase().replace(/^www\./, "");
   const yolo = opts?.yolo ?? false;
 
-  const conditions = [eq(configs.domain, normalized)];
+  if (opts?.pin) {
+    return lookupPinned(normalized, url, { ...opts, pin: opts.pin });
+  }
+
+  // Exact domain plus any "*." wildcard configs covering it (e.g. *.atlassian.net)
+  const conditions = [inArray(configs.domain, [normalized, ...wildcardDomainsFor(normalized)])];
   if (opts?.executable) {
     const currentUser = opts?.currentUser;
     conditions.push(
@@ -181,7 +272,7 @@ export async function lookupByDomain(
     .select()
     .from(configs)
     .where(and(...conditions))
-    .orderBy(desc(configs.updatedAt));
+    .orderBy(exactDomainFirst(normalized), desc(configs.updatedAt));
 
   const toolsMap = await getToolsForConfigIds(rows.map((r) => r.id));
 
@@ -194,17 +285,65 @@ export async function lookupByDomain(
             : rowToVerifiedConfig(row, toolsMap.get(row.id) ?? [])
       : (row: typeof configs.$inferSelect) => rowToVerifiedConfig(row, toolsMap.get(row.id) ?? []);
 
-  const allConfigs = rows.map(mapper);
+  const allConfigs = await withToolStats(rows.map(mapper));
 
   if (!url) return allConfigs;
 
   return rankConfigsByUrl(allConfigs, url, normalized);
 }
 
-export async function getConfigById(id: string): Promise<WebMcpConfig | null> {
+/**
+ * Pinned variant of lookupByDomain: configs are resolved from their revision history,
+ * and verification comes from the revision rather than the tools' current state.
+ * A version pin returns only the config it belongs to.
+ */
+async function lookupPinned(
+  normalized: string,
+  url: string | undefined,
+  opts: { executable?: boolean; yolo?: boolean; currentUser?: string; pin: LookupPin },
+): Promise<WebMcpConfig[]> {
+  const db = getDb();
+  const conditions = [inArray(configs.domain, [normalized, ...wildcardDomainsFor(normalized)])];
+  if ("version" in opts.pin) conditions.push(eq(configs.id, opts.pin.configId));
+  const rows = await db
+    .select()
+    .from(configs)
+    .where(and(...conditions))
+    .orderBy(exactDomainFirst(normalized), desc(configs.updatedAt));
+
+  const revisions = await getPinnedRevisions(
+    rows.map((r) => r.id),
+    opts.pin,
+  );
+
+  let pinned = rows
+    .filter((row) => revisions.has(row.id))
+    .map((row) =>
+      revisionToConfig(
+        row,
+        revisions.get(row.id)!,
+        !opts.yolo && row.contributor !== opts.currentUser,
+      ),
+    );
+
+  if (opts.executable) {
+    pinned = pinned.filter((c) => c.tools.some((t) => t.execution));
+  }
+  pinned = await withToolStats(pinned);
+
+  if (!url) return pinned;
+
+  return rankConfigsByUrl(pinned, url, normalized);
+}
+
+export async function getConfigById(id: string, pin?: ConfigPin): Promise<WebMcpConfig | null> {
   const db = getDb();
   const [row] = await db.select().from(configs).where(eq(configs.id, id));
   if (!row) return null;
+  if (pin) {
+    const revision = (await getPinnedRevisions([id], pin)).get(id);
+    return revision ? revisionToConfig(row, revision, false) : null;
+  }
   const toolsMap = await getToolsForConfigIds([id]);
   return rowToConfig(row, toolsMap.get(id) ?? []);
 }
@@ -266,6 +405,7 @@ export async function createConfig(input: CreateConfigInput): Promise<WebMcpConf
           inputSchema: t.inputSchema,
           annotations: t.annotations ?? null,
           execution: t.execution ?? null,
+          examples: t.examples ?? null,
           contributor: input.contributor!,
           verified: false,
           createdAt: now,
@@ -275,6 +415,8 @@ export async function createConfig(input: CreateConfigInput): Promise<WebMcpConf
       .returning();
   }
 
+  await recordRevision(row, toolRows, "config.created", input.contributor!);
+
   return rowToConfig(row, toolRows);
 }
 
@@ -300,7 +442,9 @@ export async function updateConfig(
   if (!row) return null;
 
   const toolsMap = await getToolsForConfigIds([id]);
-  return rowToConfig(row, toolsMap.get(id) ?? []);
+  const toolRows = toolsMap.get(id) ?? [];
+  await recordRevision(row, toolRows, "config.updated", input.contributor ?? row.contributor);
+  return rowToConfig(row, toolRows);
 }
 
 export async function addToolToConfig(
@@ -327,6 +471,7 @@ export async function addToolToConfig(
       inputSchema: tool.inputSchema,
       annotations: tool.annotations ?? null,
       execution: tool.execution ?? null,
+      examples: tool.examples ?? null,
       contributor,
       verified: false,
       createdAt: now,
@@ -337,6 +482,8 @@ export async function addToolToConfig(
 
   if (!inserted) return null; // name already taken in this config
 
+  await bumpVersionAndRecord(configId, "tool.created", contributor, tool.name);
+
   return toolRowToDescriptor(inserted);
 }
 
@@ -344,6 +491,7 @@ export async function updateToolInConfig(
   configId: string,
   toolName: string,
   input: UpdateToolInput,
+  editor: string,
 ): Promise<ToolDescriptor | null> {
   const db = getDb();
   const updates: Record<string, unknown> = { updatedAt: new Date() };
@@ -352,6 +500,7 @@ export async function updateToolInConfig(
   if (input.inputSchema !== undefined) updates.inputSchema = input.inputSchema;
   if (input.annotations !== undefined) updates.annotations = input.annotations ?? null;
   if (input.execution !== undefined) updates.execution = input.execution ?? null;
+  if (input.examples !== undefined) updates.examples = input.examples ?? null;
 
   const [updated] = await db
     .update(tools)
@@ -360,12 +509,16 @@ export async function updateToolInConfig(
     .returning();
 
   if (!updated) return null;
+
+  await bumpVersionAndRecord(configId, "tool.updated", editor, toolName);
+
   return toolRowToDescriptor(updated);
 }
 
 export async function deleteToolFromConfig(
   configId: string,
   toolName: string,
+  editor: string,
 ): Promise<WebMcpConfig | null> {
   const db = getDb();
 
@@ -377,16 +530,19 @@ export async function deleteToolFromConfig(
     .where(and(eq(tools.configId, configId), eq(tools.name, toolName)))
     .returning();
 
-  if (deleted.length > 0) {
-    const remaining = await db.select().from(tools).where(eq(tools.configId, configId));
-    if (remaining.length === 0) {
-      await db.delete(configs).where(eq(configs.id, configId));
-      return null;
-    }
+  if (deleted.length === 0) {
+    const toolsMap = await getToolsForConfigIds([configId]);
+    return rowToConfig(configRow, toolsMap.get(configId) ?? []);
+  }
+
+  const remaining = await db.select().from(tools).where(eq(tools.configId, configId));
+  if (remaining.length === 0) {
+    await db.delete(configs).where(eq(configs.id, configId));
+    return null;
   }
 
-  const toolsMap = await getToolsForConfigIds([configId]);
-  return rowToConfig(configRow, toolsMap.get(configId) ?? []);
+  const bumped = await bumpVersionAndRecord(configId, "tool.deleted", editor, toolName);
+  return rowToConfig(bumped ?? configRow, remaining);
 }
 
 export async function setToolVerified(
@@ -400,11 +556,38 @@ export async function setToolVerified(
     .set({ verified, updatedAt: new Date() })
     .where(and(eq(tools.configId, configId), eq(tools.name, toolName)))
     .returning();
-  return !!updated;
+  if (!updated) return false;
+
+  // Keep the current revision's verified set in sync for pinned lookups
+  const [configRow] = await db
+    .select({ version: configs.version })
+    .from(configs)
+    .where(eq(configs.id, configId));
+  if (configRow) {
+    const verifiedRows = await db
+      .select({ name: tools.name })
+      .from(tools)
+      .where(and(eq(tools.configId, configId), eq(tools.verified, true)));
+    await db
+      .update(configRevisions)
+      .set({ verifiedToolNames: verifiedRows.map((r) => r.name) })
+      .where(
+        and(eq(configRevisions.configId, configId), eq(configRevisions.version, configRow.version)),
+      );
+  }
+  return true;
 }
 
+/**
+ * Clear verification ahead of an edit. Unlike setToolVerified this leaves the
+ * current revision alone — its content was verified; the upcoming one is not.
+ */
 export async function resetToolVerified(configId: string, toolName: string): Promise<void> {
-  await setToolVerified(configId, toolName, false);
+  const db = getDb();
+  await db
+    .update(tools)
+    .set({ verified: false, updatedAt: new Date() })
+    .where(and(eq(tools.configId, configId), eq(tools.name, toolName)));
 }
 
 export async function getStats(): Promise<{
@@ -465,6 +648,222 @@ export async function getLeaderboard(limit: number = 50): Promise<LeaderboardEnt
   }));
 }
 
+// ── Revisions ────────────────────────────────────────────────────────
+
+function rowsToSnapshot(
+  row: typeof configs.$inferSelect,
+  toolRows: (typeof tools.$inferSelect)[],
+): ConfigSnapshot {
+  return {
+    urlPattern: row.urlPattern,
+    pageType: row.pageType ?? undefined,
+    title: row.title,
+    description: row.description,
+    tags: row.tags ?? undefined,
+    tools: toolRows.map(toolRowToDescriptor),
+  };
+}
+
+function revisionRowToSummary(r: typeof configRevisions.$inferSelect): ConfigRevisionSummary {
+  return {
+    configId: r.configId,
+    version: r.version,
+    changeType: r.changeType,
+    toolName: r.toolName ?? undefined,
+    restoredFromVersion: r.restoredFromVersion ?? undefined,
+    contributor: r.contributor,
+    createdAt: r.createdAt.toISOString(),
+  };
+}
+
+/** Append the config's current state as the revision for its current version. */
+async function recordRevision(
+  row: typeof configs.$inferSelect,
+  toolRows: (typeof tools.$inferSelect)[],
+  changeType: RevisionChangeType,
+  contributor: string,
+  extra?: { toolName?: string; restoredFromVersion?: number },
+  db: Database | Transaction = getDb(),
+): Promise<void> {
+  await db
+    .insert(configRevisions)
+    .values({
+      configId: row.id,
+      version: row.version,
+      changeType,
+      toolName: extra?.toolName ?? null,
+      restoredFromVersion: extra?.restoredFromVersion ?? null,
+      contributor,
+      snapshot: rowsToSnapshot(row, toolRows),
+      verifiedToolNames: toolRows.filter((t) => t.verified).map((t) => t.name),
+      createdAt: row.updatedAt,
+    })
+    // A concurrent write may already have recorded this version
+    .onConflictDoNothing();
+}
+
+/** Tool changes bump the owning config's version so every revision has its own number. */
+async function bumpVersionAndRecord(
+  configId: string,
+  changeType: RevisionChangeType,
+  contributor: string,
+  toolName: string,
+): Promise<typeof configs.$inferSelect | null> {
+  const db = getDb();
+  const [row] = await db
+    .update(configs)
+    .set({ version: sql`${configs.version} + 1`, updatedAt: new Date() })
+    .where(eq(configs.id, configId))
+    .returning();
+  if (!row) return null;
+
+  const toolRows = await db.select().from(tools).where(eq(tools.configId, configId));
+  await recordRevision(row, toolRows, changeType, contributor, { toolName });
+  return row;
+}
+
+export async function listRevisions(configId: string): Promise<ConfigRevisionSummary[]> {
+  const db = getDb();
+  const rows = await db
+    .select()
+    .from(configRevisions)
+    .where(eq(configRevisions.configId, configId))
+    .orderBy(desc(configRevisions.version));
+  return rows.map(revisionRowToSummary);
+}
+
+export async function getRevision(
+  configId: string,
+  version: number,
+): Promise<ConfigRevision | null> {
+  const db = getDb();
+  const [row] = await db
+    .select()
+    .from(configRevisions)
+    .where(and(eq(configRevisions.configId, configId), eq(configRevisions.version, version)));
+  if (!row) return null;
+  return { ...revisionRowToSummary(row), snapshot: row.snapshot };
+}
+
+export async function diffRevisions(
+  configId: string,
+  from: number,
+  to: number,
+): Promise<RevisionDiff | null> {
+  const [before, after] = await Promise.all([
+    getRevision(configId, from),
+    getRevision(configId, to),
+  ]);
+  if (!before || !after) return null;
+  return { configId, from, to, changes: diffConfigSnapshots(before.snapshot, after.snapshot) };
+}
+
+function isSameTool(a: ToolDescriptor, b: ToolDescriptor): boolean {
+  const meta = { urlPattern: "", title: "", description: "" };
+  return diffConfigSnapshots({ ...meta, tools: [a] }, { ...meta, tools: [b] }).length === 0;
+}
+
+/**
+ * Restore a config's metadata and tools to a prior revision, in one transaction.
+ * The rollback itself is a new revision — history is never rewritten.
+ * Returns the restored config plus the tools it re-created, changed and deleted
+ * (changed and re-created tools have their verification reset, like any other tool edit).
+ */
+export async function rollbackConfig(
+  configId: string,
+  version: number,
+  contributor: string,
+): Promise<{
+  config: WebMcpConfig;
+  createdTools: ToolDescriptor[];
+  updatedTools: ToolDescriptor[];
+  deletedTools: ToolDescriptor[];
+} | null> {
+  const target = await getRevision(configId, version);
+  if (!target) return null;
+  const { snapshot } = target;
+
+  return getDb().transaction(async (tx) => {
+    const currentRows = await tx.select().from(tools).where(eq(tools.configId, configId));
+    const currentByName = new Map(currentRows.map((t) => [t.name, t]));
+    const snapshotNames = new Set(snapshot.tools.map((t) => t.name));
+
+    const removed = currentRows.filter((t) => !snapshotNames.has(t.name));
+    const removedNames = removed.map((t) => t.name);
+    if (removedNames.length > 0) {
+      await tx
+        .delete(tools)
+        .where(and(eq(tools.configId, configId), inArray(tools.name, removedNames)));
+    }
+
+    const now = new Date();
+    const createdTools: ToolDescriptor[] = [];
+    const updatedTools: ToolDescriptor[] = [];
+    for (const tool of snapshot.tools) {
+      const existing = currentByName.get(tool.name);
+      if (existing && isSameTool(toolRowToDescriptor(existing), tool)) continue;
+
+      const values = {
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        annotations: tool.annotations ?? null,
+        execution: tool.execution ?? null,
+        examples: tool.examples ?? null,
+        verified: false,
+        updatedAt: now,
+      };
+      if (existing) {
+        await tx
+          .update(tools)
+          .set(values)
+          .where(and(eq(tools.configId, configId), eq(tools.name, tool.name)));
+        updatedTools.push(tool);
+      } else {
+        await tx.insert(tools).values({
+          ...values,
+          configId,
+          name: tool.name,
+          contributor: tool.contributor ?? contributor,
+          createdAt: now,
+        });
+        createdTools.push(tool);
+      }
+    }
+
+    const [row] = await tx
+      .update(configs)
+      .set({
+        urlPattern: snapshot.urlPattern,
+        pageType: snapshot.pageType ?? null,
+        title: snapshot.title,
+        description: snapshot.description,
+        tags: snapshot.tags ?? null,
+        version: sql`${configs.version} + 1`,
+        updatedAt: now,
+      })
+      .where(eq(configs.id, configId))
+      .returning();
+    if (!row) return null;
+
+    const toolRows = await tx.select().from(tools).where(eq(tools.configId, configId));
+    await recordRevision(
+      row,
+      toolRows,
+      "rollback",
+      contributor,
+      { restoredFromVersion: version },
+      tx,
+    );
+
+    return {
+      config: rowToConfig(row, toolRows),
+      createdTools,
+      updatedTools,
+      deletedTools: removed.map(toolRowToDescriptor),
+    };
+  });
+}
+
 // ── Votes ────────────────────────────────────────────────────────────
 
 export type ToolVoteSummary = {
@@ -602,3 +1001,202 @@ export async function getConfigVoteSummaries(configIds: string[]): Promise<Recor
   }
   return result;
 }
+
+// ── Execution telemetry ──────────────────────────────────────────────
+
+export async function recordExecution(report: ExecutionReport): Promise<void> {
+  const db = getDb();
+  await db
+    .insert(toolExecutionStats)
+    .values({
+      configId: report.configId,
+      toolName: report.toolName,
+      configVersion: report.version,
+      outcome: report.outcome,
+      count: 1,
+      totalDurationMs: report.durationMs,
+      updatedAt: new Date(),
+    })
+    .onConflictDoUpdate({
+      target: [
+        toolExecutionStats.configId,
+        toolExecutionStats.toolName,
+        toolExecutionStats.configVersion,
+        toolExecutionStats.outcome,
+      ],
+      set: {
+        count: sql`${toolExecutionStats.count} + 1`,
+        totalDurationMs: sql`${toolExecutionStats.totalDurationMs} + ${report.durationMs}`,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+/** Run totals for one tool, while rolling up telemetry rows. */
+interface RunTotals {
+  runs: number;
+  successes: number;
+  durationMs: number;
+  failures: ToolExecutionStats["failures"];
+}
+
+/**
+ * For each tool of each config, the config versions its content changed at, ascending.
+ * Every tool edit bumps the whole config's version, so this tells the versions that ran
+ * a tool's current content apart from those that ran an older one.
+ */
+async function getToolChangeVersions(configIds: string[]): Promise<Map<string, number[]>> {
+  const db = getDb();
+  const rows = await db
+    .select({
+      configId: configRevisions.configId,
+      version: configRevisions.version,
+      snapshot: configRevisions.snapshot,
+    })
+    .from(configRevisions)
+    .where(inArray(configRevisions.configId, configIds))
+    .orderBy(configRevisions.configId, configRevisions.version);
+
+  const changes = new Map<string, number[]>();
+  let previous = new Map<string, ToolDescriptor>();
+  let previousConfigId: string | null = null;
+  for (const row of rows) {
+    if (row.configId !== previousConfigId) previous = new Map();
+    previousConfigId = row.configId;
+    for (const tool of row.snapshot.tools) {
+      const before = previous.get(tool.name);
+      if (before && isSameTool(before, tool)) continue;
+      const key = `${row.configId}/${tool.name}`;
+      changes.set(key, [...(changes.get(key) ?? []), row.version]);
+    }
+    previous = new Map(row.snapshot.tools.map((t) => [t.name, t]));
+  }
+  return changes;
+}
+
+/**
+ * Per-tool success rates for each config at the given version, counting only the runs of
+ * the tool's content at that version, so a fixed tool doesn't keep showing its old
+ * failures and editing one tool doesn't reset the others. When other versions of the
+ * tool also have runs, the rate over all of them is added as `allVersions`.
+ */
+export async function getToolStatsBatch(
+  list: { id: string; version: number }[],
+): Promise<Record<string, Record<string, ToolExecutionStats>>> {
+  if (list.length === 0) return {};
+
+  const versions = new Map(list.map((c) => [c.id, c.version]));
+  const db = getDb();
+  const changeVersions = await getToolChangeVersions([...versions.keys()]);
+  /** Whether a run at `runVersion` ran the same content of the tool as `version` has. */
+  const isCurrent = (key: string, version: number, runVersion: number) => {
+    const changes = changeVersions.get(key);
+    // No history recorded for the tool: only its exact version is known to match
+    if (!changes) return runVersion === version;
+    const since = changes.filter((v) => v <= version).at(-1) ?? version;
+    const until = changes.find((v) => v > version) ?? Infinity;
+    return runVersion >= since && runVersion < until;
+  };
+  const rows = await db
+    .select({
+      configId: toolExecutionStats.configId,
+      toolName: toolExecutionStats.toolName,
+      configVersion: toolExecutionStats.configVersion,
+      outcome: toolExecutionStats.outcome,
+      count: toolExecutionStats.count,
+      totalDurationMs: toolExecutionStats.totalDurationMs,
+    })
+    .from(toolExecutionStats)
+    .where(inArray(toolExecutionStats.configId, [...versions.keys()]));
+
+  const newTotals = (): RunTotals => ({ runs: 0, successes: 0, durationMs: 0, failures: {} });
+  const totals = new Map<string, { current: RunTotals; all: RunTotals }>();
+  for (const row of rows) {
+    const key = `${row.configId}/${row.toolName}`;
+    let entry = totals.get(key);
+    if (!entry) {
+      entry = { current: newTotals(), all: newTotals() };
+      totals.set(key, entry);
+    }
+    const count = Number(row.count);
+    const targets = isCurrent(key, versions.get(row.configId)!, row.configVersion)
+      ? [entry.current, entry.all]
+      : [entry.all];
+    for (const total of targets) {
+      total.runs += count;
+      total.durationMs += Number(row.totalDurationMs);
+      if (row.outcome === "success") total.successes += count;
+      else total.failures[row.outcome] = (total.failures[row.outcome] ?? 0) + count;
+    }
+  }
+
+  const result: Record<string, Record<string, ToolExecutionStats>> = {};
+  for (const [key, { current, all }] of totals) {
+    if (current.runs === 0) continue;
+    const slash = key.indexOf("/");
+    const byTool = (result[key.slice(0, slash)] ??= {});
+    byTool[key.slice(slash + 1)] = {
+      runs: current.runs,
+      successRate: current.successes / current.runs,
+      avgDurationMs: Math.round(current.durationMs / current.runs),
+      failures: current.failures,
+      ...(all.runs > current.runs
+        ? { allVersions: { runs: all.runs, successRate: all.successes / all.runs } }
+        : {}),
+    };
+  }
+  return result;
+}
+
+async function withToolStats(list: WebMcpConfig[]): Promise<WebMcpConfig[]> {
+  const stats = await getToolStatsBatch(list);
+  return list.map((c) => (stats[c.id] ? { ...c, toolStats: stats[c.id] } : c));
+}
+
+// ── Selector health ──────────────────────────────────────────────────
+
+/** Store the latest health check per tool, replacing the previous one. */
+export async function recordToolHealth(configId: string, results: ToolHealth[]): Promise<void> {
+  if (results.length === 0) return;
+  const db = getDb();
+  await db
+    .insert(toolHealth)
+    .values(
+      results.map((r) => ({
+        configId,
+        toolName: r.toolName,
+        status: r.status,
+        configVersion: r.configVersion,
+        url: r.url,
+        selectors: r.selectors,
+        checkedAt: new Date(r.checkedAt),
+      })),
+    )
+    .onConflictDoUpdate({
+      target: [toolHealth.configId, toolHealth.toolName],
+      set: {
+        status: sql`excluded.status`,
+        configVersion: sql`excluded.config_version`,
+        url: sql`excluded.url`,
+        selectors: sql`excluded.selectors`,
+        checkedAt: sql`excluded.checked_at`,
+      },
+    });
+}
+
+export async function getToolHealth(configId: string): Promise<Record<string, ToolHealth>> {
+  const db = getDb();
+  const rows = await db.select().from(toolHealth).where(eq(toolHealth.configId, configId));
+  const result: Record<string, ToolHealth> = {};
+  for (const row of rows) {
+    result[row.toolName] = {
+      toolName: row.toolName,
+      status: row.status,
+      configVersion: row.configVersion,
+      url: row.url,
+      checkedAt: row.checkedAt.toISOString(),
+      selectors: row.selectors,
+    };
+  }
+  return result;
+}
@@ -0,0 +1,32 @@
+import type { ConfigPin } from "./db";
+
+/**
+ * Parse `version=` / `at=` query params into a ConfigPin.
+ * `at` accepts an ISO 8601 timestamp or Unix epoch milliseconds.
+ */
+export function parsePin(params: URLSearchParams): { pin?: ConfigPin; error?: string } {
+  const version = params.get("version");
+  const at = params.get("at");
+
+  if (version && at) {
+    return { error: "Use either version or at, not both" };
+  }
+
+  if (version) {
+    const n = Number(version);
+    if (!Number.isInteger(n) || n < 1) {
+      return { error: "version must be a positive integer" };
+    }
+    return { pin: { version: n } };
+  }
+
+  if (at) {
+    const date = new Date(/^\d+$/.test(at) ? Number(at) : at);
+    if (Number.isNaN(date.getTime())) {
+      return { error: "at must be an ISO 8601 timestamp or epoch milliseconds" };
+    }
+    return { pin: { at: date } };
+  }
+
+  return {};
+}
@@ -1,6 +1,6 @@
 import { after } from "next/server";
 
-type WebhookEvent = "tool.created" | "tool.updated";
+type WebhookEvent = "tool.created" | "tool.updated" | "tool.deleted";
 
 interface WebhookPayload {
   event: WebhookEvent;
@@ -136,6 +136,81 @@ describe("deriveInputSchema — radio fields", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Multiselect, range and combobox fields
+// ---------------------------------------------------------------------------
+
+describe("deriveInputSchema — multiselect, range and combobox fields", () => {
+  it("maps multiselect to an array of unique option values", () => {
+    const schema = derive([
+      {
+        ...base,
+        type: "multiselect",
+        options: [
+          { value: "a", label: "Alpha" },
+          { value: "b", label: "Beta" },
+        ],
+      },
+    ]);
+    const prop = schema.properties.field;
+    expect(prop.type).toBe("array");
+    expect(prop.uniqueItems).toBe(true);
+    expect(prop.items).toEqual({
+      type: "string",
+      enum: ["a", "b"],
+      oneOf: [
+        { const: "a", title: "Alpha" },
+        { const: "b", title: "Beta" },
+      ],
+    });
+  });
+
+  it("maps range to a number with minimum and maximum", () => {
+    const schema = derive([{ ...base, type: "range", min: 0, max: 10, step: 2 }]);
+    expect(schema.properties.field).toMatchObject({ type: "number", minimum: 0, maximum: 10 });
+  });
+
+  it("maps combobox options to examples, not an enum", () => {
+    const schema = derive([
+      {
+        ...base,
+        type: "combobox",
+        optionSelector: "[role=option]",
+        options: [{ value: "NYC", label: "New York" }],
+      },
+    ]);
+    expect(schema.properties.field.type).toBe("string");
+    expect(schema.properties.field.examples).toEqual(["NYC"]);
+    expect(schema.properties.field.enum).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// File fields
+// ---------------------------------------------------------------------------
+
+describe("deriveInputSchema — file fields", () => {
+  it("maps a file field to a { name, content, mimeType } object", () => {
+    const schema = derive([{ ...base, type: "file" }]);
+    const prop = schema.properties.field;
+    expect(prop.type).toBe("object");
+    expect(Object.keys(prop.properties as object)).toEqual(["name", "content", "mimeType"]);
+    expect(prop.required).toEqual(["name", "content"]);
+  });
+
+  it("maps a multiple file field to an array of file objects", () => {
+    const schema = derive([{ ...base, type: "file", multiple: true }]);
+    const prop = schema.properties.field;
+    expect(prop.type).toBe("array");
+    expect((prop.items as Record<string, unknown>).type).toBe("object");
+  });
+
+  it("mentions accepted types in the description", () => {
+    const schema = derive([{ ...base, type: "file", accept: ".pdf" }]);
+    expect(schema.properties.field.description).toBe("A field (accepts .pdf)");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Required / default handling
 // ---------------------------------------------------------------------------
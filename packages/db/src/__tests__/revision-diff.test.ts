@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import { diffConfigSnapshots } from "../revision-diff.js";
+import type { ConfigSnapshot, ToolDescriptor } from "../types.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function tool(overrides?: Partial<ToolDescriptor>): ToolDescriptor {
+  return {
+    name: "search",
+    description: "Search the site",
+    inputSchema: { type: "object", properties: { query: { type: "string" } } },
+    execution: {
+      selector: "#search-form",
+      autosubmit: true,
+      fields: [{ type: "text", selector: "#q", name: "query", description: "Query" }],
+    },
+    ...overrides,
+  };
+}
+
+function snapshot(overrides?: Partial<ConfigSnapshot>): ConfigSnapshot {
+  return {
+    urlPattern: "example.com/search",
+    title: "Example",
+    description: "Example site",
+    tools: [tool()],
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// diffConfigSnapshots
+// ---------------------------------------------------------------------------
+
+describe("diffConfigSnapshots", () => {
+  it("returns no changes for identical snapshots", () => {
+    expect(diffConfigSnapshots(snapshot(), snapshot())).toEqual([]);
+  });
+
+  it("reports changed config metadata", () => {
+    const changes = diffConfigSnapshots(snapshot(), snapshot({ title: "Renamed" }));
+    expect(changes).toEqual([
+      { path: "title", kind: "changed", before: "Example", after: "Renamed" },
+    ]);
+  });
+
+  it("reports added and removed optional fields", () => {
+    const changes = diffConfigSnapshots(snapshot(), snapshot({ pageType: "search" }));
+    expect(changes).toEqual([{ path: "pageType", kind: "added", after: "search" }]);
+
+    const reverse = diffConfigSnapshots(snapshot({ pageType: "search" }), snapshot());
+    expect(reverse).toEqual([{ path: "pageType", kind: "removed", before: "search" }]);
+  });
+
+  it("treats an undefined field the same as a missing one", () => {
+    expect(diffConfigSnapshots(snapshot({ tags: undefined }), snapshot())).toEqual([]);
+  });
+
+  it("reports a changed execution selector at its nested path", () => {
+    const before = snapshot();
+    const after = snapshot({
+      tools: [tool({ execution: { ...tool().execution!, selector: "form.search" } })],
+    });
+    expect(diffConfigSnapshots(before, after)).toEqual([
+      {
+        path: "tools[search].execution.selector",
+        kind: "changed",
+        before: "#search-form",
+        after: "form.search",
+      },
+    ]);
+  });
+
+  it("indexes into nested arrays", () => {
+    const exec = tool().execution!;
+    const after = snapshot({
+      tools: [
+        tool({ execution: { ...exec, fields: [{ ...exec.fields![0], selector: "#query" }] } }),
+      ],
+    });
+    expect(diffConfigSnapshots(snapshot(), after)).toEqual([
+      {
+        path: "tools[search].execution.fields[0].selector",
+        kind: "changed",
+        before: "#q",
+        after: "#query",
+      },
+    ]);
+  });
+
+  it("matches tools by name, ignoring order", () => {
+    const a = tool({ name: "a" });
+    const b = tool({ name: "b" });
+    expect(diffConfigSnapshots(snapshot({ tools: [a, b] }), snapshot({ tools: [b, a] }))).toEqual(
+      [],
+    );
+  });
+
+  it("reports whole added and removed tools", () => {
+    const extra = tool({ name: "list" });
+    const added = diffConfigSnapshots(snapshot(), snapshot({ tools: [tool(), extra] }));
+    expect(added).toEqual([{ path: "tools[list]", kind: "added", after: extra }]);
+
+    const removed = diffConfigSnapshots(snapshot({ tools: [tool(), extra] }), snapshot());
+    expect(removed).toEqual([{ path: "tools[list]", kind: "removed", before: extra }]);
+  });
+
+  it("ignores object key order", () => {
+    const before = snapshot({
+      tools: [tool({ inputSchema: { type: "object", properties: {} } })],
+    });
+    const after = snapshot({
+      tools: [tool({ inputSchema: { properties: {}, type: "object" } })],
+    });
+    expect(diffConfigSnapshots(before, after)).toEqual([]);
+  });
+});
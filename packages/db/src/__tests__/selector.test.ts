@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { checkSelector, describeSelector, parseSelector, splitFrames } from "../selector.js";
+
+// ---------------------------------------------------------------------------
+// parseSelector
+// ---------------------------------------------------------------------------
+
+describe("parseSelector", () => {
+  it("keeps plain CSS as one step", () => {
+    expect(parseSelector("#inbox > li.unread a[href^='/m']")).toEqual([
+      [{ kind: "css", css: "#inbox > li.unread a[href^='/m']", text: [] }],
+    ]);
+  });
+
+  it("parses text filters, exact and substring", () => {
+    expect(parseSelector("li:has-text(\"Inbox\"):text-is('Inbox (3)')")).toEqual([
+      [
+        {
+          kind: "css",
+          css: "li",
+          text: [
+            { text: "Inbox", exact: false },
+            { text: "Inbox (3)", exact: true },
+          ],
+        },
+      ],
+    ]);
+  });
+
+  it("filters any element when a text filter has no CSS before it", () => {
+    expect(parseSelector(':has-text("Go")')[0][0]).toMatchObject({ css: "*" });
+    expect(parseSelector('#menu :text-is("Go")')[0][0]).toMatchObject({ css: "#menu *" });
+    expect(parseSelector('#menu > :text-is("Go")')[0][0]).toMatchObject({ css: "#menu > *" });
+  });
+
+  it("keeps compound CSS after a text filter, and steps inside the matches", () => {
+    expect(parseSelector('li:has-text("Inbox").unread > .count span')).toEqual([
+      [
+        { kind: "css", css: "li", text: [{ text: "Inbox", exact: false }], also: ".unread" },
+        { kind: "css", css: ":scope > .count span", text: [] },
+      ],
+    ]);
+  });
+
+  it("parses :nth-match() with a 1-based position", () => {
+    expect(parseSelector(':nth-match(li:has-text("a, b"), 2) .title')).toEqual([
+      [
+        {
+          kind: "nth",
+          of: [{ kind: "css", css: "li", text: [{ text: "a, b", exact: false }] }],
+          index: 2,
+        },
+        { kind: "css", css: ".title", text: [] },
+      ],
+    ]);
+  });
+
+  it("parses role selectors with exact and case-insensitive names", () => {
+    expect(parseSelector('role=button[name="Send \\"now\\""]')).toEqual([
+      [{ kind: "role", role: "button", name: { text: 'Send "now"', exact: true } }],
+    ]);
+    expect(parseSelector("role=link[name='docs' i]")[0][0]).toEqual({
+      kind: "role",
+      role: "link",
+      name: { text: "docs", exact: false },
+    });
+    expect(parseSelector("#nav role=link")).toEqual([
+      [
+        { kind: "css", css: "#nav", text: [] },
+        { kind: "role", role: "link" },
+      ],
+    ]);
+  });
+
+  it("parses XPath as a whole hop", () => {
+    expect(parseSelector('xpath=//button[@type="submit"]')).toEqual([
+      [{ kind: "xpath", expression: '//button[@type="submit"]' }],
+    ]);
+    expect(parseSelector("iframe#pay >>> //input[1]")).toEqual([
+      [{ kind: "css", css: "iframe#pay", text: [] }],
+      [{ kind: "xpath", expression: "//input[1]" }],
+    ]);
+  });
+
+  it.each([
+    ['li:has-text("Inbox"', "Missing"],
+    ["li:has-text(Inbox)", "quoted string"],
+    ['li:has-text("x") + li', "use a space"],
+    ['li, a:has-text("x")', "Selector lists"],
+    [":nth-match(li)", "position from 1"],
+    [":nth-match(li, 0)", "position from 1"],
+    ["li:nth-match(a, 2)", "must start a selector"],
+    ["role=buton", 'Unknown ARIA role "buton"'],
+    ["role=button[label='x']", 'only takes [name="..."]'],
+    ["role=button.primary", "use a space"],
+    ["#form xpath=//input", "whole selector"],
+    ["xpath=", "needs an expression"],
+    ['#form > role=button[name="x"]', 'Only CSS can follow ">"'],
+    ["iframe >>> ", "non-empty"],
+  ])("rejects %s", (selector, message) => {
+    expect(checkSelector(selector)).toContain(message);
+  });
+
+  it("leaves CSS it doesn't extend to the browser", () => {
+    expect(checkSelector("input[name='q']:not(.hidden), textarea")).toBeNull();
+    expect(checkSelector('[data-x=">>>"]')).toBeNull();
+  });
+});
+
+describe("splitFrames", () => {
+  it("ignores >>> inside quotes and brackets", () => {
+    expect(splitFrames('iframe[title=">>>"] >>> li:has-text(">>>")')).toEqual([
+      'iframe[title=">>>"]',
+      'li:has-text(">>>")',
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// describeSelector
+// ---------------------------------------------------------------------------
+
+describe("describeSelector", () => {
+  it("returns plain CSS and unparseable selectors unchanged", () => {
+    expect(describeSelector("#search input[name=q]")).toBe("#search input[name=q]");
+    expect(describeSelector("role=nope")).toBe("role=nope");
+  });
+
+  it("reads extended selectors in words", () => {
+    expect(describeSelector('iframe#chat >>> role=button[name="Send"]')).toBe(
+      'button named "Send" inside iframe#chat',
+    );
+    expect(describeSelector(':nth-match(li:has-text("Inbox"), 2) > .count')).toBe(
+      '2nd li containing "Inbox" › > .count',
+    );
+    expect(describeSelector("role=link[name='docs' i]")).toBe('link with a name like "docs"');
+    expect(describeSelector("//a[@rel='next']")).toBe("XPath //a[@rel='next']");
+  });
+});
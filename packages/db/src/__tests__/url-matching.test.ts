@@ -4,6 +4,10 @@ import {
   extractPath,
   normalizeUrlToPath,
   rankConfigsByUrl,
+  validateUrlPattern,
+  domainMatches,
+  wildcardDomainsFor,
+  urlPatternParams,
 } from "../url-matching.js";
 
 // ---------------------------------------------------------------------------
@@ -27,6 +31,11 @@ describe("extractPath", () => {
     expect(extractPath("example.com/search/", "example.com")).toBe("/search");
   });
 
+  it("ignores query and hash parts", () => {
+    expect(extractPath("example.com/search?q=:query", "example.com")).toBe("/search");
+    expect(extractPath("example.com/#/inbox", "example.com")).toBe("/");
+  });
+
   it("preserves root path", () => {
     expect(extractPath("example.com/", "example.com")).toBe("/");
   });
@@ -56,6 +65,10 @@ describe("normalizeUrlToPath", () => {
   it("handles URL with hash", () => {
     expect(normalizeUrlToPath("https://example.com/page#section")).toBe("/page");
   });
+
+  it("strips query from URL without protocol", () => {
+    expect(normalizeUrlToPath("example.com/search?q=shoes")).toBe("/search");
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -193,6 +206,242 @@ describe("matchUrlPattern", () => {
     });
   });
 
+  describe("constrained params", () => {
+    it("matches a regex constraint and captures the value (score 2.5)", () => {
+      const result = matchUrlPattern("example.com/users/:id(\\d+)", "example.com/users/42", domain);
+      expect(result.matched).toBe(true);
+      expect(result.score).toBe(5.5);
+      expect(result.params).toEqual({ id: "42" });
+    });
+
+    it("does not match a value outside the constraint", () => {
+      const result = matchUrlPattern(
+        "example.com/users/:id(\\d+)",
+        "example.com/users/settings",
+        domain,
+      );
+      expect(result.matched).toBe(false);
+    });
+
+    it("anchors the constraint to the whole segment", () => {
+      const result = matchUrlPattern(
+        "example.com/users/:id(\\d+)",
+        "example.com/users/42abc",
+        domain,
+      );
+      expect(result.matched).toBe(false);
+    });
+
+    it("supports the named uuid constraint", () => {
+      const pattern = "example.com/orders/:orderId(uuid)";
+      const hit = matchUrlPattern(
+        pattern,
+        "example.com/orders/3F2504E0-4F89-11D3-9A0C-0305E82C3301",
+        domain,
+      );
+      expect(hit.matched).toBe(true);
+      expect(hit.params).toEqual({ orderId: "3F2504E0-4F89-11D3-9A0C-0305E82C3301" });
+      expect(matchUrlPattern(pattern, "example.com/orders/new", domain).matched).toBe(false);
+    });
+
+    it("supports the named int constraint", () => {
+      const result = matchUrlPattern("example.com/page/:n(int)", "example.com/page/7", domain);
+      expect(result.matched).toBe(true);
+      expect(result.params).toEqual({ n: "7" });
+    });
+
+    it("never matches a stored constraint that is no longer allowed", () => {
+      const url = `example.com/u/${"a".repeat(40)}`;
+      expect(matchUrlPattern("example.com/u/:id((a|a)*b)", url, domain).matched).toBe(false);
+      expect(matchUrlPattern("example.com/u/:id(a)|(b)", "example.com/u/b", domain).matched).toBe(
+        false,
+      );
+    });
+
+    it("keeps ? inside a constraint out of the query string", () => {
+      const result = matchUrlPattern(
+        "example.com/v/:ver(\\d{2}-?\\d)?tab=:tab",
+        "example.com/v/12-3?tab=files",
+        domain,
+      );
+      expect(result.matched).toBe(true);
+      expect(result.params).toEqual({ ver: "12-3", tab: "files" });
+    });
+
+    it("constrains query values", () => {
+      const pattern = "example.com/search?page=:page(\\d+)";
+      const hit = matchUrlPattern(pattern, "example.com/search?page=3", domain);
+      expect(hit.matched).toBe(true);
+      expect(hit.score).toBe(5.5);
+      expect(matchUrlPattern(pattern, "example.com/search?page=last", domain).matched).toBe(false);
+    });
+  });
+
+  describe("single-segment globs", () => {
+    it("matches a bare * like an uncaptured :param (score 2)", () => {
+      const result = matchUrlPattern(
+        "example.com/repos/*/issues",
+        "example.com/repos/web/issues",
+        domain,
+      );
+      expect(result.matched).toBe(true);
+      expect(result.score).toBe(8);
+      expect(result.params).toEqual({});
+    });
+
+    it("does not let * span multiple segments", () => {
+      const result = matchUrlPattern("example.com/repos/*", "example.com/repos/a/b", domain);
+      expect(result.matched).toBe(false);
+    });
+
+    it("matches partial globs within a segment (score 2.5)", () => {
+      const result = matchUrlPattern(
+        "example.com/files/*.pdf",
+        "example.com/files/Report.PDF",
+        domain,
+      );
+      expect(result.matched).toBe(true);
+      expect(result.score).toBe(5.5);
+    });
+
+    it("treats other characters in a glob literally", () => {
+      const result = matchUrlPattern(
+        "example.com/files/*.pdf",
+        "example.com/files/reportxpdf",
+        domain,
+      );
+      expect(result.matched).toBe(false);
+    });
+  });
+
+  describe("query matching", () => {
+    it("captures a required query key with score 2", () => {
+      const result = matchUrlPattern(
+        "example.com/search?q=:query",
+        "https://example.com/search?q=running+shoes",
+        domain,
+      );
+      expect(result.matched).toBe(true);
+      expect(result.score).toBe(5); // 3 (search) + 2 (q=:query)
+      expect(result.params).toEqual({ query: "running shoes" });
+    });
+
+    it("does not match when a required key is missing", () => {
+      const result = matchUrlPattern(
+        "example.com/search?q=:query",
+        "https://example.com/search",
+        domain,
+      );
+      expect(result.matched).toBe(false);
+    });
+
+    it("matches static query values case-insensitively with score 3", () => {
+      const result = matchUrlPattern(
+        "example.com/search?type=images",
+        "https://example.com/search?type=Images",
+        domain,
+      );
+      expect(result.matched).toBe(true);
+      expect(result.score).toBe(6);
+    });
+
+    it("does not match a different static query value", () => {
+      const result = matchUrlPattern(
+        "example.com/search?type=images",
+        "https://example.com/search?type=videos",
+        domain,
+      );
+      expect(result.matched).toBe(false);
+    });
+
+    it("requires only presence for bare keys (score 1)", () => {
+      const result = matchUrlPattern(
+        "example.com/search?debug",
+        "https://example.com/search?debug=",
+        domain,
+      );
+      expect(result.matched).toBe(true);
+      expect(result.score).toBe(4);
+    });
+
+    it("ignores extra query keys and key order", () => {
+      const result = matchUrlPattern(
+        "example.com/search?q=:query&page=:page",
+        "https://example.com/search?page=2&lang=en&q=hats",
+        domain,
+      );
+      expect(result.matched).toBe(true);
+      expect(result.params).toEqual({ query: "hats", page: "2" });
+    });
+
+    it("matches query terms on a domain-only path", () => {
+      const result = matchUrlPattern(
+        "example.com?lang=:lang",
+        "example.com/any/page?lang=de",
+        domain,
+      );
+      expect(result.matched).toBe(true);
+      expect(result.score).toBe(2);
+      expect(result.params).toEqual({ lang: "de" });
+    });
+
+    it("ignores the URL query when the pattern has none", () => {
+      const result = matchUrlPattern("example.com/search", "example.com/search?q=x", domain);
+      expect(result.matched).toBe(true);
+      expect(result.score).toBe(3);
+    });
+  });
+
+  describe("hash routes", () => {
+    it("matches hash segments like path segments", () => {
+      const result = matchUrlPattern("example.com/#/inbox", "https://example.com/#/inbox", domain);
+      expect(result.matched).toBe(true);
+      expect(result.score).toBe(3);
+    });
+
+    it("captures dynamic hash segments", () => {
+      const result = matchUrlPattern(
+        "example.com/app#/thread/:threadId",
+        "https://example.com/app#/thread/t-42",
+        domain,
+      );
+      expect(result.matched).toBe(true);
+      expect(result.score).toBe(8); // 3 (app) + 3 (thread) + 2 (:threadId)
+      expect(result.params).toEqual({ threadId: "t-42" });
+    });
+
+    it("does not match a different hash route", () => {
+      const result = matchUrlPattern("example.com/#/inbox", "https://example.com/#/sent", domain);
+      expect(result.matched).toBe(false);
+    });
+
+    it("does not match when the URL has no hash", () => {
+      const result = matchUrlPattern("example.com/#/inbox", "https://example.com/", domain);
+      expect(result.matched).toBe(false);
+    });
+
+    it("supports ** in hash routes", () => {
+      const result = matchUrlPattern(
+        "example.com/#/settings/**",
+        "example.com/#/settings/profile/avatar",
+        domain,
+      );
+      expect(result.matched).toBe(true);
+      expect(result.score).toBe(3);
+    });
+
+    it("combines query and hash", () => {
+      const result = matchUrlPattern(
+        "example.com/mail?account=:account#/inbox",
+        "https://example.com/mail?account=work#/inbox",
+        domain,
+      );
+      expect(result.matched).toBe(true);
+      expect(result.score).toBe(8); // 3 (mail) + 2 (account) + 3 (inbox)
+      expect(result.params).toEqual({ account: "work" });
+    });
+  });
+
   describe("mixed patterns", () => {
     it("combines static and dynamic segments", () => {
       const result = matchUrlPattern(
@@ -261,6 +510,69 @@ describe("rankConfigsByUrl", () => {
     expect(ranked[1].name).toBe("dynamic");
   });
 
+  it("attaches each config's captured params as urlParams", () => {
+    const configs = [
+      { urlPattern: "example.com/dashboard/:id", name: "dashboard" },
+      { urlPattern: "example.com", name: "global" },
+    ];
+
+    const ranked = rankConfigsByUrl(configs, "example.com/dashboard/abc-123", domain);
+
+    expect(ranked[0]).toEqual({
+      urlPattern: "example.com/dashboard/:id",
+      name: "dashboard",
+      urlParams: { id: "abc-123" },
+    });
+    expect(ranked[1].urlParams).toEqual({});
+  });
+
+  it("ranks a query-specific config above the plain path", () => {
+    const configs = [
+      { urlPattern: "example.com/search", name: "search" },
+      { urlPattern: "example.com/search?q=:query", name: "search-results" },
+    ];
+
+    const ranked = rankConfigsByUrl(configs, "https://example.com/search?q=shoes", domain);
+
+    expect(ranked.map((c) => c.name)).toEqual(["search-results", "search"]); // 5 vs 3
+  });
+
+  it("ranks exact-domain configs above more specific wildcard configs", () => {
+    const configs = [
+      { urlPattern: "*.atlassian.net/browse/:key", name: "wildcard-issue" },
+      { urlPattern: "acme.atlassian.net", name: "tenant-global" },
+      { urlPattern: "*.atlassian.net", name: "wildcard-global" },
+    ];
+
+    const ranked = rankConfigsByUrl(
+      configs,
+      "acme.atlassian.net/browse/ABC-1",
+      "acme.atlassian.net",
+    );
+
+    expect(ranked.map((c) => c.name)).toEqual([
+      "tenant-global",
+      "wildcard-issue",
+      "wildcard-global",
+    ]);
+  });
+
+  it("ranks constrained params between static and dynamic segments", () => {
+    const configs = [
+      { urlPattern: "example.com/users/:id", name: "dynamic" },
+      { urlPattern: "example.com/users/:id(\\d+)", name: "constrained" },
+      { urlPattern: "example.com/users/settings", name: "static" },
+    ];
+
+    expect(rankConfigsByUrl(configs, "example.com/users/42", domain).map((c) => c.name)).toEqual([
+      "constrained",
+      "dynamic",
+    ]);
+    expect(
+      rankConfigsByUrl(configs, "example.com/users/settings", domain).map((c) => c.name),
+    ).toEqual(["static", "dynamic"]);
+  });
+
   it("domain-only pattern always comes last", () => {
     const configs = [
       { urlPattern: "example.com", name: "fallback" },
@@ -273,3 +585,141 @@ describe("rankConfigsByUrl", () => {
     expect(ranked[ranked.length - 1].name).toBe("fallback");
   });
 });
+
+// ---------------------------------------------------------------------------
+// validateUrlPattern
+// ---------------------------------------------------------------------------
+
+describe("validateUrlPattern", () => {
+  it("accepts path, query and hash patterns", () => {
+    expect(validateUrlPattern("example.com/search?q=:query&type=images&debug")).toBeNull();
+    expect(validateUrlPattern("example.com/#/inbox/:id")).toBeNull();
+  });
+
+  it("rejects a query term without a key", () => {
+    expect(validateUrlPattern("example.com/search?=foo")).toMatch(/missing a key/);
+  });
+
+  it("rejects an empty capture name", () => {
+    expect(validateUrlPattern("example.com/search?q=:")).toMatch(/capture name/);
+  });
+
+  it("rejects duplicate query keys", () => {
+    expect(validateUrlPattern("example.com/search?q=:a&q=:b")).toMatch(/more than once/);
+  });
+
+  it("accepts constrained params and globs", () => {
+    expect(validateUrlPattern("example.com/users/:id(\\d+)/files/*.pdf")).toBeNull();
+    expect(validateUrlPattern("example.com/orders/:id(uuid)?page=:page(int)")).toBeNull();
+  });
+
+  it("accepts character classes with length bounds", () => {
+    expect(validateUrlPattern("example.com/p/:slug([a-z0-9-]{3,40})")).toBeNull();
+    expect(validateUrlPattern("example.com/v/:ver(v\\d+\\.\\d\\.\\d)")).toBeNull();
+    expect(validateUrlPattern("example.com/d/:day(\\d{4}-\\d{2}-\\d{2})")).toBeNull();
+  });
+
+  it("rejects unclosed character classes", () => {
+    expect(validateUrlPattern("example.com/users/:id([0-9)")).toMatch(/unclosed/);
+  });
+
+  it("rejects malformed constraints", () => {
+    expect(validateUrlPattern("example.com/users/:id(\\d+")).toMatch(/Malformed/);
+    expect(validateUrlPattern("example.com/users/:(\\d+)")).toMatch(/Malformed|Invalid/);
+  });
+
+  it("rejects groups and alternation", () => {
+    expect(validateUrlPattern("example.com/users/:id((a+)+)")).toMatch(/groups/);
+    expect(validateUrlPattern("example.com/u/:id((a|a)*b)")).toMatch(/groups/);
+    expect(validateUrlPattern("example.com/u/:id(edit|view)")).toMatch(/"\|"/);
+  });
+
+  it("rejects unbalanced parentheses that would escape the anchors", () => {
+    expect(validateUrlPattern("example.com/u/:id(a)|(b)")).toMatch(/unbalanced/);
+    expect(validateUrlPattern("example.com/u/:id(a))")).toMatch(/unbalanced/);
+  });
+
+  it("rejects more than one variable-length part", () => {
+    expect(validateUrlPattern("example.com/u/:id(\\d+-?\\d*)")).toMatch(/only one part/);
+    expect(validateUrlPattern("example.com/u/:id(a*a*a*b)")).toMatch(/only one part/);
+  });
+
+  it("rejects backreferences, anchors and oversized repeats", () => {
+    expect(validateUrlPattern("example.com/u/:id(a\\1)")).toMatch(/unsupported escape/);
+    expect(validateUrlPattern("example.com/u/:id(^a)")).toMatch(/not supported/);
+    expect(validateUrlPattern("example.com/u/:id(a{1,5000})")).toMatch(/may not exceed/);
+    expect(validateUrlPattern("example.com/u/:id(a+?)")).toMatch(/lazy/);
+  });
+
+  it("rejects constraints in query values the same way", () => {
+    expect(validateUrlPattern("example.com/search?page=:page([)")).toMatch(/unclosed/);
+  });
+
+  it("rejects more than one hash", () => {
+    expect(validateUrlPattern("example.com/#/a#b")).toMatch(/only one/);
+  });
+});
+
+describe("urlPatternParams", () => {
+  it("lists path, query-value and hash captures", () => {
+    expect(urlPatternParams("example.com/users/:id(int)/files?tab=:tab&debug#/view/:view")).toEqual(
+      ["id", "tab", "view"],
+    );
+  });
+
+  it("returns nothing for a static pattern", () => {
+    expect(urlPatternParams("example.com/search?q")).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Subdomain wildcards
+// ---------------------------------------------------------------------------
+
+describe("subdomain wildcards", () => {
+  it("matches tenant subdomains against a wildcard pattern", () => {
+    const result = matchUrlPattern(
+      "*.atlassian.net/browse/:key",
+      "https://acme.atlassian.net/browse/ABC-1",
+      "acme.atlassian.net",
+    );
+    expect(result.matched).toBe(true);
+    expect(result.score).toBe(5);
+    expect(result.params).toEqual({ key: "ABC-1" });
+  });
+
+  it("matches a domain-only wildcard pattern on any path", () => {
+    const result = matchUrlPattern("*.slack.com", "acme.slack.com/client/T1", "acme.slack.com");
+    expect(result.matched).toBe(true);
+    expect(result.score).toBe(0);
+  });
+
+  it("does not match the bare parent domain", () => {
+    const result = matchUrlPattern("*.slack.com", "slack.com/intl", "slack.com");
+    expect(result.matched).toBe(false);
+  });
+
+  it("does not match an unrelated domain", () => {
+    const result = matchUrlPattern("*.slack.com", "evil-slack.com/x", "evil-slack.com");
+    expect(result.matched).toBe(false);
+  });
+
+  it("covers nested subdomains", () => {
+    expect(domainMatches("*.slack.com", "eu.acme.slack.com")).toBe(true);
+    expect(domainMatches("*.slack.com", "slack.com")).toBe(false);
+    expect(domainMatches("slack.com", "slack.com")).toBe(true);
+  });
+
+  it("lists candidate wildcard domains most specific first", () => {
+    expect(wildcardDomainsFor("eu.acme.slack.com")).toEqual(["*.acme.slack.com", "*.slack.com"]);
+    expect(wildcardDomainsFor("acme.myshopify.com")).toEqual(["*.myshopify.com"]);
+    expect(wildcardDomainsFor("slack.com")).toEqual([]);
+    expect(wildcardDomainsFor("*.slack.com")).toEqual([]);
+  });
+
+  it("rejects misplaced wildcards in urlPattern", () => {
+    expect(validateUrlPattern("*.slack.com/client/:id")).toBeNull();
+    expect(validateUrlPattern("app.*.com/x")).toMatch(/leading/);
+    expect(validateUrlPattern("*.com")).toMatch(/registrable/);
+  });
+});
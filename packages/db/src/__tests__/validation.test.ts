@@ -5,6 +5,9 @@ import {
   updateConfigSchema,
   toolFieldSchema,
   executionDescriptorSchema,
+  executionReportSchema,
+  healthReportSchema,
+  validateUrlTemplates,
 } from "../validation.js";
 
 // ---------------------------------------------------------------------------
@@ -242,6 +245,72 @@ describe("toolDescriptorSchema", () => {
     }
   });
 
+  it("checks template variables in every alternative of a selector chain", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#form",
+          autosubmit: false,
+          steps: [{ action: "click", selector: ["#go", 'button:has-text("{{misspelled}}")'] }],
+        },
+      }),
+    );
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toContain("{{misspelled}}");
+      expect(result.error.issues[0].path).toEqual(["execution", "steps", 0, "selector", 1]);
+    }
+  });
+
+  it("accepts URL, network and text waits and checks their templates", () => {
+    const steps = [
+      { action: "click", selector: "#search" },
+      { action: "waitForUrl", url: "/results?q={{query}}*", timeout: 15000 },
+      { action: "waitForNetworkIdle", idleTime: 300 },
+      { action: "waitForText", text: "results for {{query}}", selector: "#status" },
+    ];
+    const execution = { selector: "#form", autosubmit: false, steps };
+    expect(toolDescriptorSchema.safeParse(validTool({ execution })).success).toBe(true);
+
+    const typo = { action: "waitForText", text: "results for {{qeury}}" };
+    const result = toolDescriptorSchema.safeParse(
+      validTool({ execution: { ...execution, steps: [...steps, typo] } }),
+    );
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(["execution", "steps", 4, "text"]);
+    }
+
+    const malformed = { action: "waitForUrl", url: "/orders/:id(\\d+" };
+    const badUrl = toolDescriptorSchema.safeParse(
+      validTool({ execution: { ...execution, steps: [malformed] } }),
+    );
+    expect(badUrl.success).toBe(false);
+  });
+
+  it("accepts resultAfterNavigation only for tools that submit without steps", () => {
+    const execution = {
+      selector: "#searchForm",
+      autosubmit: true,
+      fields: [{ type: "text", selector: "#q", name: "query", description: "Search" }],
+      resultSelector: ".results li",
+      resultExtract: "list",
+      resultAfterNavigation: true,
+    };
+    expect(toolDescriptorSchema.safeParse(validTool({ execution })).success).toBe(true);
+
+    for (const invalid of [
+      { ...execution, autosubmit: false },
+      { ...execution, steps: [{ action: "click", selector: "#go" }] },
+    ]) {
+      const result = toolDescriptorSchema.safeParse(validTool({ execution: invalid }));
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toContain("resultAfterNavigation requires");
+      }
+    }
+  });
+
   it("rejects invalid template variable in navigate url", () => {
     const result = toolDescriptorSchema.safeParse(
       validTool({
@@ -257,6 +326,376 @@ describe("toolDescriptorSchema", () => {
       expect(result.error.issues[0].message).toContain("{{badParam}}");
     }
   });
+
+  it("rejects a non-array outputSchema for list results", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#results",
+          autosubmit: false,
+          resultSelector: "#results li",
+          resultExtract: "list",
+          outputSchema: { type: "string" },
+        },
+      }),
+    );
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(["execution", "outputSchema", "type"]);
+    }
+  });
+
+  it("accepts click pagination on list results", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#results",
+          autosubmit: false,
+          resultSelector: "#results li",
+          resultExtract: "list",
+          pagination: { mode: "click", nextSelector: "a.next", maxPages: 3, maxItems: 50 },
+        },
+      }),
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects click pagination without a nextSelector", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#results",
+          autosubmit: false,
+          resultSelector: "#results li",
+          resultExtract: "list",
+          pagination: { mode: "click" },
+        },
+      }),
+    );
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects pagination on text results", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#results",
+          autosubmit: false,
+          resultSelector: "#summary",
+          resultExtract: "text",
+          pagination: { mode: "scroll" },
+        },
+      }),
+    );
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(["execution", "pagination"]);
+    }
+  });
+
+  it("accepts step-level and tool-level error policies", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#app",
+          autosubmit: false,
+          onError: "retry",
+          retries: 3,
+          steps: [
+            { action: "click", selector: ".open", onError: "retry", retryDelay: 250 },
+            { action: "wait", selector: ".dialog", onError: "fail" },
+            { action: "click", selector: ".dismiss-banner", onError: "continue" },
+          ],
+        },
+      }),
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects an unknown onError policy", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#app",
+          autosubmit: false,
+          steps: [{ action: "click", selector: ".open", onError: "ignore" }],
+        },
+      }),
+    );
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects more than 10 retries", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#app",
+          autosubmit: false,
+          steps: [{ action: "click", selector: ".open", onError: "retry", retries: 50 }],
+        },
+      }),
+    );
+    expect(result.success).toBe(false);
+  });
+
+  it("accepts {{$vars.name}} referencing an earlier named extract", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#app",
+          autosubmit: false,
+          steps: [
+            { action: "extract", selector: ".sku", extract: "text", as: "sku" },
+            { action: "navigate", url: "https://example.com/reviews/{{$vars.sku}}" },
+            { action: "extract", selector: ".rating", extract: "text", as: "rating" },
+          ],
+        },
+      }),
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects {{$vars.name}} with no earlier extract of that name", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#app",
+          autosubmit: false,
+          steps: [
+            { action: "fill", selector: "#input", value: "{{$vars.sku}}" },
+            { action: "extract", selector: ".sku", extract: "text", as: "sku" },
+          ],
+        },
+      }),
+    );
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toContain("{{$vars.sku}}");
+      expect(result.error.issues[0].path).toEqual(["execution", "steps", 0, "value"]);
+    }
+  });
+
+  it("checks {{$vars.name}} inside condition branches", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#app",
+          autosubmit: false,
+          steps: [
+            {
+              action: "condition",
+              selector: ".modal",
+              state: "visible",
+              then: [{ action: "click", selector: '.row:has-text("{{$vars.missing}}")' }],
+            },
+          ],
+        },
+      }),
+    );
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(["execution", "steps", 0, "then", 0, "selector"]);
+    }
+  });
+
+  it("rejects extract names that aren't identifiers", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#app",
+          autosubmit: false,
+          steps: [{ action: "extract", selector: ".sku", extract: "text", as: "sku code" }],
+        },
+      }),
+    );
+    expect(result.success).toBe(false);
+  });
+
+  it("accepts a forEach step using {{$item}} and collecting per-item extracts", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#results",
+          autosubmit: false,
+          steps: [
+            {
+              action: "forEach",
+              selector: ".product-card",
+              max: 20,
+              as: "products",
+              steps: [
+                { action: "extract", selector: "{{$item}} .title", extract: "text", as: "title" },
+                { action: "extract", selector: "{{$item}} .price", extract: "text", as: "price" },
+              ],
+            },
+            { action: "fill", selector: "#notes", value: "{{$vars.products}}" },
+          ],
+        },
+      }),
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects {{$item}} outside a forEach step", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#results",
+          autosubmit: false,
+          steps: [{ action: "click", selector: "{{$item}} .archive" }],
+        },
+      }),
+    );
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toContain("forEach");
+    }
+  });
+
+  it("keeps extracts inside a forEach scoped to the loop", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#results",
+          autosubmit: false,
+          steps: [
+            {
+              action: "forEach",
+              selector: ".card",
+              steps: [{ action: "extract", selector: "{{$item}}", extract: "text", as: "title" }],
+            },
+            { action: "fill", selector: "#notes", value: "{{$vars.title}}" },
+          ],
+        },
+      }),
+    );
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects a forEach step without nested steps", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#results",
+          autosubmit: false,
+          steps: [{ action: "forEach", selector: ".card", steps: [] }],
+        },
+      }),
+    );
+    expect(result.success).toBe(false);
+  });
+
+  it("accepts {{url.name}} templates for urlPattern captures", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#nav",
+          autosubmit: false,
+          steps: [{ action: "navigate", url: "https://example.com/projects/{{url.projectId}}" }],
+        },
+      }),
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects other dotted template variables", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: {
+          selector: "#form",
+          autosubmit: false,
+          steps: [{ action: "fill", selector: "#input", value: "{{query.text}}" }],
+        },
+      }),
+    );
+    expect(result.success).toBe(false);
+  });
+
+  // --- examples ---
+
+  const searchExecution = {
+    selector: "#search-form",
+    autosubmit: true,
+    fields: [{ type: "text", selector: "#q", name: "query", description: "Search term" }],
+  };
+
+  it("accepts examples with input params and an expectation", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: searchExecution,
+        examples: [
+          { input: { query: "shoes" }, expect: { pattern: "\\d+ results" } },
+          {
+            description: "Nothing matches",
+            input: { query: "zzzz" },
+            expect: { error: true },
+            fixtureHtml: "<form id='search-form'><input id='q' /></form>",
+          },
+        ],
+      }),
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects examples on a tool without execution", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({ examples: [{ input: { query: "shoes" }, expect: { error: false } }] }),
+    );
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects example inputs that aren't inputSchema properties or miss required ones", () => {
+    const unknownParam = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: searchExecution,
+        examples: [{ input: { query: "shoes", color: "red" }, expect: { error: false } }],
+      }),
+    );
+    expect(unknownParam.success).toBe(false);
+
+    const missingRequired = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: searchExecution,
+        examples: [{ input: {}, expect: { error: false } }],
+      }),
+    );
+    expect(missingRequired.success).toBe(false);
+  });
+
+  it("rejects examples without an expectation or with an invalid pattern", () => {
+    const empty = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: searchExecution,
+        examples: [{ input: { query: "shoes" }, expect: {} }],
+      }),
+    );
+    expect(empty.success).toBe(false);
+
+    const badRegex = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: searchExecution,
+        examples: [{ input: { query: "shoes" }, expect: { pattern: "(unclosed" } }],
+      }),
+    );
+    expect(badRegex.success).toBe(false);
+  });
+
+  it("rejects an example with both fixtureHtml and url", () => {
+    const result = toolDescriptorSchema.safeParse(
+      validTool({
+        execution: searchExecution,
+        examples: [
+          {
+            input: { query: "shoes" },
+            expect: { error: false },
+            fixtureHtml: "<form id='search-form'></form>",
+            url: "https://example.com/search",
+          },
+        ],
+      }),
+    );
+    expect(result.success).toBe(false);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -337,6 +776,119 @@ describe("createConfigSchema", () => {
     );
     expect(result.success).toBe(true);
   });
+
+  it("rejects a malformed query term in urlPattern", () => {
+    const result = createConfigSchema.safeParse(
+      validConfig({ urlPattern: "example.com/search?=foo" }),
+    );
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects an invalid param constraint in urlPattern", () => {
+    const result = createConfigSchema.safeParse(
+      validConfig({ urlPattern: "example.com/users/:id([0-9)" }),
+    );
+    expect(result.success).toBe(false);
+  });
+
+  it("accepts a constrained param in urlPattern", () => {
+    const result = createConfigSchema.safeParse(
+      validConfig({ urlPattern: "example.com/users/:id(\\d+)" }),
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it("accepts a wildcard domain with a matching urlPattern", () => {
+    const result = createConfigSchema.safeParse(
+      validConfig({ domain: "*.Atlassian.net", urlPattern: "*.atlassian.net/browse/:key" }),
+    );
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.domain).toBe("*.atlassian.net");
+    }
+  });
+
+  it("rejects a wildcard domain whose urlPattern uses another domain", () => {
+    const result = createConfigSchema.safeParse(
+      validConfig({ domain: "*.atlassian.net", urlPattern: "atlassian.net/browse/:key" }),
+    );
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(["urlPattern"]);
+    }
+  });
+
+  it("rejects a wildcard urlPattern on an exact domain", () => {
+    const result = createConfigSchema.safeParse(
+      validConfig({ domain: "atlassian.net", urlPattern: "*.atlassian.net" }),
+    );
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects wildcards that are not a leading label", () => {
+    expect(
+      createConfigSchema.safeParse(validConfig({ domain: "app.*.com", urlPattern: "app.*.com" }))
+        .success,
+    ).toBe(false);
+    expect(
+      createConfigSchema.safeParse(validConfig({ domain: "*.com", urlPattern: "*.com" })).success,
+    ).toBe(false);
+  });
+
+  function toolWithUrlTemplate(template: string) {
+    return validTool({
+      execution: {
+        selector: "#nav",
+        autosubmit: false,
+        steps: [{ action: "navigate", url: `https://example.com/projects/${template}` }],
+      },
+    });
+  }
+
+  it("accepts {{url.name}} templates the urlPattern captures", () => {
+    const result = createConfigSchema.safeParse(
+      validConfig({
+        urlPattern: "example.com/projects/:projectId?tab=:tab",
+        tools: [toolWithUrlTemplate("{{url.projectId}}/{{url.tab}}")],
+      }),
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects {{url.name}} templates the urlPattern doesn't capture", () => {
+    const result = createConfigSchema.safeParse(
+      validConfig({
+        urlPattern: "example.com/projects/:projectId",
+        tools: [toolWithUrlTemplate("{{url.projectID}}")],
+      }),
+    );
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(["tools", 0]);
+      expect(result.error.issues[0].message).toMatch(/url\.projectID.*Available: projectId/);
+    }
+  });
+});
+
+describe("validateUrlTemplates", () => {
+  it("checks templates nested in condition and forEach steps", () => {
+    const tool = validTool({
+      execution: {
+        selector: "#nav",
+        autosubmit: false,
+        steps: [
+          {
+            action: "condition",
+            selector: "#menu",
+            state: "visible",
+            then: [{ action: "click", selector: "[data-id='{{url.id}}']" }],
+          },
+        ],
+      },
+    });
+    expect(validateUrlTemplates(tool, "example.com/items/:id(int)")).toBeNull();
+    expect(validateUrlTemplates(tool, "example.com/items")).toMatch(/Available: \(none\)/);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -410,6 +962,33 @@ describe("toolFieldSchema", () => {
     expect(toolFieldSchema.safeParse({ ...base, type: "hidden" }).success).toBe(true);
   });
 
+  it("accepts multiselect, range and combobox fields", () => {
+    for (const field of [
+      { ...base, type: "multiselect", options: [{ value: "a", label: "A", selector: "#a" }] },
+      { ...base, type: "range", min: 0, max: 100, step: 5 },
+      { ...base, type: "combobox", optionSelector: "[role=option]", timeout: 2000 },
+    ]) {
+      expect(toolFieldSchema.safeParse(field).success).toBe(true);
+    }
+  });
+
+  it("rejects a combobox without an optionSelector", () => {
+    expect(toolFieldSchema.safeParse({ ...base, type: "combobox" }).success).toBe(false);
+  });
+
+  it("rejects a range with min above max", () => {
+    expect(toolFieldSchema.safeParse({ ...base, type: "range", min: 10, max: 1 }).success).toBe(
+      false,
+    );
+  });
+
+  it("accepts file field with accept and multiple", () => {
+    expect(
+      toolFieldSchema.safeParse({ ...base, type: "file", accept: ".pdf,image/*", multiple: true })
+        .success,
+    ).toBe(true);
+  });
+
   it("accepts select field with options", () => {
     expect(
       toolFieldSchema.safeParse({
@@ -440,10 +1019,6 @@ describe("toolFieldSchema", () => {
     expect(toolFieldSchema.safeParse({ ...base, type: "radio", options: [] }).success).toBe(false);
   });
 
-  it("rejects file field type (removed)", () => {
-    expect(toolFieldSchema.safeParse({ ...base, type: "file" }).success).toBe(false);
-  });
-
   it("rejects unknown field type", () => {
     expect(toolFieldSchema.safeParse({ ...base, type: "color" }).success).toBe(false);
   });
@@ -494,6 +1069,107 @@ describe("executionDescriptorSchema", () => {
     expect(result.success).toBe(true);
   });
 
+  it("accepts frame-piercing selectors", () => {
+    const result = executionDescriptorSchema.safeParse({
+      selector: "iframe#checkout >>> form",
+      autosubmit: true,
+      fields: [
+        {
+          type: "text",
+          selector: "iframe#checkout >>> iframe.card >>> input[name=card]",
+          name: "card",
+          description: "Card number",
+        },
+      ],
+      submitSelector: "iframe#checkout >>> button[type=submit]",
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects frame selectors with an empty part", () => {
+    for (const selector of [">>> input", "iframe#checkout >>>", "iframe >>>  >>> input"]) {
+      const result = executionDescriptorSchema.safeParse({
+        selector: "#app",
+        autosubmit: false,
+        steps: [{ action: "click", selector }],
+      });
+      expect(result.success).toBe(false);
+    }
+    const result = executionDescriptorSchema.safeParse({
+      selector: "#app",
+      autosubmit: false,
+      resultSelector: "iframe >>>",
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toContain("frame selector");
+    }
+  });
+
+  it("accepts role, XPath, :nth-match() and templated text selectors", () => {
+    const result = executionDescriptorSchema.safeParse({
+      selector: "#app",
+      autosubmit: true,
+      steps: [
+        { action: "click", selector: 'role=tab[name="{{tab}}" i]' },
+        { action: "click", selector: ':nth-match(li:text-is("{{label}}"), {{index}})' },
+        { action: "extract", selector: "//table//tr[2]", extract: "text" },
+      ],
+      submitSelector: 'role=button[name="Send"]',
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects malformed selectors with the parser's reason", () => {
+    const result = executionDescriptorSchema.safeParse({
+      selector: "#app",
+      autosubmit: false,
+      steps: [{ action: "click", selector: 'role=buton[name="Send"]' }],
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toContain('Unknown ARIA role "buton"');
+    }
+  });
+
+  it("accepts selector chains in every selector slot", () => {
+    const result = executionDescriptorSchema.safeParse({
+      selector: ["#compose", "form.compose"],
+      autosubmit: true,
+      fields: [
+        {
+          type: "text",
+          selector: ["#subject", 'role=textbox[name="Subject"]'],
+          name: "subject",
+          description: "Subject",
+        },
+      ],
+      submitSelector: [".send", 'role=button[name="Send"]'],
+      resultSelector: ["#results li", "//ul[@id='results']/li"],
+      resultExtract: "list",
+      pagination: { mode: "click", nextSelector: [".next", "a[rel=next]"] },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects empty and malformed selector chains", () => {
+    const empty = executionDescriptorSchema.safeParse({
+      selector: [],
+      autosubmit: false,
+    });
+    expect(empty.success).toBe(false);
+
+    const malformed = executionDescriptorSchema.safeParse({
+      selector: "#app",
+      autosubmit: false,
+      steps: [{ action: "click", selector: [".send", 'role=buton[name="Send"]'] }],
+    });
+    expect(malformed.success).toBe(false);
+    if (!malformed.success) {
+      expect(malformed.error.issues[0].message).toContain('Unknown ARIA role "buton"');
+    }
+  });
+
   it("accepts attribute extract with resultAttribute", () => {
     const result = executionDescriptorSchema.safeParse({
       selector: "#link",
@@ -519,6 +1195,77 @@ describe("executionDescriptorSchema", () => {
     expect(result.success).toBe(true);
   });
 
+  it("accepts declarative DOM steps", () => {
+    const result = executionDescriptorSchema.safeParse({
+      selector: "#app",
+      autosubmit: false,
+      steps: [
+        { action: "remove", selector: ".cookie-banner", all: true },
+        { action: "hover", selector: "#menu" },
+        { action: "setAttribute", selector: "#menu", attribute: "aria-expanded", value: "true" },
+        { action: "setAttribute", selector: "#q", attribute: "readonly" },
+        { action: "focus", selector: "#q" },
+        { action: "press", key: "ArrowDown" },
+        { action: "press", key: "Control+Enter", selector: "#q" },
+        { action: "clear", selector: "#q" },
+        { action: "drag", selector: ".card:first-child", to: ".column.done" },
+        { action: "dispatch", selector: "#q", event: "change" },
+        { action: "dispatch", selector: "#app", event: "app:refresh", detail: { page: 2 } },
+      ],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects press steps with unknown modifiers", () => {
+    const result = executionDescriptorSchema.safeParse({
+      selector: "#app",
+      autosubmit: false,
+      steps: [{ action: "press", key: "Hyper+x" }],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects setAttribute steps that would run code", () => {
+    for (const step of [
+      { action: "setAttribute", selector: "#x", attribute: "onclick", value: "alert(1)" },
+      { action: "setAttribute", selector: "#x", attribute: "srcdoc", value: "<script></script>" },
+      { action: "setAttribute", selector: "a", attribute: "href", value: "javascript:alert(1)" },
+      {
+        action: "setAttribute",
+        selector: "a",
+        attribute: "data-x",
+        value: "java\tscript:fetch(1)",
+      },
+      { action: "setAttribute", selector: "a", attribute: "title", value: " \njavascript:1" },
+      { action: "setAttribute", selector: "a", attribute: "HREF", value: "/orders" },
+      { action: "setAttribute", selector: "img", attribute: "src", value: "https://x.example" },
+      { action: "setAttribute", selector: "form", attribute: "action", value: "/go" },
+      { action: "setAttribute", selector: "button", attribute: "formaction", value: "/go" },
+      { action: "setAttribute", selector: "use", attribute: "xlink:href", value: "#icon" },
+      { action: "setAttribute", selector: "object", attribute: "data", value: "/x.swf" },
+      { action: "setAttribute", selector: "div", attribute: "style", value: "background:url(x)" },
+    ]) {
+      const result = executionDescriptorSchema.safeParse({
+        selector: "#app",
+        autosubmit: false,
+        steps: [step],
+      });
+      expect(result.success).toBe(false);
+    }
+  });
+
+  it("rejects evaluate code outside the allowlist", () => {
+    const result = executionDescriptorSchema.safeParse({
+      selector: "#app",
+      autosubmit: false,
+      steps: [{ action: "evaluate", value: 'globalThis["fe" + "tch"]("https://evil.example")' }],
+    });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toContain("Computed member access");
+    }
+  });
+
   it("accepts enter submit action", () => {
     const result = executionDescriptorSchema.safeParse({
       selector: "#form",
@@ -540,6 +1287,33 @@ describe("executionDescriptorSchema", () => {
     expect(result.success).toBe(true);
   });
 
+  it("accepts an outputSchema for table rows", () => {
+    const result = executionDescriptorSchema.safeParse({
+      selector: "#content",
+      autosubmit: false,
+      resultSelector: "table.prices",
+      resultExtract: "table",
+      outputSchema: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { Name: { type: "string" }, Price: { type: "number" } },
+        },
+      },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects an outputSchema with an unsupported type", () => {
+    const result = executionDescriptorSchema.safeParse({
+      selector: "#content",
+      autosubmit: false,
+      resultSelector: "#price",
+      outputSchema: { type: "date" },
+    });
+    expect(result.success).toBe(false);
+  });
+
   it("rejects empty selector", () => {
     const result = executionDescriptorSchema.safeParse({
       selector: "",
@@ -555,3 +1329,68 @@ describe("executionDescriptorSchema", () => {
     expect(result.success).toBe(false);
   });
 });
+
+// ---------------------------------------------------------------------------
+// executionReportSchema
+// ---------------------------------------------------------------------------
+
+describe("executionReportSchema", () => {
+  const report = {
+    configId: "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f",
+    toolName: "search",
+    version: 3,
+    outcome: "not_found",
+    durationMs: 1250,
+  };
+
+  it("accepts a valid report", () => {
+    expect(executionReportSchema.safeParse(report).success).toBe(true);
+  });
+
+  it("rejects an unknown outcome", () => {
+    expect(executionReportSchema.safeParse({ ...report, outcome: "crashed" }).success).toBe(false);
+  });
+
+  it("rejects a non-uuid configId", () => {
+    expect(executionReportSchema.safeParse({ ...report, configId: "abc" }).success).toBe(false);
+  });
+
+  it("rejects negative and excessive durations", () => {
+    expect(executionReportSchema.safeParse({ ...report, durationMs: -1 }).success).toBe(false);
+    expect(executionReportSchema.safeParse({ ...report, durationMs: 3_600_000 }).success).toBe(
+      false,
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// healthReportSchema
+// ---------------------------------------------------------------------------
+
+describe("healthReportSchema", () => {
+  const result = {
+    toolName: "search",
+    status: "broken",
+    configVersion: 3,
+    url: "https://example.com/search",
+    checkedAt: "2026-01-01T00:00:00.000Z",
+    selectors: [
+      { path: "selector", selector: "#search-form", matched: 1 },
+      { path: "fields[0]", selector: "#q", matched: 0 },
+      { path: "steps[2]", selector: "{{query}}", matched: null, skipped: "uses a template" },
+    ],
+  };
+
+  it("accepts a valid report", () => {
+    const report = { configId: "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f", results: [result] };
+    expect(healthReportSchema.safeParse(report).success).toBe(true);
+  });
+
+  it("rejects an unknown status and an empty report", () => {
+    const configId = "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f";
+    expect(
+      healthReportSchema.safeParse({ configId, results: [{ ...result, status: "flaky" }] }).success,
+    ).toBe(false);
+    expect(healthReportSchema.safeParse({ configId, results: [] }).success).toBe(false);
+  });
+});
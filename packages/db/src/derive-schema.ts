@@ -54,6 +54,54 @@ export function deriveInputSchema(fields: ToolField[]): Record<string, unknown>
           }));
         }
         break;
+
+      case "multiselect":
+        prop.type = "array";
+        prop.uniqueItems = true;
+        prop.items =
+          field.options && field.options.length > 0
+            ? {
+                type: "string",
+                enum: field.options.map((o) => o.value),
+                oneOf: field.options.map((o) => ({ const: o.value, title: o.label })),
+              }
+            : { type: "string" };
+        break;
+
+      case "range":
+        prop.type = "number";
+        if (field.min !== undefined) prop.minimum = field.min;
+        if (field.max !== undefined) prop.maximum = field.max;
+        break;
+
+      case "combobox":
+        prop.type = "string";
+        // Suggestions aren't exhaustive, so known options are examples rather than an enum
+        if (field.options && field.options.length > 0) {
+          prop.examples = field.options.map((o) => o.value);
+        }
+        break;
+
+      case "file": {
+        // Matches FileInput
+        const file = {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "File name, e.g. report.pdf" },
+            content: { type: "string", description: "Base64-encoded file content, or a data: URL" },
+            mimeType: { type: "string", description: "MIME type, e.g. application/pdf" },
+          },
+          required: ["name", "content"],
+        };
+        if (field.multiple) {
+          prop.type = "array";
+          prop.items = file;
+        } else {
+          Object.assign(prop, file);
+        }
+        if (field.accept) prop.description = `${field.description} (accepts ${field.accept})`;
+        break;
+      }
     }
 
     if (field.defaultValue !== undefined) {
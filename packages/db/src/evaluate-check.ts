@@ -0,0 +1,492 @@
+import { parse } from "acorn";
+
+// ---------------------------------------------------------------------------
+// Allowlist check for evaluate step code
+// ---------------------------------------------------------------------------
+
+interface AstNode {
+  type: string;
+  start: number;
+  end: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Globals evaluate code may reference. `null` allows any member; a list allows only
+ * those members (so `Object.keys` works but `Object.getPrototypeOf` doesn't).
+ */
+const ALLOWED_GLOBALS: Record<string, readonly string[] | null> = {
+  document: null,
+  console: ["log", "info", "warn", "error", "debug"],
+  Math: null,
+  JSON: null,
+  Number: null,
+  String: null,
+  Boolean: null,
+  Date: null,
+  Error: null,
+  Map: null,
+  Set: null,
+  Array: ["from", "isArray", "of"],
+  // No assign: it would set properties (innerHTML, href, ...) without a visible member write
+  Object: ["keys", "values", "entries", "fromEntries"],
+  Promise: ["resolve", "reject", "all", "allSettled", "race"],
+  parseInt: null,
+  parseFloat: null,
+  isNaN: null,
+  isFinite: null,
+  encodeURIComponent: null,
+  decodeURIComponent: null,
+  setTimeout: null,
+  clearTimeout: null,
+  requestAnimationFrame: null,
+  Event: null,
+  CustomEvent: null,
+  InputEvent: null,
+  KeyboardEvent: null,
+  MouseEvent: null,
+  PointerEvent: null,
+  FocusEvent: null,
+  // Element classes are only for instanceof checks
+  Element: [],
+  HTMLElement: [],
+  HTMLInputElement: [],
+  HTMLTextAreaElement: [],
+  HTMLSelectElement: [],
+  HTMLButtonElement: [],
+  undefined: null,
+  NaN: null,
+  Infinity: null,
+};
+
+/**
+ * Properties that lead out of the DOM — to the global object, other frames, storage,
+ * the network, or code generation — or inject markup. Blocked however they're reached:
+ * `a.x`, `a["x"]`, or destructuring `{ x } = a`.
+ */
+const BLOCKED_PROPERTIES = new Set([
+  "constructor",
+  "prototype",
+  "__proto__",
+  "__defineGetter__",
+  "__defineSetter__",
+  "__lookupGetter__",
+  "__lookupSetter__",
+  "globalThis",
+  "window",
+  "self",
+  "top",
+  "parent",
+  "frames",
+  "opener",
+  "defaultView",
+  "contentWindow",
+  "contentDocument",
+  "location",
+  "cookie",
+  "localStorage",
+  "sessionStorage",
+  "indexedDB",
+  "caches",
+  "fetch",
+  "sendBeacon",
+  "postMessage",
+  "innerHTML",
+  "outerHTML",
+  "insertAdjacentHTML",
+  "srcdoc",
+  "write",
+  "writeln",
+  "execCommand",
+  "createContextualFragment",
+  "setHTMLUnsafe",
+  "parseHTMLUnsafe",
+  // Attr nodes set attributes past the setAttribute checks: el.attributes.href.value = ...
+  "attributes",
+  "createAttribute",
+  "createAttributeNS",
+  "getAttributeNode",
+  "getAttributeNodeNS",
+  "setAttributeNode",
+  "setAttributeNodeNS",
+  "setNamedItem",
+  "setNamedItemNS",
+  // Stylesheets can load url(...) resources
+  "styleSheets",
+  "adoptedStyleSheets",
+  "insertRule",
+  "replaceSync",
+]);
+
+/**
+ * Properties that load a URL — or run code — when written: link and resource targets,
+ * form actions, inline styles and the CSS properties that take url(...). Reading them is
+ * fine; writing them is rejected as an assignment target, a destructuring target or an
+ * object literal key (keyframes for animate() and the like). Names are compared in
+ * lowercase without dashes, so `backgroundImage` and `"background-image"` both match.
+ */
+const URL_SINK_PROPERTIES = new Set([
+  "href",
+  "src",
+  "srcset",
+  "action",
+  "formaction",
+  "data",
+  "poster",
+  "ping",
+  "codebase",
+  "baseval",
+  "style",
+  "csstext",
+  "background",
+  "backgroundimage",
+  "borderimage",
+  "borderimagesource",
+  "liststyle",
+  "liststyleimage",
+  "content",
+  "cursor",
+  "mask",
+  "maskimage",
+  "webkitmaskimage",
+  "filter",
+  "shapeoutside",
+]);
+
+/** Whether writing property `name` can load a URL or install an event handler. */
+function isUrlSink(name: string): boolean {
+  // Event handler properties (onclick, onerror, ...); "once" is an addEventListener option
+  if (/^on[a-z]+$/i.test(name) && name !== "once") return true;
+  return URL_SINK_PROPERTIES.has(name.toLowerCase().replace(/-/g, ""));
+}
+
+// Elements that run code or load URLs as soon as they're inserted. SVG's <animate> and
+// <set> can write a javascript: URL into another element's href.
+const BLOCKED_ELEMENTS = new Set([
+  "script",
+  "iframe",
+  "frame",
+  "object",
+  "embed",
+  "link",
+  "img",
+  "image",
+  "style",
+  "base",
+  "meta",
+  "audio",
+  "video",
+  "source",
+  "form",
+  "animate",
+  "set",
+  "use",
+]);
+
+// Attributes that run code or load URLs when set
+const BLOCKED_ATTRIBUTE_RE =
+  /^(on|src$|srcdoc$|srcset$|href$|xlink:href$|action$|formaction$|data$|poster$|ping$|background$|codebase$|style$)/i;
+
+const TEMPLATE_RE = /\{\{[\w.$]+\}\}/g;
+
+/**
+ * Check evaluate step code against an allowlist. Returns an error message, or null if
+ * the code only uses allowed globals and members.
+ *
+ * The code is parsed rather than pattern-matched, so spelling tricks like
+ * `globalThis["fe" + "tch"]` or unicode-escaped names don't get through: every identifier
+ * must be declared in the code or be an allowed global, computed member access needs a
+ * literal key, and `this`, `with` and `import()` are rejected outright.
+ * `{{param}}` templates may only appear inside string literals, where the engine
+ * substitutes them as escaped string content.
+ */
+export function checkEvaluateCode(code: string): string | null {
+  let program: AstNode;
+  try {
+    program = parse(code, {
+      ecmaVersion: "latest",
+      sourceType: "script",
+      allowAwaitOutsideFunction: true,
+      allowReturnOutsideFunction: true,
+    }) as unknown as AstNode;
+  } catch (err) {
+    return `Evaluate code does not parse: ${(err as Error).message}`;
+  }
+
+  const strings: AstNode[] = [];
+  const declared = new Set<string>();
+  const functions = new Set<string>();
+  walk(program, null, "", (node) => {
+    if (node.type === "Literal" && typeof node.value === "string") strings.push(node);
+    if (node.type === "TemplateElement") strings.push(node);
+    collectDeclarations(node, declared, functions);
+  });
+
+  for (const match of code.matchAll(TEMPLATE_RE)) {
+    const start = match.index;
+    const end = start + match[0].length;
+    // Literal ranges include the quotes; TemplateElement ranges are just the text
+    const inside = (s: AstNode) =>
+      s.type === "Literal" ? s.start < start && end < s.end : s.start <= start && end <= s.end;
+    if (!strings.some(inside)) {
+      return `Template "${match[0]}" in evaluate code must be inside a string literal`;
+    }
+  }
+
+  let error: string | null = null;
+  walk(program, null, "", (node, parent, key) => {
+    error ??= checkNode(node, parent, key, declared, functions);
+  });
+  return error;
+}
+
+function checkNode(
+  node: AstNode,
+  parent: AstNode | null,
+  key: string,
+  declared: Set<string>,
+  functions: Set<string>,
+): string | null {
+  switch (node.type) {
+    case "ThisExpression":
+      return '"this" is not allowed in evaluate code';
+    case "WithStatement":
+      return '"with" is not allowed in evaluate code';
+    case "ImportExpression":
+    case "MetaProperty":
+      return "import() and meta properties are not allowed in evaluate code";
+
+    case "Identifier": {
+      if (!isReference(parent, key)) return null;
+      const name = node.name as string;
+      if (declared.has(name) || name in ALLOWED_GLOBALS) return null;
+      return `"${name}" is not an allowed global in evaluate code`;
+    }
+
+    case "MemberExpression": {
+      const name = propertyName(node.property as AstNode, node.computed as boolean);
+      if (name === null) {
+        return "Computed member access in evaluate code needs a literal key, e.g. items[0]";
+      }
+      if (BLOCKED_PROPERTIES.has(name)) return `".${name}" is not allowed in evaluate code`;
+      if (isWriteTarget(parent, key) && isUrlSink(name)) {
+        return `Setting ".${name}" is not allowed in evaluate code`;
+      }
+      const object = node.object as AstNode;
+      if (object.type === "Identifier" && !declared.has(object.name as string)) {
+        const members = ALLOWED_GLOBALS[object.name as string];
+        if (members && !members.includes(name)) {
+          return `"${object.name}.${name}" is not allowed in evaluate code`;
+        }
+      }
+      return null;
+    }
+
+    case "ObjectPattern": {
+      for (const prop of node.properties as AstNode[]) {
+        if (prop.type !== "Property") continue;
+        const name = propertyName(prop.key as AstNode, prop.computed as boolean);
+        if (name === null) return "Computed keys are not allowed in destructuring";
+        if (BLOCKED_PROPERTIES.has(name)) return `".${name}" is not allowed in evaluate code`;
+        // ({ x: a.href } = obj) writes a.href
+        const target = prop.value as AstNode;
+        if (target.type === "MemberExpression") {
+          const targetName = propertyName(target.property as AstNode, target.computed as boolean);
+          if (targetName !== null && isUrlSink(targetName)) {
+            return `Setting ".${targetName}" is not allowed in evaluate code`;
+          }
+        }
+      }
+      return null;
+    }
+
+    case "ObjectExpression": {
+      for (const prop of node.properties as AstNode[]) {
+        if (prop.type !== "Property") continue;
+        const name = propertyName(prop.key as AstNode, prop.computed as boolean);
+        if (name === null) return "Computed keys are not allowed in object literals";
+        if (BLOCKED_PROPERTIES.has(name) || isUrlSink(name)) {
+          return `Object key "${name}" is not allowed in evaluate code`;
+        }
+      }
+      return null;
+    }
+
+    case "CallExpression":
+    case "NewExpression":
+      return checkCall(node, functions);
+  }
+  return null;
+}
+
+/**
+ * Calls whose arguments decide whether they run code or load URLs: timers, element
+ * creation, attributes and style properties.
+ */
+function checkCall(node: AstNode, functions: Set<string>): string | null {
+  const callee = node.callee as AstNode;
+  const args = node.arguments as AstNode[];
+  const name =
+    callee.type === "Identifier"
+      ? (callee.name as string)
+      : callee.type === "MemberExpression" && !callee.computed
+        ? ((callee.property as AstNode).name as string)
+        : null;
+
+  if (name === "setTimeout") {
+    const fn = args[0];
+    const isFunction =
+      fn &&
+      (fn.type === "ArrowFunctionExpression" ||
+        fn.type === "FunctionExpression" ||
+        (fn.type === "Identifier" && functions.has(fn.name as string)));
+    if (!isFunction) return "setTimeout in evaluate code needs a function, not a string";
+  }
+
+  if (name === "createElement" || name === "createElementNS") {
+    const tag = stringValue(args[name === "createElement" ? 0 : 1]);
+    if (tag === null) return `${name} in evaluate code needs a literal tag name`;
+    // createElementNS takes a qualified name: "svg:script" creates a <script>
+    const localName = tag.slice(tag.indexOf(":") + 1).toLowerCase();
+    if (BLOCKED_ELEMENTS.has(localName)) {
+      return `Creating <${tag}> elements is not allowed in evaluate code`;
+    }
+  }
+
+  if (name === "setProperty") {
+    const property = stringValue(args[0]);
+    if (property === null) return "setProperty in evaluate code needs a literal property name";
+    // Custom properties can carry url(...) into any rule that uses var()
+    if (property.startsWith("--") || isUrlSink(property)) {
+      return `Setting the "${property}" style property is not allowed in evaluate code`;
+    }
+  }
+
+  if (name === "setAttribute" || name === "setAttributeNS" || name === "toggleAttribute") {
+    const attr = stringValue(args[name === "setAttributeNS" ? 1 : 0]);
+    if (attr === null) return `${name} in evaluate code needs a literal attribute name`;
+    if (BLOCKED_ATTRIBUTE_RE.test(attr)) {
+      return `Setting the "${attr}" attribute is not allowed in evaluate code`;
+    }
+  }
+  return null;
+}
+
+/** Whether a node is written to: assigned, updated, a loop target or a destructuring target. */
+function isWriteTarget(parent: AstNode | null, key: string): boolean {
+  switch (parent?.type) {
+    case "AssignmentExpression":
+    case "AssignmentPattern":
+    case "ForInStatement":
+    case "ForOfStatement":
+      return key === "left";
+    case "UpdateExpression":
+    case "RestElement":
+      return key === "argument";
+    case "ArrayPattern":
+      return true;
+  }
+  return false;
+}
+
+/** Whether an Identifier node refers to a variable (rather than naming a property or label). */
+function isReference(parent: AstNode | null, key: string): boolean {
+  if (!parent) return true;
+  switch (parent.type) {
+    case "MemberExpression":
+      return key !== "property" || (parent.computed as boolean);
+    case "Property":
+    case "MethodDefinition":
+    case "PropertyDefinition":
+      return key !== "key" || (parent.computed as boolean);
+    case "LabeledStatement":
+    case "BreakStatement":
+    case "ContinueStatement":
+      return false;
+  }
+  return true;
+}
+
+/** The name a property key spells, or null for keys only known at runtime. */
+function propertyName(key: AstNode, computed: boolean): string | null {
+  if (!computed) {
+    return key.type === "Identifier" ? (key.name as string) : String(key.value);
+  }
+  if (key.type === "Literal" && (typeof key.value === "string" || typeof key.value === "number")) {
+    return String(key.value);
+  }
+  return null;
+}
+
+function stringValue(node: AstNode | undefined): string | null {
+  return node?.type === "Literal" && typeof node.value === "string" ? node.value : null;
+}
+
+/** Record names declared by variables, functions, classes and catch clauses. */
+function collectDeclarations(node: AstNode, declared: Set<string>, functions: Set<string>) {
+  switch (node.type) {
+    case "VariableDeclarator":
+      patternNames(node.id as AstNode, declared);
+      break;
+    case "FunctionDeclaration":
+    case "FunctionExpression":
+    case "ArrowFunctionExpression":
+      if (node.id) {
+        declared.add((node.id as AstNode).name as string);
+        functions.add((node.id as AstNode).name as string);
+      }
+      // Parameters count as functions too, so setTimeout(resolve, ms) works
+      for (const param of node.params as AstNode[]) {
+        patternNames(param, declared);
+        patternNames(param, functions);
+      }
+      break;
+    case "ClassDeclaration":
+    case "ClassExpression":
+      if (node.id) declared.add((node.id as AstNode).name as string);
+      break;
+    case "CatchClause":
+      if (node.param) patternNames(node.param as AstNode, declared);
+      break;
+  }
+}
+
+function patternNames(pattern: AstNode, names: Set<string>) {
+  switch (pattern.type) {
+    case "Identifier":
+      names.add(pattern.name as string);
+      break;
+    case "ObjectPattern":
+      for (const prop of pattern.properties as AstNode[]) {
+        patternNames(prop.type === "RestElement" ? prop : (prop.value as AstNode), names);
+      }
+      break;
+    case "ArrayPattern":
+      for (const el of pattern.elements as (AstNode | null)[]) if (el) patternNames(el, names);
+      break;
+    case "RestElement":
+      patternNames(pattern.argument as AstNode, names);
+      break;
+    case "AssignmentPattern":
+      patternNames(pattern.left as AstNode, names);
+      break;
+  }
+}
+
+function walk(
+  node: AstNode,
+  parent: AstNode | null,
+  key: string,
+  visit: (node: AstNode, parent: AstNode | null, key: string) => void,
+) {
+  visit(node, parent, key);
+  for (const [childKey, value] of Object.entries(node)) {
+    for (const child of Array.isArray(value) ? value : [value]) {
+      if (isNode(child)) walk(child, node, childKey, visit);
+    }
+  }
+}
+
+function isNode(value: unknown): value is AstNode {
+  return typeof value === "object" && value !== null && typeof (value as AstNode).type === "string";
+}
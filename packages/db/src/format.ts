@@ -1,4 +1,14 @@
-import type { WebMcpConfig, ToolDescriptor, ExecutionDescriptor } from "./types.js";
+import type {
+  WebMcpConfig,
+  ToolDescriptor,
+  ExecutionDescriptor,
+  OutputSchema,
+  ToolExecutionStats,
+  ToolExample,
+  ToolExampleExpectation,
+  SelectorChain,
+} from "./types.js";
+import { describeSelector, selectorAlternatives } from "./selector.js";
 
 export function describeExecution(exec: ExecutionDescriptor): string {
   if (exec.steps && exec.steps.length > 0) {
@@ -11,43 +21,135 @@ export function describeExecution(exec: ExecutionDescriptor): string {
   return "extract";
 }
 
+/**
+ * Render an output schema as a compact type, e.g. `{ name: string, price: number }[]`.
+ */
+export function describeOutputSchema(schema: OutputSchema): string {
+  if (schema.type === "array") {
+    return schema.items ? `${describeOutputSchema(schema.items)}[]` : "array";
+  }
+  if (schema.type === "object" && schema.properties) {
+    const props = Object.entries(schema.properties).map(
+      ([key, value]) => `${key}: ${describeOutputSchema(value)}`,
+    );
+    return `{ ${props.join(", ")} }`;
+  }
+  return schema.type;
+}
+
+/**
+ * A selector as written, followed by a plain reading when it isn't plain CSS. Fallback
+ * alternatives are listed in the order they're tried.
+ */
+function showSelector(chain: SelectorChain): string {
+  return selectorAlternatives(chain)
+    .map((selector) => {
+      const description = describeSelector(selector);
+      return description === selector ? selector : `${selector} (${description})`;
+    })
+    .join(" | ");
+}
+
 export function formatToolExecution(tool: ToolDescriptor): string {
   if (!tool.execution) return "";
   const exec = tool.execution;
-  const parts = [`    Execution: ${describeExecution(exec)}`, `    Selector: ${exec.selector}`];
+  const parts = [
+    `    Execution: ${describeExecution(exec)}`,
+    `    Selector: ${showSelector(exec.selector)}`,
+  ];
   if (exec.fields && exec.fields.length > 0) {
     parts.push(`    Fields: ${exec.fields.map((f) => f.name).join(", ")}`);
   }
-  if (exec.submitSelector) parts.push(`    Submit: ${exec.submitSelector}`);
-  if (exec.resultSelector) parts.push(`    Result: ${exec.resultSelector}`);
+  if (exec.submitSelector) parts.push(`    Submit: ${showSelector(exec.submitSelector)}`);
+  if (exec.resultSelector) parts.push(`    Result: ${showSelector(exec.resultSelector)}`);
   if (exec.resultExtract) parts.push(`    Extract: ${exec.resultExtract}`);
+  if (exec.pagination) {
+    const { mode, nextSelector, maxPages = 5, maxItems } = exec.pagination;
+    const via = mode === "click" ? `click ${nextSelector && showSelector(nextSelector)}` : "scroll";
+    const limit = maxItems ? `, max ${maxItems} items` : "";
+    parts.push(`    Pagination: ${via}, up to ${maxPages} pages${limit}`);
+  }
+  if (exec.outputSchema)
+    parts.push(`    Output: ${describeOutputSchema(exec.outputSchema)} (JSON)`);
+  if (exec.onError) {
+    const retries = exec.onError === "retry" ? ` (${exec.retries ?? 2} retries)` : "";
+    parts.push(`    On error: ${exec.onError}${retries}`);
+  }
   if (exec.steps && exec.steps.length > 0) {
-    parts.push(`    Steps: ${exec.steps.map((s) => s.action).join(" → ")}`);
+    const steps = exec.steps.map((s) => {
+      if (s.action === "extract" && s.as) return `extract(${s.as})`;
+      if (s.action === "forEach") return `forEach(${s.steps.length} steps)`;
+      return s.action;
+    });
+    parts.push(`    Steps: ${steps.join(" → ")}`);
   }
   return "\n" + parts.join("\n");
 }
 
+/**
+ * Summarize reported runs, e.g. `92% success over 48 runs (3 not_found, 1 timeout)`,
+ * followed by `; 70% over 120 runs across all versions` when older versions have runs.
+ */
+export function describeToolStats(stats: ToolExecutionStats): string {
+  const rate = `${Math.round(stats.successRate * 100)}% success over ${stats.runs} runs`;
+  const failures = Object.entries(stats.failures).map(([outcome, n]) => `${n} ${outcome}`);
+  const current = failures.length > 0 ? `${rate} (${failures.join(", ")})` : rate;
+  if (!stats.allVersions) return current;
+  const { runs, successRate } = stats.allVersions;
+  return `${current}; ${Math.round(successRate * 100)}% over ${runs} runs across all versions`;
+}
+
+/** Summarize what an example expects, e.g. `fails` or `matches /\d+ results/`. */
+export function describeExpectation(expect: ToolExampleExpectation): string {
+  const { error, pattern, json } = expect;
+  return [
+    error !== undefined ? (error ? "fails" : "succeeds") : null,
+    pattern !== undefined ? `matches /${pattern}/` : null,
+    json !== undefined ? `returns ${JSON.stringify(json)}` : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+/** Summarize an example as input → expectation, e.g. `{"query":"shoes"} → fails`. */
+export function describeExample(example: ToolExample): string {
+  return `${JSON.stringify(example.input)} → ${describeExpectation(example.expect)}`;
+}
+
 export function formatConfig(config: WebMcpConfig, verbose = false): string {
   const lines = [
     `ID: ${config.id}`,
     `Title: ${config.title}`,
     `Domain: ${config.domain}`,
     `URL Pattern: ${config.urlPattern}`,
+    config.urlParams && Object.keys(config.urlParams).length > 0
+      ? `URL Params: ${Object.entries(config.urlParams)
+          .map(([k, v]) => `${k}=${v}`)
+          .join(", ")}`
+      : null,
     config.pageType ? `Page Type: ${config.pageType}` : null,
     `Description: ${config.description}`,
     `Contributor: ${config.contributor}`,
-    `Version: ${config.version}`,
+    config.latestVersion !== undefined && config.latestVersion !== config.version
+      ? `Version: ${config.version} (pinned — latest is ${config.latestVersion})`
+      : `Version: ${config.version}`,
     `Verified: ${config.verified ? "Yes" : "No"}`,
     `Tools (${config.tools.length}):`,
     ...config.tools.map((t) => {
+      const stats = config.toolStats?.[t.name];
       if (verbose) {
         const schema = JSON.stringify(t.inputSchema, null, 2);
         const ann = t.annotations ? `\n    Annotations: ${JSON.stringify(t.annotations)}` : "";
         const exec = formatToolExecution(t);
-        return `  - ${t.name}: ${t.description}\n    Input Schema: ${schema}${ann}${exec}`;
+        const reliability = stats ? `\n    Reliability: ${describeToolStats(stats)}` : "";
+        const examples = t.examples?.length
+          ? `\n    Examples:${t.examples.map((e) => `\n      ${describeExample(e)}`).join("")}`
+          : "";
+        return `  - ${t.name}: ${t.description}\n    Input Schema: ${schema}${ann}${exec}${reliability}${examples}`;
       }
       const execLabel = t.execution ? ` [${describeExecution(t.execution)}]` : "";
-      return `  - ${t.name}: ${t.description}${execLabel}`;
+      const statsLabel = stats ? ` (${Math.round(stats.successRate * 100)}% success)` : "";
+      return `  - ${t.name}: ${t.description}${execLabel}${statsLabel}`;
     }),
     config.tags?.length ? `Tags: ${config.tags.join(", ")}` : null,
     `Updated: ${config.updatedAt}`,
@@ -1,8 +1,11 @@
 export type {
   ToolDescriptor,
+  ToolExample,
+  ToolExampleExpectation,
   WebMcpConfig,
   ConfigListResponse,
   StatsResponse,
+  SelectorChain,
   // Tool Field types
   ToolField,
   TextField,
@@ -15,6 +18,12 @@ export type {
   RadioOption,
   DateField,
   HiddenField,
+  FileField,
+  FileInput,
+  MultiselectField,
+  MultiselectOption,
+  RangeField,
+  ComboboxField,
   // Action Step types
   ActionStep,
   NavigateStep,
@@ -22,11 +31,42 @@ export type {
   FillStep,
   SelectStep,
   WaitStep,
+  WaitForUrlStep,
+  WaitForNetworkIdleStep,
+  WaitForTextStep,
   ExtractStep,
   ScrollStep,
+  RemoveStep,
+  DispatchStep,
+  SetAttributeStep,
+  FocusStep,
+  PressStep,
+  HoverStep,
+  DragStep,
+  ClearStep,
   ConditionStep,
+  EvaluateStep,
+  ForEachStep,
+  StepErrorPolicy,
   // Execution Descriptor
   ExecutionDescriptor,
+  OutputSchema,
+  Pagination,
+  // Revision history
+  ConfigSnapshot,
+  RevisionChangeType,
+  ConfigRevisionSummary,
+  ConfigRevision,
+  RevisionChange,
+  RevisionDiff,
+  // Execution telemetry
+  ExecutionOutcome,
+  ExecutionReport,
+  ToolExecutionStats,
+  // Selector health checks
+  ToolHealthStatus,
+  SelectorHealth,
+  ToolHealth,
 } from "./types.js";
 
 export {
@@ -38,6 +78,11 @@ export {
   updateConfigSchema,
   addToolSchema,
   updateToolSchema,
+  rollbackSchema,
+  executionReportSchema,
+  toolHealthSchema,
+  healthReportSchema,
+  validateUrlTemplates,
 } from "./validation.js";
 
 export type {
@@ -45,13 +90,43 @@ export type {
   UpdateConfigInput,
   AddToolInput,
   UpdateToolInput,
+  ExecutionReportInput,
+  HealthReportInput,
 } from "./validation.js";
 
 export { deriveInputSchema } from "./derive-schema.js";
 
-export { rankConfigsByUrl } from "./url-matching.js";
+export {
+  rankConfigsByUrl,
+  isWildcardDomain,
+  wildcardDomainsFor,
+  validatePatternDomain,
+} from "./url-matching.js";
+
+export { diffConfigSnapshots } from "./revision-diff.js";
+
+export { checkEvaluateCode } from "./evaluate-check.js";
 
-export { describeExecution, formatToolExecution, formatConfig } from "./format.js";
+export {
+  FRAME_SEPARATOR,
+  splitFrames,
+  parseSelector,
+  checkSelector,
+  describeSelector,
+  SelectorError,
+  selectorAlternatives,
+} from "./selector.js";
+export type { ParsedSelector, SelectorStep, TextMatch } from "./selector.js";
+
+export {
+  describeExecution,
+  describeOutputSchema,
+  describeToolStats,
+  describeExample,
+  describeExpectation,
+  formatToolExecution,
+  formatConfig,
+} from "./format.js";
 
 export { getDb } from "./client.js";
 export type { Database } from "./client.js";
@@ -65,4 +140,7 @@ export {
   verificationTokens,
   apiKeys,
   configVotes,
+  configRevisions,
+  toolExecutionStats,
+  toolHealth,
 } from "./schema.js";
@@ -0,0 +1,83 @@
+import type { ConfigSnapshot, RevisionChange } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Structural diff between two config snapshots
+// ---------------------------------------------------------------------------
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isEqual(v, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!isEqual(a[key], b[key])) return false;
+    }
+    return true;
+  }
+  return false;
+}
+
+function diffValues(before: unknown, after: unknown, path: string, changes: RevisionChange[]) {
+  if (isEqual(before, after)) return;
+
+  if (before === undefined) {
+    changes.push({ path, kind: "added", after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ path, kind: "removed", before });
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    for (const key of keys) {
+      diffValues(before[key], after[key], path ? `${path}.${key}` : key, changes);
+    }
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length);
+    for (let i = 0; i < length; i++) {
+      diffValues(before[i], after[i], `${path}[${i}]`, changes);
+    }
+    return;
+  }
+
+  changes.push({ path, kind: "changed", before, after });
+}
+
+/**
+ * Compute the structural changes needed to go from one snapshot to another.
+ *
+ * Tools are matched by name rather than array position, so reordering tools
+ * produces no changes and an edited tool is reported field by field
+ * (e.g. `tools[search].execution.selector`). Other arrays (fields, steps, tags)
+ * are compared by index.
+ */
+export function diffConfigSnapshots(
+  before: ConfigSnapshot,
+  after: ConfigSnapshot,
+): RevisionChange[] {
+  const changes: RevisionChange[] = [];
+
+  const { tools: beforeTools, ...beforeMeta } = before;
+  const { tools: afterTools, ...afterMeta } = after;
+  diffValues(beforeMeta, afterMeta, "", changes);
+
+  const beforeByName = new Map(beforeTools.map((t) => [t.name, t]));
+  const afterByName = new Map(afterTools.map((t) => [t.name, t]));
+  const names = [...new Set([...beforeByName.keys(), ...afterByName.keys()])].sort();
+  for (const name of names) {
+    diffValues(beforeByName.get(name), afterByName.get(name), `tools[${name}]`, changes);
+  }
+
+  return changes;
+}
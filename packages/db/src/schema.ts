@@ -5,6 +5,7 @@ import {
   jsonb,
   boolean,
   integer,
+  bigint,
   timestamp,
   index,
   uniqueIndex,
@@ -12,7 +13,15 @@ import {
   check,
 } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
-import type { ExecutionDescriptor } from "./types.js";
+import type {
+  ExecutionDescriptor,
+  ToolExample,
+  ConfigSnapshot,
+  RevisionChangeType,
+  ExecutionOutcome,
+  SelectorHealth,
+  ToolHealthStatus,
+} from "./types.js";
 
 export const configs = pgTable(
   "configs",
@@ -49,6 +58,7 @@ export const tools = pgTable(
     inputSchema: jsonb("input_schema").$type<Record<string, unknown>>().notNull(),
     annotations: jsonb("annotations").$type<Record<string, string>>(),
     execution: jsonb("execution").$type<ExecutionDescriptor>(),
+    examples: jsonb("examples").$type<ToolExample[]>(),
     contributor: text("contributor").notNull(),
     verified: boolean("verified").default(false).notNull(),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
@@ -61,6 +71,29 @@ export const tools = pgTable(
   ],
 ).enableRLS();
 
+// Append-only history: one row per config version, holding the full snapshot
+// of config metadata and tools at that version.
+export const configRevisions = pgTable(
+  "config_revisions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    configId: uuid("config_id")
+      .notNull()
+      .references(() => configs.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    changeType: text("change_type").$type<RevisionChangeType>().notNull(),
+    toolName: text("tool_name"),
+    restoredFromVersion: integer("restored_from_version"),
+    contributor: text("contributor").notNull(),
+    snapshot: jsonb("snapshot").$type<ConfigSnapshot>().notNull(),
+    // Tools that were verified while this revision was current. Kept in sync by
+    // setToolVerified so pinned lookups never serve unverified tool content.
+    verifiedToolNames: jsonb("verified_tool_names").$type<string[]>().default([]).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("uq_config_revisions_config_version").on(table.configId, table.version)],
+).enableRLS();
+
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().defaultRandom(),
   email: text("email").unique(),
@@ -86,6 +119,45 @@ export const configVotes = pgTable(
   (table) => [primaryKey({ columns: [table.userId, table.configId, table.toolName] })],
 ).enableRLS();
 
+// Anonymous execution telemetry from the extension, rolled up per tool, config version
+// and outcome. Individual runs are not stored.
+export const toolExecutionStats = pgTable(
+  "tool_execution_stats",
+  {
+    configId: uuid("config_id")
+      .notNull()
+      .references(() => configs.id, { onDelete: "cascade" }),
+    toolName: text("tool_name").notNull(),
+    configVersion: integer("config_version").notNull(),
+    outcome: text("outcome").$type<ExecutionOutcome>().notNull(),
+    count: integer("count").default(0).notNull(),
+    totalDurationMs: bigint("total_duration_ms", { mode: "number" }).default(0).notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [
+    primaryKey({
+      columns: [table.configId, table.toolName, table.configVersion, table.outcome],
+    }),
+  ],
+).enableRLS();
+
+// Latest headless selector health check per tool, written by @web-mcp-hub/health-check
+export const toolHealth = pgTable(
+  "tool_health",
+  {
+    configId: uuid("config_id")
+      .notNull()
+      .references(() => configs.id, { onDelete: "cascade" }),
+    toolName: text("tool_name").notNull(),
+    status: text("status").$type<ToolHealthStatus>().notNull(),
+    configVersion: integer("config_version").notNull(),
+    url: text("url").notNull(),
+    selectors: jsonb("selectors").$type<SelectorHealth[]>().notNull(),
+    checkedAt: timestamp("checked_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.configId, table.toolName] })],
+).enableRLS();
+
 // Column names use snake_case (refresh_token, access_token, etc.) because
 // @auth/drizzle-adapter expects these exact property names.
 export const accounts = pgTable(
@@ -0,0 +1,457 @@
+import type { SelectorChain } from "./types.js";
+
+// ---------------------------------------------------------------------------
+// Selector syntax
+// ---------------------------------------------------------------------------
+
+// The engine bundles this module into the extension through "@web-mcp-hub/db/selector",
+// so it must not import anything that needs Node or the database.
+//
+// Selectors are CSS (the engine pierces open shadow roots) plus:
+//   iframe#checkout >>> input         ">>>" steps into the frame the left side matches
+//   li:has-text("Inbox")              elements whose text contains "Inbox"
+//   li:text-is("Inbox")               elements whose whole text is "Inbox"
+//   :nth-match(li.result, 2)          the 2nd element matching li.result, counting from 1
+//   role=button[name="Send"]          ARIA role and exact accessible name; [name="send" i]
+//                                     matches a case-insensitive substring
+//   xpath=//button[@type="submit"]    XPath; a selector starting with "//" is XPath too
+// After a text pseudo-class, :nth-match() or role=, a space (or " > ") and more selector
+// looks inside the matches: li:has-text("Inbox") .count
+
+/**
+ * Separates the frame hops of a selector: `iframe#checkout >>> input[name=card]` matches
+ * the input inside the frame that `iframe#checkout` selects. Hops chain for nested frames.
+ */
+export const FRAME_SEPARATOR = ">>>";
+
+export interface TextMatch {
+  text: string;
+  /** Whole (whitespace-normalized) text rather than a substring */
+  exact: boolean;
+}
+
+/**
+ * One step of a selector. Each step after the first matches inside the elements the
+ * previous step matched.
+ */
+export type SelectorStep =
+  | {
+      kind: "css";
+      css: string;
+      /** :has-text() / :text-is() filters on the CSS matches */
+      text: TextMatch[];
+      /** CSS the matches must also match, written after a text filter */
+      also?: string;
+    }
+  | { kind: "nth"; of: SelectorStep[]; index: number }
+  | { kind: "role"; role: string; name?: TextMatch }
+  | { kind: "xpath"; expression: string };
+
+/** A parsed selector: the steps within each frame, outermost frame first. */
+export type ParsedSelector = SelectorStep[][];
+
+/** A selector that doesn't follow the syntax above. */
+export class SelectorError extends Error {}
+
+// Roles a role= selector may name (WAI-ARIA 1.2, without abstract roles)
+const ARIA_ROLES = new Set([
+  "alert",
+  "alertdialog",
+  "application",
+  "article",
+  "banner",
+  "blockquote",
+  "button",
+  "caption",
+  "cell",
+  "checkbox",
+  "code",
+  "columnheader",
+  "combobox",
+  "complementary",
+  "contentinfo",
+  "definition",
+  "deletion",
+  "dialog",
+  "directory",
+  "document",
+  "emphasis",
+  "feed",
+  "figure",
+  "form",
+  "generic",
+  "grid",
+  "gridcell",
+  "group",
+  "heading",
+  "img",
+  "insertion",
+  "link",
+  "list",
+  "listbox",
+  "listitem",
+  "log",
+  "main",
+  "marquee",
+  "math",
+  "menu",
+  "menubar",
+  "menuitem",
+  "menuitemcheckbox",
+  "menuitemradio",
+  "meter",
+  "navigation",
+  "none",
+  "note",
+  "option",
+  "paragraph",
+  "presentation",
+  "progressbar",
+  "radio",
+  "radiogroup",
+  "region",
+  "row",
+  "rowgroup",
+  "rowheader",
+  "scrollbar",
+  "search",
+  "searchbox",
+  "separator",
+  "slider",
+  "spinbutton",
+  "status",
+  "strong",
+  "subscript",
+  "superscript",
+  "switch",
+  "tab",
+  "table",
+  "tablist",
+  "tabpanel",
+  "term",
+  "textbox",
+  "time",
+  "timer",
+  "toolbar",
+  "tooltip",
+  "tree",
+  "treegrid",
+  "treeitem",
+]);
+
+const TEXT_PSEUDOS = [":has-text(", ":text-is("];
+const NTH_MATCH = ":nth-match(";
+
+/**
+ * Split a selector into its frame hops, outermost first. A selector without `>>>` comes
+ * back as a single part; every part but the last selects an `<iframe>` or `<frame>`.
+ * A `>>>` inside quotes, brackets or parentheses doesn't split.
+ */
+export function splitFrames(selector: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  for (;;) {
+    const i = findTopLevel(selector, start, (j) => selector.startsWith(FRAME_SEPARATOR, j));
+    if (i === -1) break;
+    parts.push(selector.slice(start, i));
+    start = i + FRAME_SEPARATOR.length;
+  }
+  parts.push(selector.slice(start));
+  return parts.map((part) => part.trim());
+}
+
+/** The alternatives of a selector chain, in the order they're tried. */
+export function selectorAlternatives(chain: SelectorChain): string[] {
+  return typeof chain === "string" ? [chain] : chain;
+}
+
+/** Parse a selector. Throws a SelectorError, naming the selector, if it's malformed. */
+export function parseSelector(selector: string): ParsedSelector {
+  try {
+    return splitFrames(selector).map((hop) => {
+      if (!hop) {
+        throw new SelectorError('Each part of a frame selector ("a >>> b") must be non-empty');
+      }
+      return parseHop(hop);
+    });
+  } catch (err) {
+    if (err instanceof SelectorError) {
+      throw new SelectorError(`Invalid selector "${selector}": ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+/** Why a selector is malformed, or null if it parses. Plain CSS is left to the browser. */
+export function checkSelector(selector: string): string | null {
+  try {
+    parseSelector(selector);
+    return null;
+  } catch (err) {
+    if (err instanceof SelectorError) return err.message;
+    throw err;
+  }
+}
+
+/**
+ * A reading of a selector for people, e.g. `button named "Send" inside iframe#chat`.
+ * Plain CSS comes back unchanged, and so does a selector that doesn't parse.
+ */
+export function describeSelector(selector: string): string {
+  let hops: ParsedSelector;
+  try {
+    hops = parseSelector(selector);
+  } catch {
+    return selector;
+  }
+  const [target, ...frames] = hops.map((steps) => steps.map(describeStep).join(" › ")).reverse();
+  return frames.length > 0 ? `${target} inside ${frames.join(" inside ")}` : target;
+}
+
+function describeStep(step: SelectorStep): string {
+  switch (step.kind) {
+    case "css": {
+      const css = step.css.replace(/^:scope > /, "> ") + (step.also ?? "");
+      const text = step.text.map((t) =>
+        t.exact ? ` with text ${JSON.stringify(t.text)}` : ` containing ${JSON.stringify(t.text)}`,
+      );
+      return css + text.join(" and");
+    }
+    case "nth":
+      return `${ordinal(step.index)} ${step.of.map(describeStep).join(" › ")}`;
+    case "role": {
+      if (!step.name) return `${step.role} (role)`;
+      const name = JSON.stringify(step.name.text);
+      return step.name.exact
+        ? `${step.role} named ${name}`
+        : `${step.role} with a name like ${name}`;
+    }
+    case "xpath":
+      return `XPath ${step.expression}`;
+  }
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : (["th", "st", "nd", "rd"][n % 10] ?? "th");
+  return `${n}${suffix}`;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+function parseHop(hop: string): SelectorStep[] {
+  checkBalanced(hop);
+  if (hop.startsWith("xpath=") || hop.startsWith("//")) {
+    const expression = hop.startsWith("xpath=") ? hop.slice("xpath=".length).trim() : hop;
+    if (!expression) throw new SelectorError("xpath= needs an expression");
+    return [{ kind: "xpath", expression }];
+  }
+  return parseSteps(hop);
+}
+
+/** Parse a chain of steps separated by " " (descendant) or " > " (child). */
+function parseSteps(s: string): SelectorStep[] {
+  const steps: SelectorStep[] = [];
+  let pos = 0;
+  let child = false;
+  while (pos < s.length) {
+    let step: SelectorStep;
+    if (s.startsWith("xpath=", pos)) {
+      throw new SelectorError("xpath= must be a whole selector (or a whole frame hop)");
+    } else if (s.startsWith("role=", pos)) {
+      [step, pos] = parseRole(s, pos);
+    } else if (s.startsWith(NTH_MATCH, pos)) {
+      [step, pos] = parseNthMatch(s, pos);
+    } else {
+      [step, pos] = parseCss(s, pos);
+    }
+    if (child) {
+      if (step.kind !== "css") throw new SelectorError(`Only CSS can follow ">", not ${step.kind}`);
+      step.css = `:scope > ${step.css}`;
+    }
+    steps.push(step);
+
+    const space = /^\s*/.exec(s.slice(pos))![0].length;
+    pos += space;
+    if (pos >= s.length) break;
+    child = s[pos] === ">";
+    if (child) {
+      pos += 1 + /^\s*/.exec(s.slice(pos + 1))![0].length;
+      if (pos >= s.length) throw new SelectorError('Selector ends with ">"');
+    } else if (space === 0 || "+~,".includes(s[pos])) {
+      throw new SelectorError(
+        `Unexpected "${s.slice(pos, pos + 12)}" — after role=, :nth-match() or a text ` +
+          'filter, use a space or ">" to look inside the matches',
+      );
+    }
+  }
+  if (steps.length === 0) throw new SelectorError("Selector is empty");
+  return steps;
+}
+
+/** A CSS run, up to the first of our pseudo-classes, plus any text filters on it. */
+function parseCss(s: string, pos: number): [SelectorStep, number] {
+  const end = findTopLevel(
+    s,
+    pos,
+    (i) =>
+      TEXT_PSEUDOS.some((p) => s.startsWith(p, i)) ||
+      s.startsWith(NTH_MATCH, i) ||
+      ((s.startsWith("role=", i) || s.startsWith("xpath=", i)) && /\s/.test(s[i - 1])),
+  );
+  if (end === -1) return [{ kind: "css", css: s.slice(pos).trim(), text: [] }, s.length];
+
+  const core = s.slice(pos, end);
+  if (!TEXT_PSEUDOS.some((p) => s.startsWith(p, end))) {
+    // :nth-match() or role= starts a new step, which needs a space before it
+    if (!/\s$/.test(core)) {
+      throw new SelectorError(
+        `${s.startsWith(NTH_MATCH, end) ? ":nth-match()" : "role="} must start a selector ` +
+          "or follow a space",
+      );
+    }
+    // Leave the space or ">" before the next step to parseSteps
+    const css = core.replace(/\s*>?\s*$/, "");
+    if (!css) throw new SelectorError('Selector starts with ">"');
+    return [{ kind: "css", css, text: [] }, pos + css.length];
+  }
+
+  if (findTopLevel(core, 0, (i) => core[i] === ",") !== -1) {
+    throw new SelectorError(
+      "Selector lists (a, b) can't be combined with :has-text() or :text-is()",
+    );
+  }
+  // ":has-text()" alone, or after a combinator, filters any element
+  const css = !core.trim() || /[\s>+~]$/.test(core) ? `${core.trim()} *`.trim() : core.trim();
+
+  const text: TextMatch[] = [];
+  let also = "";
+  let p = end;
+  for (;;) {
+    const pseudo = TEXT_PSEUDOS.find((t) => s.startsWith(t, p));
+    if (pseudo) {
+      const [value, next] = readStringArg(s, p + pseudo.length, pseudo.slice(0, -1));
+      text.push({ text: value, exact: pseudo === ":text-is(" });
+      p = next;
+    } else if (p < s.length && !/[\s>+~,]/.test(s[p])) {
+      // More of the same compound selector: li:has-text("x").unread
+      let q = findTopLevel(
+        s,
+        p,
+        (i) => /[\s>+~,]/.test(s[i]) || TEXT_PSEUDOS.some((t) => s.startsWith(t, i)),
+      );
+      if (q === -1) q = s.length;
+      if (s.startsWith(NTH_MATCH, q) || s.slice(p, q).includes(NTH_MATCH)) {
+        throw new SelectorError(":nth-match() must start a selector or follow a space");
+      }
+      also += s.slice(p, q);
+      p = q;
+    } else {
+      break;
+    }
+  }
+  return [{ kind: "css", css, text, ...(also && { also }) }, p];
+}
+
+/** :nth-match(selector, n) — the nth element (from 1) matching the selector. */
+function parseNthMatch(s: string, pos: number): [SelectorStep, number] {
+  const open = pos + NTH_MATCH.length;
+  const close = findTopLevel(s, open, (i) => s[i] === ")");
+  if (close === -1) throw new SelectorError(":nth-match( is missing its closing )");
+  const args = s.slice(open, close);
+  let comma = -1;
+  for (let i = findTopLevel(args, 0, (j) => args[j] === ","); i !== -1; ) {
+    comma = i;
+    i = findTopLevel(args, i + 1, (j) => args[j] === ",");
+  }
+  const index = comma === -1 ? "" : args.slice(comma + 1).trim();
+  if (!/^\d+$/.test(index) || Number(index) < 1) {
+    throw new SelectorError(
+      ":nth-match() needs a selector and a position from 1, e.g. :nth-match(li, 2)",
+    );
+  }
+  const inner = args.slice(0, comma).trim();
+  if (!inner) throw new SelectorError(":nth-match() needs a selector");
+  return [{ kind: "nth", of: parseSteps(inner), index: Number(index) }, close + 1];
+}
+
+/** role=name, optionally followed by [name="..."] with an i (substring) or s (exact) flag. */
+function parseRole(s: string, pos: number): [SelectorStep, number] {
+  const match = /^role=([a-z]+)/.exec(s.slice(pos));
+  if (!match) throw new SelectorError("role= needs a role name, e.g. role=button");
+  const role = match[1];
+  if (!ARIA_ROLES.has(role)) throw new SelectorError(`Unknown ARIA role "${role}"`);
+
+  let p = pos + match[0].length;
+  let name: TextMatch | undefined;
+  while (s[p] === "[") {
+    const close = findTopLevel(s, p + 1, (i) => s[i] === "]");
+    const attr = /^\s*name\s*=\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')\s*([isIS])?\s*$/.exec(
+      s.slice(p + 1, close),
+    );
+    if (close === -1 || !attr) {
+      throw new SelectorError('role= only takes [name="..."], optionally with an i or s flag');
+    }
+    if (name) throw new SelectorError("role= takes one [name=...]");
+    name = { text: unescape(attr[1].slice(1, -1)), exact: attr[2]?.toLowerCase() !== "i" };
+    p = close + 1;
+  }
+  return [{ kind: "role", role, ...(name && { name }) }, p];
+}
+
+/** Read `"..."` or `'...'` then `)` from `pos`. Returns the unescaped string and the index after `)`. */
+function readStringArg(s: string, pos: number, pseudo: string): [string, number] {
+  const arg = /^\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')\s*\)/.exec(s.slice(pos));
+  if (!arg) throw new SelectorError(`${pseudo}() needs a quoted string, e.g. ${pseudo}("Inbox")`);
+  return [unescape(arg[1].slice(1, -1)), pos + arg[0].length];
+}
+
+function unescape(quoted: string): string {
+  return quoted.replace(/\\(.)/g, "$1");
+}
+
+/**
+ * The first index from `start` where `stop` holds outside quotes, brackets and
+ * parentheses, or -1.
+ */
+function findTopLevel(s: string, start: number, stop: (i: number) => boolean): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = start; i < s.length; i++) {
+    const c = s[i];
+    if (quote) {
+      if (c === "\\") i++;
+      else if (c === quote) quote = null;
+      continue;
+    }
+    if (depth === 0 && stop(i)) return i;
+    if (c === "\\") i++;
+    else if (c === '"' || c === "'") quote = c;
+    else if (c === "(" || c === "[") depth++;
+    else if (c === ")" || c === "]") depth--;
+  }
+  return -1;
+}
+
+function checkBalanced(s: string) {
+  const open: string[] = [];
+  let quote: string | null = null;
+  for (let i = 0; i < s.length; i++) {
+    const c = s[i];
+    if (quote) {
+      if (c === "\\") i++;
+      else if (c === quote) quote = null;
+    } else if (c === "\\") {
+      i++;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === "(" || c === "[") {
+      open.push(c === "(" ? ")" : "]");
+    } else if (c === ")" || c === "]") {
+      if (open.pop() !== c) throw new SelectorError(`Unbalanced "${c}"`);
+    }
+  }
+  if (quote) throw new SelectorError(`Unclosed ${quote}`);
+  if (open.length > 0) throw new SelectorError(`Missing "${open[open.length - 1]}"`);
+}
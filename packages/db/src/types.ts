@@ -1,9 +1,15 @@
+/**
+ * A selector, or an ordered list of alternatives for when a page changes: the extension
+ * uses the first alternative that matches and reports which one it was.
+ */
+export type SelectorChain = string | string[];
+
 // ---------------------------------------------------------------------------
 // Tool Field types (discriminated union on `type`)
 // ---------------------------------------------------------------------------
 
 interface FieldBase {
-  selector: string;
+  selector: SelectorChain;
   name: string;
   description: string;
   required?: boolean;
@@ -40,7 +46,7 @@ export interface CheckboxField extends FieldBase {
 export interface RadioOption {
   value: string;
   label: string;
-  selector: string;
+  selector: SelectorChain;
 }
 
 export interface RadioField extends FieldBase {
@@ -56,6 +62,65 @@ export interface HiddenField extends FieldBase {
   type: "hidden";
 }
 
+export interface MultiselectOption {
+  value: string;
+  label: string;
+  /** For checkbox groups: the checkbox for this option. Omit for `<select multiple>`. */
+  selector?: SelectorChain;
+}
+
+/**
+ * Several values at once: a `<select multiple>` at `selector`, or a checkbox group — either
+ * one selector per option, or `selector` matching every checkbox (each picked by its value).
+ */
+export interface MultiselectField extends FieldBase {
+  type: "multiselect";
+  options?: MultiselectOption[];
+}
+
+/** An `<input type="range">` slider. */
+export interface RangeField extends FieldBase {
+  type: "range";
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+/**
+ * An autocomplete input: the value — or, for a known option, its label — is typed into
+ * `selector`, then the suggestion whose text matches it is clicked once it appears.
+ */
+export interface ComboboxField extends FieldBase {
+  type: "combobox";
+  /** Matches the suggestions, e.g. '[role="listbox"] [role="option"]'. */
+  optionSelector: SelectorChain;
+  /** Known values, offered to the agent as examples; their labels are what gets typed. */
+  options?: SelectOption[];
+  /** Ms to wait for a matching suggestion (default 5000). */
+  timeout?: number;
+}
+
+/**
+ * An `<input type="file">`. The agent passes a FileInput (or an array of them when
+ * `multiple` is set) and the extension attaches it as a real file selection.
+ */
+export interface FileField extends FieldBase {
+  type: "file";
+  /** Copied from the input's accept attribute, e.g. ".pdf,image/*". Shown to the agent. */
+  accept?: string;
+  multiple?: boolean;
+}
+
+/** A file passed as a FileField value. */
+export interface FileInput {
+  /** File name, e.g. "report.pdf" */
+  name: string;
+  /** Base64-encoded bytes, or a data: URL */
+  content: string;
+  /** MIME type; taken from a data: URL when omitted, else application/octet-stream */
+  mimeType?: string;
+}
+
 export type ToolField =
   | TextField
   | NumberField
@@ -64,94 +129,284 @@ export type ToolField =
   | CheckboxField
   | RadioField
   | DateField
-  | HiddenField;
+  | HiddenField
+  | FileField
+  | MultiselectField
+  | RangeField
+  | ComboboxField;
 
 // ---------------------------------------------------------------------------
 // Action Step types (discriminated union on `action`)
 // ---------------------------------------------------------------------------
 
-export interface NavigateStep {
+/**
+ * How a failed step is handled. Any step can set these; ExecutionDescriptor sets the
+ * tool-wide default for steps that don't.
+ */
+export interface StepErrorPolicy {
+  /**
+   * "fail" aborts the tool with an error naming the step, "continue" moves on to the
+   * next step, "retry" re-runs the step and fails once retries are used up. Defaults to
+   * "fail", except for wait, waitForUrl, waitForText and waitForNetworkIdle steps, which
+   * continue (a slow page shouldn't abort the tool).
+   */
+  onError?: "fail" | "continue" | "retry";
+  /** Extra attempts when onError is "retry" (default 2). */
+  retries?: number;
+  /** Ms before the first retry, doubled for each one after (default 500). */
+  retryDelay?: number;
+}
+
+/** Loads `url`; the steps after it run on the loaded page. */
+export interface NavigateStep extends StepErrorPolicy {
   action: "navigate";
   url: string; // supports {{paramName}} templates
 }
 
-export interface ClickStep {
+export interface ClickStep extends StepErrorPolicy {
   action: "click";
-  selector: string;
+  selector: SelectorChain;
 }
 
-export interface FillStep {
+export interface FillStep extends StepErrorPolicy {
   action: "fill";
-  selector: string;
+  selector: SelectorChain;
   value: string; // supports {{paramName}} templates
 }
 
-export interface SelectStep {
+export interface SelectStep extends StepErrorPolicy {
   action: "select";
-  selector: string;
+  selector: SelectorChain;
   value: string; // supports {{paramName}} templates
 }
 
-export interface WaitStep {
+export interface WaitStep extends StepErrorPolicy {
   action: "wait";
-  selector: string;
+  selector: SelectorChain;
   state?: "visible" | "exists" | "hidden";
   timeout?: number;
 }
 
-export interface ExtractStep {
+export interface WaitForUrlStep extends StepErrorPolicy {
+  action: "waitForUrl";
+  /**
+   * URL to wait for, written and matched like a urlPattern (:param, * and ** segments,
+   * ?key=value terms, #/hash routes). A pattern starting with "/" is a path on the
+   * current site, e.g. "/thanks?order=:id". Supports {{paramName}} templates.
+   */
+  url: string;
+  /** Default 10000 ms. */
+  timeout?: number;
+}
+
+export interface WaitForNetworkIdleStep extends StepErrorPolicy {
+  action: "waitForNetworkIdle";
+  /** How long no fetch or XHR request may be in flight to count as idle (default 500 ms). */
+  idleTime?: number;
+  /** Default 10000 ms. */
+  timeout?: number;
+}
+
+export interface WaitForTextStep extends StepErrorPolicy {
+  action: "waitForText";
+  /** Text to wait for, matched like :has-text(). Supports {{paramName}} templates. */
+  text: string;
+  /** Only look inside this element; defaults to the whole page. */
+  selector?: SelectorChain;
+  /** Default 5000 ms. */
+  timeout?: number;
+}
+
+export interface ExtractStep extends StepErrorPolicy {
   action: "extract";
-  selector: string;
+  selector: SelectorChain;
   extract: "text" | "html" | "list" | "table" | "attribute";
   attribute?: string;
+  /**
+   * Store the value under this name. Named extracts accumulate into the tool's result
+   * object ({ title, price, ... }) and later steps can reference them as {{$vars.name}}.
+   */
+  as?: string;
 }
 
-export interface ScrollStep {
+export interface ScrollStep extends StepErrorPolicy {
   action: "scroll";
-  selector: string;
+  selector: SelectorChain;
+}
+
+export interface RemoveStep extends StepErrorPolicy {
+  action: "remove";
+  selector: SelectorChain;
+  /** Remove every match instead of just the first. */
+  all?: boolean;
+}
+
+export interface DispatchStep extends StepErrorPolicy {
+  action: "dispatch";
+  selector: SelectorChain;
+  /** Event type, e.g. "change" or a custom event name. */
+  event: string;
+  /** Sent as a CustomEvent's detail; without it a plain Event is dispatched. */
+  detail?: unknown;
+  /** Default true. */
+  bubbles?: boolean;
 }
 
-export interface ConditionStep {
+export interface SetAttributeStep extends StepErrorPolicy {
+  action: "setAttribute";
+  selector: SelectorChain;
+  attribute: string;
+  /** Omit to remove the attribute. Supports {{paramName}} templates. */
+  value?: string;
+}
+
+export interface FocusStep extends StepErrorPolicy {
+  action: "focus";
+  selector: SelectorChain;
+}
+
+export interface PressStep extends StepErrorPolicy {
+  action: "press";
+  /**
+   * KeyboardEvent.key value, e.g. "Enter", "Escape", "ArrowDown", "a", optionally with
+   * modifiers joined by "+": "Control+Enter", "Meta+Shift+k".
+   */
+  key: string;
+  /** Element to send the key to; defaults to the focused element. */
+  selector?: SelectorChain;
+}
+
+export interface HoverStep extends StepErrorPolicy {
+  action: "hover";
+  selector: SelectorChain;
+}
+
+export interface DragStep extends StepErrorPolicy {
+  action: "drag";
+  /** Element to pick up. */
+  selector: SelectorChain;
+  /** Element to drop it on. */
+  to: SelectorChain;
+}
+
+export interface ClearStep extends StepErrorPolicy {
+  action: "clear";
+  /** Text input, textarea or contenteditable to empty. */
+  selector: SelectorChain;
+}
+
+export interface ConditionStep extends StepErrorPolicy {
   action: "condition";
-  selector: string;
+  selector: SelectorChain;
   state: "visible" | "exists" | "hidden";
   then: ActionStep[];
   else?: ActionStep[];
 }
 
-export interface EvaluateStep {
+export interface EvaluateStep extends StepErrorPolicy {
   action: "evaluate";
   value: string;
 }
 
+export interface ForEachStep extends StepErrorPolicy {
+  action: "forEach";
+  selector: SelectorChain;
+  /**
+   * Steps run once per matched element. `{{$item}}` in their selectors refers to the
+   * current element, e.g. `{{$item}} .price`.
+   */
+  steps: ActionStep[];
+  /** Stop after this many elements. */
+  max?: number;
+  /** Store the collected array under this name, like ExtractStep.as. */
+  as?: string;
+}
+
 export type ActionStep =
   | NavigateStep
   | ClickStep
   | FillStep
   | SelectStep
   | WaitStep
+  | WaitForUrlStep
+  | WaitForNetworkIdleStep
+  | WaitForTextStep
   | ExtractStep
   | ScrollStep
+  | RemoveStep
+  | DispatchStep
+  | SetAttributeStep
+  | FocusStep
+  | PressStep
+  | HoverStep
+  | DragStep
+  | ClearStep
   | ConditionStep
-  | EvaluateStep;
+  | EvaluateStep
+  | ForEachStep;
 
 // ---------------------------------------------------------------------------
 // Execution Descriptor
 // ---------------------------------------------------------------------------
 
-export interface ExecutionDescriptor {
-  selector: string;
+/** The StepErrorPolicy fields are the default for every step in `steps`. */
+export interface ExecutionDescriptor extends StepErrorPolicy {
+  selector: SelectorChain;
   fields?: ToolField[];
   autosubmit: boolean;
   submitAction?: "click" | "enter";
-  submitSelector?: string;
-  resultSelector?: string;
+  submitSelector?: SelectorChain;
+  resultSelector?: SelectorChain;
   resultExtract?: "text" | "html" | "attribute" | "table" | "list";
   resultAttribute?: string;
   steps?: ActionStep[];
   resultDelay?: number;
-  resultWaitSelector?: string;
+  resultWaitSelector?: SelectorChain;
   resultRequired?: boolean;
+  /**
+   * JSON Schema for the extracted result. When set, the result is returned as JSON instead
+   * of plain text: `list` → array, `table` → array of row objects keyed by header cells,
+   * and scalars coerced to the declared type (e.g. "$1,299.00" → 1299 for `number`).
+   */
+  outputSchema?: OutputSchema;
+  /** Read `list`/`table` results across multiple pages instead of only what's on screen. */
+  pagination?: Pagination;
+  /**
+   * Submitting loads a new page: the extension waits for it to load and reads the result
+   * there (resultWaitSelector, resultSelector, ...) instead of returning once submitted.
+   */
+  resultAfterNavigation?: boolean;
+}
+
+/**
+ * Multi-page extraction. Items from every page are merged in order — rows a page repeats
+ * from the end of the previous one are merged once — until maxPages or maxItems is
+ * reached or no further page loads.
+ */
+export interface Pagination {
+  /**
+   * "click" a next-page control, or "scroll" the last result into view to trigger
+   * infinite scroll. The next page must load in place (no full page navigation).
+   */
+  mode: "click" | "scroll";
+  /** Next-page control for "click" mode. Pagination stops when it's missing or disabled. */
+  nextSelector?: SelectorChain;
+  /** Pages to read, including the first (default 5). */
+  maxPages?: number;
+  /** Stop once this many items are collected. */
+  maxItems?: number;
+  /** Max ms to wait for each new page's results to appear (default 5000). */
+  timeout?: number;
+}
+
+/** The subset of JSON Schema supported for tool results. */
+export interface OutputSchema {
+  type: "string" | "number" | "integer" | "boolean" | "array" | "object";
+  description?: string;
+  /** Element schema for arrays (list items or table rows). */
+  items?: OutputSchema;
+  /** Property schemas for objects. For table rows, keys are the header cell texts. */
+  properties?: Record<string, OutputSchema>;
 }
 
 // ---------------------------------------------------------------------------
@@ -164,9 +419,38 @@ export interface ToolDescriptor {
   inputSchema: Record<string, unknown>;
   annotations?: Record<string, string>;
   execution?: ExecutionDescriptor;
+  /** Worked examples of calling the tool and what it should return. */
+  examples?: ToolExample[];
   contributor?: string; // set by the server from auth token, not required in submissions
 }
 
+/**
+ * One call of a tool and the result it should give. Examples show agents how the tool
+ * is meant to be used, and can be replayed — against `fixtureHtml`, or the live page —
+ * to check the tool still works.
+ */
+export interface ToolExample {
+  /** What the example shows, e.g. "Search for running shoes". */
+  description?: string;
+  /** Params to call the tool with; keys are inputSchema properties. */
+  input: Record<string, unknown>;
+  expect: ToolExampleExpectation;
+  /** Snapshot of the page to run against. Scripts in it are not run. */
+  fixtureHtml?: string;
+  /** Page to run against instead of a snapshot, when it differs from the config's. */
+  url?: string;
+}
+
+/** What an example's result should look like. Every condition given must hold. */
+export interface ToolExampleExpectation {
+  /** Whether the run should fail, e.g. for an input that matches nothing. */
+  error?: boolean;
+  /** Regular expression the result text must match. */
+  pattern?: string;
+  /** The exact result, for tools with an outputSchema or named extracts. */
+  json?: unknown;
+}
+
 export interface WebMcpConfig {
   id: string;
   domain: string;
@@ -179,6 +463,16 @@ export interface WebMcpConfig {
   totalToolCount?: number;
   contributor: string;
   version: number;
+  /** Set when the config was resolved from a pinned revision (`version=` / `at=`). */
+  latestVersion?: number;
+  /**
+   * Dynamic values captured from the lookup URL by urlPattern, e.g. `{ id: "abc-123" }` for
+   * "example.com/dashboard/:id". Only set when the lookup included a url. Available to
+   * execution templates as `{{url.id}}`.
+   */
+  urlParams?: Record<string, string>;
+  /** Success rates reported by the extension, keyed by tool name. Set on lookups. */
+  toolStats?: Record<string, ToolExecutionStats>;
   verified: boolean;
   verifiedToolNames?: string[];
   createdAt: string;
@@ -186,6 +480,125 @@ export interface WebMcpConfig {
   tags?: string[];
 }
 
+// ---------------------------------------------------------------------------
+// Revision history
+// ---------------------------------------------------------------------------
+
+/** The mutable state of a config at one version. Domain is immutable and not part of it. */
+export interface ConfigSnapshot {
+  urlPattern: string;
+  pageType?: string;
+  title: string;
+  description: string;
+  tags?: string[];
+  tools: ToolDescriptor[];
+}
+
+export type RevisionChangeType =
+  | "config.created"
+  | "config.updated"
+  | "tool.created"
+  | "tool.updated"
+  | "tool.deleted"
+  | "rollback";
+
+export interface ConfigRevisionSummary {
+  configId: string;
+  version: number;
+  changeType: RevisionChangeType;
+  /** Set for tool.* changes. */
+  toolName?: string;
+  /** Set for rollbacks — the version whose snapshot was restored. */
+  restoredFromVersion?: number;
+  /** Who made the change (GitHub login). */
+  contributor: string;
+  createdAt: string;
+}
+
+export interface ConfigRevision extends ConfigRevisionSummary {
+  snapshot: ConfigSnapshot;
+}
+
+export interface RevisionChange {
+  /** Dotted path into the snapshot; tools are keyed by name, e.g. `tools[search].execution.selector`. */
+  path: string;
+  kind: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface RevisionDiff {
+  configId: string;
+  from: number;
+  to: number;
+  changes: RevisionChange[];
+}
+
+// ---------------------------------------------------------------------------
+// Execution telemetry
+// ---------------------------------------------------------------------------
+
+/** How a tool run ended, as classified by the extension. */
+export type ExecutionOutcome = "success" | "not_found" | "timeout" | "no_result" | "error";
+
+/** One anonymous tool run reported by the extension. No user or page data is included. */
+export interface ExecutionReport {
+  configId: string;
+  toolName: string;
+  /** Config version the tool was run at. */
+  version: number;
+  outcome: ExecutionOutcome;
+  durationMs: number;
+}
+
+/** Reported runs of one tool since its content last changed. */
+export interface ToolExecutionStats {
+  runs: number;
+  /** Share of runs that succeeded, 0–1. */
+  successRate: number;
+  avgDurationMs: number;
+  /** Failed runs by outcome. */
+  failures: Partial<Record<Exclude<ExecutionOutcome, "success">, number>>;
+  /** Runs across every config version. Set only when other versions of the tool have runs too. */
+  allVersions?: { runs: number; successRate: number };
+}
+
+// ---------------------------------------------------------------------------
+// Selector health checks
+// ---------------------------------------------------------------------------
+
+/**
+ * "broken" when any checked selector matched nothing on the target page, "unchecked" when
+ * none of the tool's selectors could be checked from a plain page load.
+ */
+export type ToolHealthStatus = "healthy" | "broken" | "unchecked";
+
+export interface SelectorHealth {
+  /** Where the selector sits in the execution, e.g. "selector", "fields[0]", "steps[2]". */
+  path: string;
+  /** The selector checked; for a chain, the alternative that matched, or all of them. */
+  selector: string;
+  /** Which alternative of a selector chain matched, counting from 1 */
+  alternative?: number;
+  /** Elements matched after page load, or null if the selector wasn't checked. */
+  matched: number | null;
+  /** Why the selector wasn't checked, e.g. it only exists after an earlier click. */
+  skipped?: string;
+  /** Set when the selector itself is invalid. */
+  error?: string;
+}
+
+/** Latest headless health check of one tool. */
+export interface ToolHealth {
+  toolName: string;
+  status: ToolHealthStatus;
+  /** Config version that was checked. */
+  configVersion: number;
+  url: string;
+  checkedAt: string;
+  selectors: SelectorHealth[];
+}
+
 export interface ConfigListResponse {
   configs: WebMcpConfig[];
   total: number;
@@ -1,19 +1,296 @@
 // ---------------------------------------------------------------------------
-// URL Pattern Matching — supports :param dynamic segments and ** wildcards
+// URL Pattern Matching — supports :param dynamic segments, constrained params
+// (:id(\d+), :id(uuid), :slug([a-z-]{3,40})), * and ** wildcards, required query
+// keys (?q=:query), hash routes (#/inbox) and subdomain wildcards (*.atlassian.net)
 // ---------------------------------------------------------------------------
 
+// The engine bundles this module into the extension through "@web-mcp-hub/db/url-matching"
+// for waitForUrl steps, so it must not import anything that needs Node or the database.
+
+/** A required query key in a pattern, e.g. `q=:query`, `tab=settings` or bare `q`. */
+interface QueryTerm {
+  key: string;
+  /** Static value to match, or `:name` to capture. Undefined = key must be present. */
+  value?: string;
+}
+
+interface ParsedPattern {
+  path: string;
+  query: QueryTerm[];
+  /** Hash route without the leading "#", e.g. "/inbox/:id". Undefined = hash is ignored. */
+  hash?: string;
+}
+
+interface ParsedUrl {
+  path: string;
+  query: URLSearchParams;
+  hash: string;
+}
+
+/**
+ * Split a urlPattern's "domain/path?query#hash" tail into its parts.
+ * "?" and "#" inside a param constraint (e.g. `:id(\d{2}-?\d)`) don't split.
+ */
+function splitPatternTail(tail: string): { path: string; query?: string; hash?: string } {
+  let depth = 0;
+  let queryIdx = -1;
+  let hashIdx = -1;
+  for (let i = 0; i < tail.length; i++) {
+    const c = tail[i];
+    if (c === "\\") {
+      i++;
+    } else if (c === "(") {
+      depth++;
+    } else if (c === ")") {
+      if (depth > 0) depth--;
+    } else if (depth === 0 && c === "#") {
+      hashIdx = i;
+      break;
+    } else if (depth === 0 && c === "?" && queryIdx < 0) {
+      queryIdx = i;
+    }
+  }
+
+  const end = hashIdx >= 0 ? hashIdx : tail.length;
+  return {
+    path: tail.slice(0, queryIdx >= 0 ? queryIdx : end),
+    query: queryIdx >= 0 ? tail.slice(queryIdx + 1, end) : undefined,
+    hash: hashIdx >= 0 ? tail.slice(hashIdx + 1) : undefined,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Segment constraints — :id(\d+), :id(uuid) and * globs
+// ---------------------------------------------------------------------------
+
+/** Named constraints usable as `:id(uuid)` or `:page(int)`. */
+const NAMED_CONSTRAINTS = new Map<string, string>([
+  ["uuid", "[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}"],
+  ["int", "\\d+"],
+]);
+
+const CONSTRAINED_PARAM_RE = /^:(\w+)\((.+)\)$/;
+
+/** Largest {n,m} repeat bound a constraint may use. */
+const MAX_REPEAT = 1000;
+
+/** One part of a constraint: a character class, escape or literal, repeated min..max times. */
+interface ConstraintAtom {
+  min: number;
+  max: number;
+}
+
+/**
+ * Parse a constraint into its parts. Only character classes ([a-z0-9-], \d, \w, \s and
+ * their negations), `.`, escaped or plain literals and quantifiers (?, *, +, {n},
+ * {n,}, {n,m}) are allowed — no groups, alternation, anchors or backreferences.
+ * Returns an error message, or the parsed atoms.
+ */
+function parseConstraint(source: string): ConstraintAtom[] | string {
+  const atoms: ConstraintAtom[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+    if (c === "[") {
+      let j = i + 1;
+      if (source[j] === "^") j++;
+      if (source[j] === "]") j++;
+      while (j < source.length && source[j] !== "]") j += source[j] === "\\" ? 2 : 1;
+      if (j >= source.length) return `unclosed "["`;
+      i = j + 1;
+    } else if (c === "\\") {
+      const next = source[i + 1];
+      if (next === undefined) return `trailing "\\"`;
+      if (!/[dDwWsS]/.test(next) && /[\da-z]/i.test(next)) return `unsupported escape "\\${next}"`;
+      i += 2;
+    } else if (c === "(" || c === ")") {
+      // An unbalanced ")" would close CONSTRAINED_PARAM_RE's group early and escape the anchors
+      let depth = 0;
+      for (const p of source.replace(/\\.|\[(?:[^\]\\]|\\.)*\]/g, "")) {
+        if (p === "(") depth++;
+        if (p === ")" && --depth < 0) break;
+      }
+      return depth === 0 ? "groups are not supported" : "unbalanced parentheses";
+    } else if ("|^$".includes(c)) {
+      return `"${c}" is not supported`;
+    } else if ("?*+{}".includes(c)) {
+      return `"${c}" must follow a character or class`;
+    } else {
+      i++;
+    }
+
+    let min = 1;
+    let max = 1;
+    const q = source[i];
+    if (q === "?" || q === "*" || q === "+") {
+      min = q === "+" ? 1 : 0;
+      max = q === "?" ? 1 : Infinity;
+      i++;
+    } else if (q === "{") {
+      const bounds = source.slice(i).match(/^\{(\d+)(,(\d*))?\}/);
+      if (!bounds) return "malformed {n,m} repeat";
+      min = Number(bounds[1]);
+      max = bounds[2] === undefined ? min : bounds[3] ? Number(bounds[3]) : Infinity;
+      if (min > max) return "{n,m} repeat has n > m";
+      if (min > MAX_REPEAT || (max !== Infinity && max > MAX_REPEAT)) {
+        return `repeat bounds may not exceed ${MAX_REPEAT}`;
+      }
+      i += bounds[0].length;
+    }
+    if (i < source.length && "?*+{".includes(source[i])) {
+      return "stacked or lazy quantifiers are not supported";
+    }
+    atoms.push({ min, max });
+  }
+  return atoms;
+}
+
+const segmentRegexCache = new Map<string, RegExp | null>();
+
+/**
+ * Compile a constraint (or a glob, when `glob` is set) into a full-segment, case-insensitive
+ * RegExp. Returns null for a constraint validateConstraint rejects — patterns saved before
+ * constraints were restricted may still hold arbitrary regexes, and those never match.
+ */
+function segmentRegex(source: string, glob = false): RegExp | null {
+  const key = `${glob ? "g" : "c"}:${source}`;
+  let re = segmentRegexCache.get(key);
+  if (re === undefined) {
+    if (!glob && validateConstraint(source) !== null) {
+      segmentRegexCache.set(key, null);
+      return null;
+    }
+    const body = glob
+      ? source
+          .split("*")
+          .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+          .join("[^/]*")
+      : (NAMED_CONSTRAINTS.get(source) ?? source);
+    re = new RegExp(`^(?:${body})$`, "i");
+    segmentRegexCache.set(key, re);
+  }
+  return re;
+}
+
 /**
- * Extract the pathname from a urlPattern by stripping the domain prefix.
+ * Check one constraint's syntax. Returns an error message, or null if valid.
+ *
+ * Lookups run constraints server-side against every config on a domain, so free-form
+ * regexes aren't allowed: a constraint is a named constraint or a sequence of classes
+ * and literals in which at most one part repeats a variable number of times. That
+ * keeps backtracking linear in the segment length.
+ */
+function validateConstraint(source: string): string | null {
+  if (NAMED_CONSTRAINTS.has(source)) return null;
+  if (source.includes("/")) return `Param constraint "(${source})" may not contain "/"`;
+  const atoms = parseConstraint(source);
+  if (typeof atoms === "string") {
+    return `Param constraint "(${source})" is not supported: ${atoms}. Use a named constraint (${[...NAMED_CONSTRAINTS.keys()].join(", ")}) or character classes with repeats, e.g. [a-z0-9-]{2,40}`;
+  }
+  if (atoms.filter((atom) => atom.min !== atom.max).length > 1) {
+    return `Param constraint "(${source})" may repeat only one part a variable number of times`;
+  }
+  try {
+    new RegExp(source);
+  } catch {
+    return `Param constraint "(${source})" is not a valid regular expression`;
+  }
+  return null;
+}
+
+/** Check a path, hash or query-value segment. Returns an error message, or null if valid. */
+function validateSegment(segment: string): string | null {
+  if (!segment.startsWith(":")) return null;
+  const constrained = segment.match(CONSTRAINED_PARAM_RE);
+  if (constrained) return validateConstraint(constrained[2]);
+  if (segment.includes("(")) return `Malformed param constraint in "${segment}"`;
+  if (!/^:\w+$/.test(segment)) return `Invalid param name in "${segment}"`;
+  return null;
+}
+
+/** True for a subdomain wildcard domain such as "*.atlassian.net". */
+function isWildcardDomain(domain: string): boolean {
+  return domain.startsWith("*.");
+}
+
+/** The domain part of a urlPattern: "*.slack.com/archives/:id" → "*.slack.com" */
+function patternDomain(urlPattern: string): string {
+  const { path } = splitPatternTail(urlPattern);
+  const slashIdx = path.indexOf("/");
+  return (slashIdx >= 0 ? path.slice(0, slashIdx) : path).toLowerCase();
+}
+
+/**
+ * Check whether a concrete domain falls under a config domain.
+ * "*.slack.com" matches "acme.slack.com" and "eu.acme.slack.com", but not "slack.com".
+ */
+function domainMatches(configDomain: string, domain: string): boolean {
+  if (configDomain === domain) return true;
+  if (!isWildcardDomain(configDomain)) return false;
+  return domain.endsWith(configDomain.slice(1));
+}
+
+/**
+ * All wildcard domains that could cover a concrete domain, most specific first.
+ * Used to look up wildcard configs by exact key.
+ *
+ *   "eu.acme.slack.com" → ["*.acme.slack.com", "*.slack.com"]
+ *   "slack.com"         → []
+ */
+function wildcardDomainsFor(domain: string): string[] {
+  if (isWildcardDomain(domain)) return [];
+  const labels = domain.split(".");
+  const result: string[] = [];
+  for (let i = 1; i <= labels.length - 2; i++) {
+    result.push("*." + labels.slice(i).join("."));
+  }
+  return result;
+}
+
+/**
+ * Check a config domain's wildcard syntax. Returns an error message, or null if valid.
+ * A wildcard must be a single leading "*." label followed by at least two labels.
+ */
+function validateDomain(domain: string): string | null {
+  const rest = isWildcardDomain(domain) ? domain.slice(2) : domain;
+  if (rest.includes("*")) return `"*" is only allowed as a leading "*." label in "${domain}"`;
+  if (isWildcardDomain(domain) && rest.split(".").filter(Boolean).length < 2) {
+    return `Wildcard domain "${domain}" must cover a registrable domain, e.g. "*.example.com"`;
+  }
+  return null;
+}
+
+/**
+ * Check that a urlPattern fits its config domain. Returns an error message, or null if valid.
+ * A wildcard config's urlPattern must start with the same wildcard so the matcher can strip
+ * it, and an exact-domain config can't use a wildcard pattern.
+ */
+function validatePatternDomain(urlPattern: string, domain: string): string | null {
+  const host = patternDomain(urlPattern);
+  if ((isWildcardDomain(domain) || isWildcardDomain(host)) && host !== domain) {
+    return `urlPattern must start with the config domain "${domain}"`;
+  }
+  return null;
+}
+
+/**
+ * Extract the pathname from a urlPattern by stripping the domain prefix
+ * (and any query or hash part).
  *
  *   "example.com/dashboard/:id" → "/dashboard/:id"
+ *   "*.slack.com/archives/:id"  → "/archives/:id"
+ *   "example.com/search?q=:q"   → "/search"
  *   "example.com"               → "/"
  */
 function extractPath(urlPattern: string, domain: string): string {
-  let path = urlPattern;
+  let path = splitPatternTail(urlPattern).path;
 
-  // Strip domain prefix (already normalized lowercase, no www.)
+  // Strip domain prefix (already normalized lowercase, no www.). A wildcard
+  // prefix is stripped whatever the concrete domain is.
   if (path.toLowerCase().startsWith(domain)) {
     path = path.slice(domain.length);
+  } else if (isWildcardDomain(path)) {
+    path = path.slice(patternDomain(path).length);
   }
 
   if (!path.startsWith("/")) path = "/" + path;
@@ -24,6 +301,96 @@ function extractPath(urlPattern: string, domain: string): string {
   return path;
 }
 
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Parse a urlPattern into path, required query terms and hash route.
+ *
+ *   "example.com/search?q=:query&type=images" → path "/search", query [q=:query, type=images]
+ *   "example.com/#/inbox/:id"                 → path "/", hash "/inbox/:id"
+ */
+function parsePattern(urlPattern: string, domain: string): ParsedPattern {
+  const { query, hash } = splitPatternTail(urlPattern);
+  const terms: QueryTerm[] = [];
+  if (query) {
+    for (const part of query.split("&")) {
+      if (!part) continue;
+      const eqIdx = part.indexOf("=");
+      if (eqIdx < 0) {
+        terms.push({ key: safeDecode(part) });
+      } else {
+        terms.push({
+          key: safeDecode(part.slice(0, eqIdx)),
+          value: safeDecode(part.slice(eqIdx + 1)),
+        });
+      }
+    }
+  }
+  return {
+    path: extractPath(urlPattern, domain),
+    query: terms,
+    hash: hash ? hash : undefined,
+  };
+}
+
+/**
+ * Check a urlPattern's domain, param constraints, query and hash syntax. Returns an error message, or null if valid.
+ * Used by createConfigSchema so malformed patterns are rejected at upload time.
+ */
+function validateUrlPattern(urlPattern: string): string | null {
+  const domainError = validateDomain(patternDomain(urlPattern));
+  if (domainError) return domainError;
+
+  const { path, query, hash } = splitPatternTail(urlPattern);
+  for (const segment of [...path.split("/"), ...(hash?.split("/") ?? [])]) {
+    const error = validateSegment(segment);
+    if (error) return error;
+  }
+  if (query !== undefined) {
+    const seen = new Set<string>();
+    for (const part of query.split("&")) {
+      if (!part) continue;
+      const eqIdx = part.indexOf("=");
+      const key = eqIdx < 0 ? part : part.slice(0, eqIdx);
+      const value = eqIdx < 0 ? undefined : part.slice(eqIdx + 1);
+      if (!key) return `Query term "${part}" is missing a key`;
+      if (value === ":") return `Query term "${part}" is missing a capture name after ":"`;
+      const error = value ? validateSegment(value) : null;
+      if (error) return error;
+      if (seen.has(key)) return `Query key "${key}" appears more than once`;
+      seen.add(key);
+    }
+  }
+  if (hash?.includes("#")) return "A urlPattern may contain only one '#'";
+  return null;
+}
+
+/**
+ * The param names a urlPattern captures from path, query values and hash route.
+ *
+ *   "example.com/projects/:projectId?tab=:tab" → ["projectId", "tab"]
+ */
+function urlPatternParams(urlPattern: string): string[] {
+  const { path, query, hash } = splitPatternTail(urlPattern);
+  const segments = [
+    ...path.split("/"),
+    ...(query?.split("&").map((part) => (part.includes("=") ? part.split("=")[1] : "")) ?? []),
+    ...(hash?.split("/") ?? []),
+  ];
+  const names: string[] = [];
+  for (const segment of segments) {
+    const name = segment.match(/^:(\w+)/)?.[1];
+    if (name && !names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
 /**
  * Normalize a raw URL (full or partial) to just its pathname.
  *
@@ -38,7 +405,7 @@ function normalizeUrlToPath(url: string): string {
     return path;
   } catch {
     // Not a full URL — strip protocol-like prefix and domain
-    let path = url.replace(/^https?:\/\//, "");
+    let path = url.replace(/^https?:\/\//, "").replace(/[?#].*$/, "");
     const slashIdx = path.indexOf("/");
     if (slashIdx >= 0) {
       path = path.slice(slashIdx);
@@ -50,39 +417,71 @@ function normalizeUrlToPath(url: string): string {
   }
 }
 
+/** Parse a raw URL (full or "domain/path?query#hash") into path, query and hash. */
+function parseUrl(url: string): ParsedUrl {
+  let parsed: URL | null = null;
+  try {
+    parsed = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(url) ? url : `http://${url}`);
+  } catch {
+    // Fall through to path-only
+  }
+  return {
+    path: normalizeUrlToPath(url),
+    query: parsed?.searchParams ?? new URLSearchParams(),
+    hash: parsed ? parsed.hash.replace(/^#/, "") : "",
+  };
+}
+
 interface MatchResult {
   matched: boolean;
-  /** Higher = more specific. Static segments score 3, dynamic (:param) 2, wildcard (**) 0. */
+  /**
+   * Higher = more specific. Static segments score 3, constrained params (:id(\d+)) and
+   * partial globs (v*) 2.5, dynamic (:param) and * 2, wildcard (**) 0.
+   * Query values score the same way; a bare query key (presence only) scores 1.
+   */
   score: number;
-  /** Captured dynamic params, e.g. { id: "abc-123" } */
+  /** Captured dynamic params (path, query and hash), e.g. { id: "abc-123" } */
   params: Record<string, string>;
 }
 
+const NO_MATCH: MatchResult = { matched: false, score: 0, params: {} };
+
 /**
- * Match a URL against a urlPattern.
- *
- * Pattern segment types:
- *   - `"static"`  — exact match (case-insensitive)      → score +3
- *   - `":param"`  — any single path segment, captured    → score +2
- *   - `"**"`      — matches all remaining segments (must be last) → score +0
- *
- * A domain-only pattern (path = "/") always matches with score 0.
- *
- * The number of segments must match exactly unless a ** wildcard is used.
+ * Match one URL segment (or query value) against a pattern segment, adding any
+ * capture to `params`. Returns the score, or null on mismatch.
  */
-function matchUrlPattern(urlPattern: string, actualUrl: string, domain: string): MatchResult {
-  const patternPath = extractPath(urlPattern, domain);
-  const urlPath = normalizeUrlToPath(actualUrl);
+function matchSegment(ps: string, us: string, params: Record<string, string>): number | null {
+  // Constrained param — like :param, but the value must match the constraint
+  const constrained = ps.match(CONSTRAINED_PARAM_RE);
+  if (constrained) {
+    if (!segmentRegex(constrained[2])?.test(us)) return null;
+    params[constrained[1]] = us;
+    return 2.5;
+  }
 
-  // Domain-only pattern — matches everything on the domain
-  if (patternPath === "/") {
-    return { matched: true, score: 0, params: {} };
+  // Dynamic segment — matches any single segment
+  if (ps.startsWith(":")) {
+    params[ps.slice(1)] = us;
+    return 2;
   }
 
-  const patternSegments = patternPath.split("/").filter(Boolean);
-  const urlSegments = urlPath.split("/").filter(Boolean);
+  // Single-segment glob — bare * is as broad as :param; v* or *.pdf is narrower
+  if (ps === "*") return 2;
+  if (ps.includes("*")) return segmentRegex(ps, true)?.test(us) ? 2.5 : null;
 
-  const params: Record<string, string> = {};
+  // Static segment — exact match (case-insensitive)
+  return ps.toLowerCase() === us.toLowerCase() ? 3 : null;
+}
+
+/**
+ * Match URL segments against pattern segments, adding captures to `params`.
+ * Returns the score, or null on mismatch.
+ */
+function matchSegments(
+  patternSegments: string[],
+  urlSegments: string[],
+  params: Record<string, string>,
+): number | null {
   let score = 0;
 
   for (let i = 0; i < patternSegments.length; i++) {
@@ -91,37 +490,96 @@ function matchUrlPattern(urlPattern: string, actualUrl: string, domain: string):
     // Wildcard — matches everything remaining (adds no score so exact
     // patterns always outrank wildcards at the same depth)
     if (ps === "**") {
-      return { matched: true, score, params };
+      return score;
     }
 
     // Not enough URL segments for this pattern segment
     if (i >= urlSegments.length) {
-      return { matched: false, score: 0, params: {} };
+      return null;
     }
 
-    const us = urlSegments[i];
+    const segmentScore = matchSegment(ps, urlSegments[i], params);
+    if (segmentScore === null) return null;
+    score += segmentScore;
+  }
 
-    // Dynamic segment — matches any single segment
-    if (ps.startsWith(":")) {
-      params[ps.slice(1)] = us;
-      score += 2;
-      continue;
-    }
+  // If the URL has more segments than the pattern, it's not a match
+  // (use ** at the end of the pattern for prefix matching)
+  if (urlSegments.length > patternSegments.length) {
+    return null;
+  }
+
+  return score;
+}
+
+/**
+ * Match a URL against a urlPattern.
+ *
+ * Pattern segment types:
+ *   - `"static"`     — exact match (case-insensitive)                 → score +3
+ *   - `":id(\d+)"`   — single segment matching a class/repeat constraint → score +2.5
+ *   - `":id(uuid)"`  — named constraint (`uuid`, `int`), captured     → score +2.5
+ *   - `"v*"`         — single segment matching a glob                 → score +2.5
+ *   - `":param"`     — any single path segment, captured              → score +2
+ *   - `"*"`          — any single path segment                        → score +2
+ *   - `"**"`         — matches all remaining segments (must be last)  → score +0
+ *
+ * Query terms (`?key=value&key=:param&key`) are required to be present in the URL;
+ * extra URL query keys are ignored. Values match like segments (static +3,
+ * constrained +2.5, `:param` +2) and bare keys only need to be present (+1).
+ *
+ * A hash route (`#/inbox/:id`) is matched segment by segment like the path. Patterns
+ * without a hash ignore the URL's hash.
+ *
+ * A domain-only path (path = "/") matches any path with score 0.
+ *
+ * A wildcard domain prefix (`*.slack.com/...`) must cover `domain`; the score is
+ * unaffected (rankConfigsByUrl puts exact-domain configs first).
+ *
+ * The number of segments must match exactly unless a ** wildcard is used.
+ */
+function matchUrlPattern(urlPattern: string, actualUrl: string, domain: string): MatchResult {
+  const host = patternDomain(urlPattern);
+  if (isWildcardDomain(host) && !domainMatches(host, domain)) return NO_MATCH;
 
-    // Static segment — exact match (case-insensitive)
-    if (ps.toLowerCase() === us.toLowerCase()) {
-      score += 3;
+  const pattern = parsePattern(urlPattern, domain);
+  const url = parseUrl(actualUrl);
+
+  const params: Record<string, string> = {};
+  let score = 0;
+
+  // Domain-only path — matches everything on the domain
+  if (pattern.path !== "/") {
+    const pathScore = matchSegments(
+      pattern.path.split("/").filter(Boolean),
+      url.path.split("/").filter(Boolean),
+      params,
+    );
+    if (pathScore === null) return NO_MATCH;
+    score += pathScore;
+  }
+
+  for (const term of pattern.query) {
+    const actual = url.query.get(term.key);
+    if (actual === null) return NO_MATCH;
+
+    if (term.value === undefined) {
+      score += 1;
       continue;
     }
-
-    // Mismatch
-    return { matched: false, score: 0, params: {} };
+    const valueScore = matchSegment(term.value, actual, params);
+    if (valueScore === null) return NO_MATCH;
+    score += valueScore;
   }
 
-  // If the URL has more segments than the pattern, it's not a match
-  // (use ** at the end of the pattern for prefix matching)
-  if (urlSegments.length > patternSegments.length) {
-    return { matched: false, score: 0, params: {} };
+  if (pattern.hash !== undefined) {
+    const hashScore = matchSegments(
+      pattern.hash.split("/").filter(Boolean),
+      url.hash.split("/").filter(Boolean),
+      params,
+    );
+    if (hashScore === null) return NO_MATCH;
+    score += hashScore;
   }
 
   return { matched: true, score, params };
@@ -130,23 +588,39 @@ function matchUrlPattern(urlPattern: string, actualUrl: string, domain: string):
 /**
  * Rank a list of configs by how well their urlPattern matches an actual URL.
  *
- * Returns only matching configs, sorted most-specific-first.
- * Domain-only patterns (score 0) always match and appear last.
+ * Returns only matching configs, sorted most-specific-first, each with the params
+ * its pattern captured from the URL as `urlParams`. Exact-domain configs always rank
+ * above wildcard-domain (`*.example.com`) configs; within each group, domain-only
+ * patterns (score 0) always match and appear last.
  */
 export function rankConfigsByUrl<T extends { urlPattern: string }>(
   configs: T[],
   actualUrl: string,
   domain: string,
-): T[] {
+): (T & { urlParams: Record<string, string> })[] {
   const scored = configs
     .map((config) => ({
       config,
+      wildcard: isWildcardDomain(patternDomain(config.urlPattern)),
       ...matchUrlPattern(config.urlPattern, actualUrl, domain),
     }))
     .filter((r) => r.matched)
-    .sort((a, b) => b.score - a.score);
+    .sort((a, b) => Number(a.wildcard) - Number(b.wildcard) || b.score - a.score);
 
-  return scored.map((s) => s.config);
+  return scored.map((s) => ({ ...s.config, urlParams: s.params }));
 }
 
-export { extractPath, normalizeUrlToPath, matchUrlPattern };
+export {
+  isWildcardDomain,
+  domainMatches,
+  wildcardDomainsFor,
+  validateDomain,
+  validatePatternDomain,
+  extractPath,
+  normalizeUrlToPath,
+  parsePattern,
+  parseUrl,
+  matchUrlPattern,
+  validateUrlPattern,
+  urlPatternParams,
+};
@@ -1,11 +1,36 @@
 import { z } from "zod";
+import type { OutputSchema } from "./types.js";
+import { checkEvaluateCode } from "./evaluate-check.js";
+import { checkSelector } from "./selector.js";
+import {
+  validateDomain,
+  validatePatternDomain,
+  validateUrlPattern,
+  urlPatternParams,
+} from "./url-matching.js";
+
+// Reject selectors the engine can't parse (role=, :nth-match(), frame hops, ...) at upload
+// time. {{templates}} are filled at run time, so a plain value stands in for them here.
+const checkSelectorSyntax = (val: string, ctx: z.RefinementCtx) => {
+  const error = val ? checkSelector(val.replace(/\{\{[^}]*\}\}/g, "1")) : null;
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+};
+
+const selectorStringSchema = z.string().min(1).max(500).superRefine(checkSelectorSyntax);
+// A selector, or up to 10 fallbacks tried in order (SelectorChain)
+const selectorAlternativesSchema = z.array(selectorStringSchema).min(1).max(10);
+const selectorSchema = z.union([selectorStringSchema, selectorAlternativesSchema]);
+// Like selectorSchema, but an empty string means "not set"
+const optionalSelectorSchema = z
+  .union([z.string().max(500).superRefine(checkSelectorSyntax), selectorAlternativesSchema])
+  .optional();
 
 // ---------------------------------------------------------------------------
 // Tool Field Zod schemas (discriminated union on `type`)
 // ---------------------------------------------------------------------------
 
 const fieldBase = {
-  selector: z.string().min(1).max(500),
+  selector: selectorSchema,
   name: z.string().min(1).max(100),
   description: z.string().min(1).max(2000),
   required: z.boolean().optional(),
@@ -33,7 +58,7 @@ const checkboxFieldSchema = z.object({ ...fieldBase, type: z.literal("checkbox")
 const radioOptionSchema = z.object({
   value: z.string().max(100),
   label: z.string().max(200),
-  selector: z.string().min(1).max(500),
+  selector: selectorSchema,
 });
 
 const radioFieldSchema = z.object({
@@ -45,116 +70,368 @@ const radioFieldSchema = z.object({
 const dateFieldSchema = z.object({ ...fieldBase, type: z.literal("date") });
 const hiddenFieldSchema = z.object({ ...fieldBase, type: z.literal("hidden") });
 
-export const toolFieldSchema = z.discriminatedUnion("type", [
-  textFieldSchema,
-  numberFieldSchema,
-  textareaFieldSchema,
-  selectFieldSchema,
-  checkboxFieldSchema,
-  radioFieldSchema,
-  dateFieldSchema,
-  hiddenFieldSchema,
-]);
+const fileFieldSchema = z.object({
+  ...fieldBase,
+  type: z.literal("file"),
+  accept: z.string().max(500).optional(),
+  multiple: z.boolean().optional(),
+});
+
+const multiselectOptionSchema = z.object({
+  value: z.string().max(100),
+  label: z.string().max(200),
+  selector: selectorSchema.optional(),
+});
+
+const multiselectFieldSchema = z.object({
+  ...fieldBase,
+  type: z.literal("multiselect"),
+  options: z.array(multiselectOptionSchema).max(100).optional(),
+});
+
+const rangeFieldSchema = z.object({
+  ...fieldBase,
+  type: z.literal("range"),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  step: z.number().positive().optional(),
+});
+
+const comboboxFieldSchema = z.object({
+  ...fieldBase,
+  type: z.literal("combobox"),
+  optionSelector: selectorSchema,
+  options: z.array(selectOptionSchema).max(100).optional(),
+  timeout: z.number().int().min(0).max(30000).optional(),
+});
+
+export const toolFieldSchema = z
+  .discriminatedUnion("type", [
+    textFieldSchema,
+    numberFieldSchema,
+    textareaFieldSchema,
+    selectFieldSchema,
+    checkboxFieldSchema,
+    radioFieldSchema,
+    dateFieldSchema,
+    hiddenFieldSchema,
+    fileFieldSchema,
+    multiselectFieldSchema,
+    rangeFieldSchema,
+    comboboxFieldSchema,
+  ])
+  .superRefine((field, ctx) => {
+    // Refinements can't go on discriminated union members, so cross-field checks live here
+    if (field.type === "range" && field.min !== undefined && field.max !== undefined) {
+      if (field.min > field.max) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Range min must not be greater than max",
+          path: ["min"],
+        });
+      }
+    }
+  });
 
 // ---------------------------------------------------------------------------
 // Action Step Zod schemas (discriminated union on `action`, with z.lazy)
 // ---------------------------------------------------------------------------
 
+/** onError / retries / retryDelay — accepted on every step and as the tool-wide default */
+const stepErrorPolicyShape = {
+  onError: z.enum(["fail", "continue", "retry"]).optional(),
+  retries: z.number().int().min(0).max(10).optional(),
+  retryDelay: z.number().int().min(0).max(30000).optional(),
+};
+
 const navigateStepSchema = z.object({
   action: z.literal("navigate"),
+  ...stepErrorPolicyShape,
   url: z.string().min(1).max(2048),
 });
 
 const clickStepSchema = z.object({
   action: z.literal("click"),
-  selector: z.string().min(1).max(500),
+  ...stepErrorPolicyShape,
+  selector: selectorSchema,
 });
 
 const fillStepSchema = z.object({
   action: z.literal("fill"),
-  selector: z.string().min(1).max(500),
+  ...stepErrorPolicyShape,
+  selector: selectorSchema,
   value: z.string().max(10000),
 });
 
 const selectStepSchema = z.object({
   action: z.literal("select"),
-  selector: z.string().min(1).max(500),
+  ...stepErrorPolicyShape,
+  selector: selectorSchema,
   value: z.string().max(500),
 });
 
 const waitStepSchema = z.object({
   action: z.literal("wait"),
-  selector: z.string().min(1).max(500),
+  ...stepErrorPolicyShape,
+  selector: selectorSchema,
   state: z.enum(["visible", "exists", "hidden"]).optional(),
   timeout: z.number().optional(),
 });
 
+const waitForUrlStepSchema = z.object({
+  action: z.literal("waitForUrl"),
+  ...stepErrorPolicyShape,
+  // Matched like a urlPattern, so it's checked like one
+  url: z
+    .string()
+    .min(1)
+    .max(2048)
+    .superRefine((val, ctx) => {
+      const error = validateUrlPattern(val);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+    }),
+  timeout: z.number().int().positive().max(60000).optional(),
+});
+
+const waitForNetworkIdleStepSchema = z.object({
+  action: z.literal("waitForNetworkIdle"),
+  ...stepErrorPolicyShape,
+  idleTime: z.number().int().min(0).max(10000).optional(),
+  timeout: z.number().int().positive().max(60000).optional(),
+});
+
+const waitForTextStepSchema = z.object({
+  action: z.literal("waitForText"),
+  ...stepErrorPolicyShape,
+  text: z.string().min(1).max(500),
+  selector: selectorSchema.optional(),
+  timeout: z.number().int().positive().max(60000).optional(),
+});
+
+/** Name for a collected value, referenced later as {{$vars.name}} */
+const extractNameSchema = z
+  .string()
+  .max(50)
+  .regex(/^\w+$/, "Extract names may only contain letters, digits and underscores");
+
 const extractStepSchema = z.object({
   action: z.literal("extract"),
-  selector: z.string().min(1).max(500),
+  ...stepErrorPolicyShape,
+  selector: selectorSchema,
   extract: z.enum(["text", "html", "list", "table", "attribute"]),
   attribute: z.string().max(200).optional(),
+  as: extractNameSchema.optional(),
 });
 
 const scrollStepSchema = z.object({
   action: z.literal("scroll"),
-  selector: z.string().min(1).max(500),
+  ...stepErrorPolicyShape,
+  selector: selectorSchema,
 });
 
-const EVALUATE_BLOCKLIST =
-  /\b(fetch|XMLHttpRequest|sendBeacon|WebSocket|EventSource|localStorage|sessionStorage|indexedDB|postMessage|BroadcastChannel|eval|Function)\s*\(|document\.cookie|\bimport\s*\(|window\s*\[|document\s*\[|self\s*\[|atob\s*\(|btoa\s*\(/i;
+const removeStepSchema = z.object({
+  action: z.literal("remove"),
+  ...stepErrorPolicyShape,
+  selector: selectorSchema,
+  all: z.boolean().optional(),
+});
+
+const dispatchStepSchema = z.object({
+  action: z.literal("dispatch"),
+  ...stepErrorPolicyShape,
+  selector: selectorSchema,
+  event: z
+    .string()
+    .max(100)
+    .regex(/^[a-zA-Z][\w:.-]*$/, "Event names may only contain letters, digits and _ : . -"),
+  detail: z.unknown().optional(),
+  bubbles: z.boolean().optional(),
+});
+
+// Attributes that load a URL (style through url(...)), which a setAttribute step can't set
+const URL_ATTRIBUTES = new Set([
+  "href",
+  "xlink:href",
+  "src",
+  "srcset",
+  "action",
+  "formaction",
+  "data",
+  "poster",
+  "ping",
+  "background",
+  "codebase",
+  "style",
+]);
+
+const setAttributeStepSchema = z.object({
+  action: z.literal("setAttribute"),
+  ...stepErrorPolicyShape,
+  selector: selectorSchema,
+  attribute: z
+    .string()
+    .max(100)
+    .regex(/^[a-zA-Z_:][\w:.-]*$/, "Invalid attribute name")
+    .refine((name) => !/^on/i.test(name) && name.toLowerCase() !== "srcdoc", {
+      message: "Event handler and srcdoc attributes can't be set",
+    })
+    .refine((name) => !URL_ATTRIBUTES.has(name.toLowerCase()), {
+      message: "Attributes that load a URL (href, src, action, style, ...) can't be set",
+    }),
+  value: z
+    .string()
+    .max(2000)
+    // URL parsing drops tabs, newlines and control characters, so "java\tscript:" still runs
+    .refine((value) => !/^javascript:/i.test(value.replace(/[\p{Cc} ]/gu, "")), {
+      message: "javascript: URLs can't be set as attribute values",
+    })
+    .optional(),
+});
+
+const focusStepSchema = z.object({
+  action: z.literal("focus"),
+  ...stepErrorPolicyShape,
+  selector: selectorSchema,
+});
+
+/** A key, optionally with modifiers: "Enter", "a", "Control+Enter", "Meta+Shift+k", "Control++" */
+const KEY_CHORD_RE =
+  /^(?:(?:Control|Ctrl|Shift|Alt|Option|Meta|Cmd|Command)\+)*(?:.|[A-Z][A-Za-z0-9]*)$/i;
+
+const pressStepSchema = z.object({
+  action: z.literal("press"),
+  ...stepErrorPolicyShape,
+  key: z
+    .string()
+    .min(1)
+    .max(50)
+    .refine((key) => key.includes("{{") || KEY_CHORD_RE.test(key), {
+      message:
+        'Key must be a key name like "Enter" or "a", optionally with modifiers: "Control+Enter"',
+    }),
+  selector: selectorSchema.optional(),
+});
+
+const hoverStepSchema = z.object({
+  action: z.literal("hover"),
+  ...stepErrorPolicyShape,
+  selector: selectorSchema,
+});
+
+const dragStepSchema = z.object({
+  action: z.literal("drag"),
+  ...stepErrorPolicyShape,
+  selector: selectorSchema,
+  to: selectorSchema,
+});
+
+const clearStepSchema = z.object({
+  action: z.literal("clear"),
+  ...stepErrorPolicyShape,
+  selector: selectorSchema,
+});
 
 const evaluateStepSchema = z.object({
   action: z.literal("evaluate"),
+  ...stepErrorPolicyShape,
   value: z
     .string()
     .min(1)
     .max(10000)
-    .refine((code) => !EVALUATE_BLOCKLIST.test(code), {
-      message:
-        "Evaluate code contains a blocked API (network calls, cookie access, eval, dynamic global access, etc.)",
+    .superRefine((code, ctx) => {
+      const error = checkEvaluateCode(code);
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
     }),
 });
 
 // Use z.lazy for the recursive ConditionStep
 const conditionStepSchema: z.ZodType = z.object({
   action: z.literal("condition"),
-  selector: z.string().min(1).max(500),
+  ...stepErrorPolicyShape,
+  selector: selectorSchema,
   state: z.enum(["visible", "exists", "hidden"]),
   then: z.lazy(() => z.array(actionStepSchema).max(20)),
   else: z.lazy(() => z.array(actionStepSchema).max(20)).optional(),
 });
 
+const forEachStepSchema: z.ZodType = z.object({
+  action: z.literal("forEach"),
+  ...stepErrorPolicyShape,
+  selector: selectorSchema,
+  steps: z.lazy(() => z.array(actionStepSchema).min(1).max(20)),
+  max: z.number().int().positive().max(500).optional(),
+  as: extractNameSchema.optional(),
+});
+
 export const actionStepSchema: z.ZodType = z.discriminatedUnion("action", [
   navigateStepSchema,
   clickStepSchema,
   fillStepSchema,
   selectStepSchema,
   waitStepSchema,
+  waitForUrlStepSchema,
+  waitForNetworkIdleStepSchema,
+  waitForTextStepSchema,
   extractStepSchema,
   scrollStepSchema,
+  removeStepSchema,
+  dispatchStepSchema,
+  setAttributeStepSchema,
+  focusStepSchema,
+  pressStepSchema,
+  hoverStepSchema,
+  dragStepSchema,
+  clearStepSchema,
   evaluateStepSchema,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   conditionStepSchema as any, // z.lazy requires cast within discriminatedUnion
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  forEachStepSchema as any,
 ]);
 
 // ---------------------------------------------------------------------------
 // Execution Descriptor
 // ---------------------------------------------------------------------------
 
+const outputSchemaSchema: z.ZodType<OutputSchema> = z.lazy(() =>
+  z.object({
+    type: z.enum(["string", "number", "integer", "boolean", "array", "object"]),
+    description: z.string().max(1000).optional(),
+    items: outputSchemaSchema.optional(),
+    properties: z.record(outputSchemaSchema).optional(),
+  }),
+);
+
+const paginationSchema = z
+  .object({
+    mode: z.enum(["click", "scroll"]),
+    nextSelector: selectorSchema.optional(),
+    maxPages: z.number().int().min(1).max(50).optional(),
+    maxItems: z.number().int().min(1).max(1000).optional(),
+    timeout: z.number().int().positive().max(30000).optional(),
+  })
+  .refine((p) => p.mode !== "click" || p.nextSelector, {
+    message: 'nextSelector is required when pagination mode is "click"',
+    path: ["nextSelector"],
+  });
+
 export const executionDescriptorSchema = z.object({
-  selector: z.string().min(1).max(500),
+  selector: selectorSchema,
   fields: z.array(toolFieldSchema).max(20).optional(),
   autosubmit: z.boolean(),
   submitAction: z.enum(["click", "enter"]).optional(),
-  submitSelector: z.string().max(500).optional(),
-  resultSelector: z.string().max(500).optional(),
+  submitSelector: optionalSelectorSchema,
+  resultSelector: optionalSelectorSchema,
   resultExtract: z.enum(["text", "html", "attribute", "table", "list"]).optional(),
   resultAttribute: z.string().max(200).optional(),
   steps: z.array(actionStepSchema).max(50).optional(),
   resultDelay: z.number().optional(),
-  resultWaitSelector: z.string().max(500).optional(),
+  resultWaitSelector: optionalSelectorSchema,
   resultRequired: z.boolean().optional(),
+  outputSchema: outputSchemaSchema.optional(),
+  pagination: paginationSchema.optional(),
+  resultAfterNavigation: z.boolean().optional(),
+  ...stepErrorPolicyShape,
 });
 
 // ---------------------------------------------------------------------------
@@ -191,6 +468,42 @@ const inputSchemaSchema = z
     }
   });
 
+const isValidRegex = (val: string) => {
+  try {
+    new RegExp(val);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const toolExampleSchema = z
+  .object({
+    description: z.string().max(500).optional(),
+    input: z.record(z.unknown()),
+    expect: z
+      .object({
+        error: z.boolean().optional(),
+        pattern: z
+          .string()
+          .min(1)
+          .max(500)
+          .refine(isValidRegex, "pattern must be a valid regular expression")
+          .optional(),
+        json: z.unknown().optional(),
+      })
+      .refine(
+        (e) => e.error !== undefined || e.pattern !== undefined || e.json !== undefined,
+        "expect needs at least one of error, pattern or json",
+      ),
+    fixtureHtml: z.string().min(1).max(50_000).optional(),
+    url: z.string().url().max(2048).optional(),
+  })
+  .refine((example) => !(example.fixtureHtml && example.url), {
+    message: "An example can run against fixtureHtml or url, not both",
+    path: ["url"],
+  });
+
 // ---------------------------------------------------------------------------
 // Tool & Config schemas (execution added to toolDescriptorSchema)
 // ---------------------------------------------------------------------------
@@ -201,12 +514,121 @@ const toolDescriptorObjectSchema = z.object({
   inputSchema: inputSchemaSchema,
   annotations: z.record(z.string().max(500)).optional(),
   execution: executionDescriptorSchema.optional(),
+  examples: z.array(toolExampleSchema).max(10).optional(),
 });
 
+type TemplateVisitor = (
+  value: string,
+  path: (string | number)[],
+  definedVars: Set<string>,
+  inLoop: boolean,
+) => void;
+
+/**
+ * Visit every templatable string in a step list (nested then/else/forEach bodies
+ * included), tracking which {{$vars}} names are defined and whether it's inside a loop.
+ */
+function walkStepTemplates(
+  steps: Record<string, unknown>[],
+  basePath: (string | number)[],
+  definedVars: Set<string>,
+  inLoop: boolean,
+  visit: TemplateVisitor,
+): void {
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    const path = [...basePath, i];
+    for (const key of ["url", "value", "selector", "key", "to", "text"]) {
+      const value = step[key];
+      if (typeof value === "string") visit(value, [...path, key], definedVars, inLoop);
+      // Selector chains: every alternative
+      if (Array.isArray(value)) {
+        value.forEach((alternative, j) => {
+          if (typeof alternative === "string") {
+            visit(alternative, [...path, key, j], definedVars, inLoop);
+          }
+        });
+      }
+    }
+    if (Array.isArray(step.then)) {
+      walkStepTemplates(step.then, [...path, "then"], definedVars, inLoop, visit);
+    }
+    if (Array.isArray(step.else)) {
+      walkStepTemplates(step.else, [...path, "else"], definedVars, inLoop, visit);
+    }
+    // A loop body sees outer names, but its own extracts are per-item
+    if (Array.isArray(step.steps)) {
+      walkStepTemplates(step.steps, [...path, "steps"], new Set(definedVars), true, visit);
+    }
+    // Defined after the step's own templates, so a step can't reference itself
+    if (typeof step.as === "string") definedVars.add(step.as);
+  }
+}
+
+/**
+ * Check that a tool's {{url.name}} templates refer to params its config's urlPattern
+ * captures. Returns an error message, or null if valid. The tool schema can't see the
+ * urlPattern, so config creation and the tool/config update routes call this.
+ */
+export function validateUrlTemplates(
+  tool: { name: string; execution?: { steps?: unknown[] } },
+  urlPattern: string,
+): string | null {
+  if (!tool.execution?.steps) return null;
+  const captured = urlPatternParams(urlPattern);
+  let error: string | null = null;
+  walkStepTemplates(
+    tool.execution.steps as Record<string, unknown>[],
+    [],
+    new Set(),
+    false,
+    (value) => {
+      for (const m of value.matchAll(/\{\{url\.(\w+)\}\}/g)) {
+        if (error || captured.includes(m[1])) continue;
+        error = `Tool "${tool.name}": template variable "{{url.${m[1]}}}" does not match any urlPattern param. Available: ${captured.join(", ") || "(none)"}`;
+      }
+    },
+  );
+  return error;
+}
+
 export const toolDescriptorSchema = toolDescriptorObjectSchema.superRefine((tool, ctx) => {
-  if (!tool.execution) return;
   const schemaProps = Object.keys((tool.inputSchema.properties as Record<string, unknown>) ?? {});
 
+  // Examples are replayed against the tool, so they need an execution and valid params
+  if (tool.examples) {
+    if (!tool.execution) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "examples require execution metadata",
+        path: ["examples"],
+      });
+    }
+    const required = tool.inputSchema.required ?? [];
+    tool.examples.forEach((example, i) => {
+      for (const key of Object.keys(example.input)) {
+        if (!schemaProps.includes(key)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Example input "${key}" does not match any inputSchema property. Available: ${schemaProps.join(", ") || "(none)"}`,
+            path: ["examples", i, "input", key],
+          });
+        }
+      }
+      for (const key of required) {
+        if (!(key in example.input)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Example input is missing required param "${key}"`,
+            path: ["examples", i, "input"],
+          });
+        }
+      }
+    });
+  }
+
+  if (!tool.execution) return;
+
   // Validate execution field names map to inputSchema properties
   if (tool.execution.fields) {
     for (let i = 0; i < tool.execution.fields.length; i++) {
@@ -221,13 +643,78 @@ export const toolDescriptorSchema = toolDescriptorObjectSchema.superRefine((tool
     }
   }
 
-  // Validate {{paramName}} template variables in steps and selectors
-  if (schemaProps.length > 0 && tool.execution.steps) {
-    const templateRe = /\{\{(\w+)\}\}/g;
-    const checkTemplates = (value: string, path: (string | number)[]) => {
+  // list/table results are always arrays
+  const { outputSchema, resultExtract } = tool.execution;
+  if (
+    outputSchema &&
+    (resultExtract === "list" || resultExtract === "table") &&
+    outputSchema.type !== "array"
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `outputSchema.type must be "array" when resultExtract is "${resultExtract}"`,
+      path: ["execution", "outputSchema", "type"],
+    });
+  }
+
+  // Pagination merges list items / table rows, so it needs one of those modes
+  if (tool.execution.pagination && resultExtract !== "list" && resultExtract !== "table") {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'pagination requires resultExtract "list" or "table"',
+      path: ["execution", "pagination"],
+    });
+  }
+
+  // The result is read on the page the submit loads; steps can't carry on past a page load
+  if (tool.execution.resultAfterNavigation) {
+    if (!tool.execution.autosubmit || tool.execution.steps?.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "resultAfterNavigation requires autosubmit and can't be combined with steps",
+        path: ["execution", "resultAfterNavigation"],
+      });
+    }
+  }
+
+  // Validate template variables in steps and selectors:
+  //   {{paramName}}  — must be an inputSchema property
+  //   {{url.name}}   — a urlPattern capture, checked by validateUrlTemplates
+  //   {{$vars.name}} — must be named by an earlier extract/forEach step's `as`
+  //   {{$item}}      — only inside a forEach step
+  if (tool.execution.steps) {
+    const templateRe = /\{\{([\w.$]+)\}\}/g;
+    const checkTemplates = (
+      value: string,
+      path: (string | number)[],
+      definedVars: Set<string>,
+      inLoop: boolean,
+    ) => {
       let m: RegExpExecArray | null;
       while ((m = templateRe.exec(value)) !== null) {
-        if (!schemaProps.includes(m[1])) {
+        if (/^url\.\w+$/.test(m[1])) continue;
+        if (m[1] === "$item") {
+          if (!inLoop) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `Template variable "{{$item}}" can only be used inside a forEach step`,
+              path,
+            });
+          }
+          continue;
+        }
+        const varName = m[1].match(/^\$vars\.(\w+)$/)?.[1];
+        if (varName !== undefined) {
+          if (!definedVars.has(varName)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: `Template variable "{{${m[1]}}}" is not defined by an earlier extract or forEach step's "as". Defined: ${[...definedVars].join(", ") || "(none)"}`,
+              path,
+            });
+          }
+          continue;
+        }
+        if (schemaProps.length > 0 && !schemaProps.includes(m[1])) {
           ctx.addIssue({
             code: z.ZodIssueCode.custom,
             message: `Template variable "{{${m[1]}}}" does not match any inputSchema property. Available: ${schemaProps.join(", ")}`,
@@ -237,14 +724,13 @@ export const toolDescriptorSchema = toolDescriptorObjectSchema.superRefine((tool
       }
     };
 
-    for (let i = 0; i < tool.execution.steps.length; i++) {
-      const step = tool.execution.steps[i] as Record<string, unknown>;
-      const basePath = ["execution", "steps", i];
-      if (typeof step.url === "string") checkTemplates(step.url, [...basePath, "url"]);
-      if (typeof step.value === "string") checkTemplates(step.value, [...basePath, "value"]);
-      if (typeof step.selector === "string")
-        checkTemplates(step.selector, [...basePath, "selector"]);
-    }
+    walkStepTemplates(
+      tool.execution.steps as Record<string, unknown>[],
+      ["execution", "steps"],
+      new Set(),
+      false,
+      checkTemplates,
+    );
   }
 });
 
@@ -253,6 +739,18 @@ function normalizeUrlPattern(val: string): string {
   return val.replace(/^https?:\/\//, "").replace(/\/+$/, "") || val;
 }
 
+/** Refine a urlPattern to reject malformed query terms and hash routes */
+const urlPatternSyntax = (val: string, ctx: z.RefinementCtx) => {
+  const error = validateUrlPattern(val);
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+};
+
+/** Refine a domain to reject malformed subdomain wildcards */
+const domainSyntax = (val: string, ctx: z.RefinementCtx) => {
+  const error = validateDomain(val);
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+};
+
 /** Refine a tools array to reject duplicate tool names */
 const uniqueToolNames = (tools: z.infer<typeof toolDescriptorSchema>[], ctx: z.RefinementCtx) => {
   const seen = new Set<string>();
@@ -268,23 +766,46 @@ const uniqueToolNames = (tools: z.infer<typeof toolDescriptorSchema>[], ctx: z.R
   }
 };
 
-export const createConfigSchema = z.object({
-  domain: z
-    .string()
-    .min(1)
-    .max(253)
-    .transform((d) => d.toLowerCase().replace(/^www\./, "")),
-  urlPattern: z.string().min(1).max(2048).transform(normalizeUrlPattern),
-  pageType: z.string().max(100).optional(),
-  title: z.string().min(1).max(200),
-  description: z.string().min(1).max(5000),
-  tools: z.array(toolDescriptorSchema).max(30).superRefine(uniqueToolNames),
-  contributor: z.string().min(1).max(39).optional(),
-  tags: z.array(z.string().max(50)).max(10).optional(),
-});
+export const createConfigSchema = z
+  .object({
+    domain: z
+      .string()
+      .min(1)
+      .max(253)
+      .transform((d) => d.toLowerCase().replace(/^www\./, ""))
+      .superRefine(domainSyntax),
+    urlPattern: z
+      .string()
+      .min(1)
+      .max(2048)
+      .transform(normalizeUrlPattern)
+      .superRefine(urlPatternSyntax),
+    pageType: z.string().max(100).optional(),
+    title: z.string().min(1).max(200),
+    description: z.string().min(1).max(5000),
+    tools: z.array(toolDescriptorSchema).max(30).superRefine(uniqueToolNames),
+    contributor: z.string().min(1).max(39).optional(),
+    tags: z.array(z.string().max(50)).max(10).optional(),
+  })
+  .superRefine((config, ctx) => {
+    const error = validatePatternDomain(config.urlPattern, config.domain);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ["urlPattern"] });
+    config.tools.forEach((tool, i) => {
+      const templateError = validateUrlTemplates(tool, config.urlPattern);
+      if (templateError) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: templateError, path: ["tools", i] });
+      }
+    });
+  });
 
 export const updateConfigSchema = z.object({
-  urlPattern: z.string().min(1).max(2048).transform(normalizeUrlPattern).optional(),
+  urlPattern: z
+    .string()
+    .min(1)
+    .max(2048)
+    .transform(normalizeUrlPattern)
+    .superRefine(urlPatternSyntax)
+    .optional(),
   pageType: z.string().max(100).optional(),
   title: z.string().min(1).max(200).optional(),
   description: z.string().min(1).max(5000).optional(),
@@ -293,6 +814,41 @@ export const updateConfigSchema = z.object({
   tags: z.array(z.string().max(50)).max(10).optional(),
 });
 
+export const rollbackSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+export const executionReportSchema = z.object({
+  configId: z.string().uuid(),
+  toolName: z.string().min(1).max(100),
+  version: z.number().int().positive(),
+  outcome: z.enum(["success", "not_found", "timeout", "no_result", "error"]),
+  // Runs can legitimately take a while (pagination, retries), but not over ten minutes
+  durationMs: z.number().int().min(0).max(600_000),
+});
+
+const selectorHealthSchema = z.object({
+  path: z.string().max(200),
+  selector: z.string().max(500),
+  matched: z.number().int().min(0).nullable(),
+  skipped: z.string().max(200).optional(),
+  error: z.string().max(1000).optional(),
+});
+
+export const toolHealthSchema = z.object({
+  toolName: z.string().min(1).max(100),
+  status: z.enum(["healthy", "broken", "unchecked"]),
+  configVersion: z.number().int().positive(),
+  url: z.string().url().max(2048),
+  checkedAt: z.string().datetime(),
+  selectors: z.array(selectorHealthSchema).max(500),
+});
+
+export const healthReportSchema = z.object({
+  configId: z.string().uuid(),
+  results: z.array(toolHealthSchema).min(1).max(50),
+});
+
 // contributor is set server-side from the auth token, not accepted from the request body
 export const addToolSchema = toolDescriptorSchema;
 export const updateToolSchema = toolDescriptorObjectSchema.omit({ name: true }).partial();
@@ -301,3 +857,5 @@ export type CreateConfigInput = z.infer<typeof createConfigSchema>;
 export type UpdateConfigInput = z.infer<typeof updateConfigSchema>;
 export type AddToolInput = z.infer<typeof addToolSchema>;
 export type UpdateToolInput = z.infer<typeof updateToolSchema>;
+export type ExecutionReportInput = z.infer<typeof executionReportSchema>;
+export type HealthReportInput = z.infer<typeof healthReportSchema>;
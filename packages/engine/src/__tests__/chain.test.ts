@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { executeTool } from "../execute.js";
+
+beforeEach(() => {
+  document.body.innerHTML = `
+    <form id="compose">
+      <input name="subject" />
+      <button class="send-v2" type="button">Send</button>
+    </form>
+    <ul id="results"><li>One</li><li>Two</li></ul>`;
+});
+
+// ---------------------------------------------------------------------------
+// Fallback selector chains
+// ---------------------------------------------------------------------------
+
+describe("selector chains", () => {
+  it("uses the first alternative that matches and reports it", async () => {
+    let clicked = 0;
+    document.querySelector(".send-v2")!.addEventListener("click", () => clicked++);
+    const result = await executeTool(
+      "send",
+      {
+        selector: "#compose",
+        autosubmit: false,
+        steps: [
+          { action: "fill", selector: ["#subject", "input[name=subject]"], value: "{{subject}}" },
+          { action: "click", selector: [".send", 'role=button[name="Send"]', ".send-v2"] },
+        ],
+      },
+      { subject: "Hello" },
+    );
+    expect(document.querySelector("input")!.value).toBe("Hello");
+    expect(clicked).toBe(1);
+    expect(result.content[1].text).toBe(
+      [
+        "Selector fallbacks:",
+        'steps[0]: alternative 2 of 2 matched ("input[name=subject]")',
+        'steps[1]: alternative 2 of 3 matched ("role=button[name="Send"]")',
+      ].join("\n"),
+    );
+  });
+
+  it("resolves fields and result selectors in simple mode", async () => {
+    const result = await executeTool(
+      "list",
+      {
+        selector: ["#old-form", "#compose"],
+        autosubmit: false,
+        fields: [
+          {
+            type: "text",
+            selector: ["#subject", "[name=subject]"],
+            name: "subject",
+            description: "",
+          },
+        ],
+        resultSelector: ["#results li", "ol li"],
+        resultExtract: "list",
+        outputSchema: { type: "array", items: { type: "string" } },
+      },
+      { subject: "Hi" },
+    );
+    expect(JSON.parse(result.content[0].text)).toEqual(["One", "Two"]);
+    expect(result.content[1].text).toContain(
+      'fields[0]: alternative 2 of 2 matched ("[name=subject]")',
+    );
+    expect(result.content[1].text).toContain("resultSelector: alternative 1 of 2 matched");
+  });
+
+  it("falls back to the first alternative's error when none matches", async () => {
+    const result = await executeTool(
+      "stale",
+      {
+        selector: "body",
+        autosubmit: false,
+        steps: [{ action: "fill", selector: ["#a", "#b"], value: "x", onError: "fail" }],
+      },
+      {},
+    );
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("Element not found: #a");
+    expect(result.content[2].text).toBe(
+      "Selector fallbacks:\nsteps[0]: none of 2 alternatives matched",
+    );
+  });
+
+  it("adds no report for plain selectors", async () => {
+    const result = await executeTool(
+      "read",
+      { selector: "body", autosubmit: false, resultSelector: "#results" },
+      {},
+    );
+    expect(result.content).toHaveLength(1);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { query, queryAll, isVisible } from "../dom.js";
+import { interpolate, interpolateScript } from "../template.js";
+
+beforeEach(() => {
+  document.body.innerHTML = `
+    <ul id="inbox">
+      <li class="email">Quarterly report <button class="archive">Archive</button></li>
+      <li class="email">It's done <button class="archive">Archive</button></li>
+      <li class="email" style="display: none">Hidden draft</li>
+    </ul>
+    <cart-widget></cart-widget>`;
+  const root = document.querySelector("cart-widget")!.attachShadow({ mode: "open" });
+  root.innerHTML = `<button class="checkout">Checkout</button>`;
+});
+
+// ---------------------------------------------------------------------------
+// query / queryAll
+// ---------------------------------------------------------------------------
+
+describe("query", () => {
+  it("finds elements inside open shadow roots", () => {
+    expect(query(".checkout")?.textContent).toBe("Checkout");
+  });
+
+  it("matches :has-text() and resolves the suffix inside the match", () => {
+    const btn = query('#inbox li:has-text("It\'s done") .archive');
+    expect(btn?.closest("li")?.textContent).toContain("It's done");
+  });
+
+  it("supports single-quoted :has-text()", () => {
+    expect(query("li:has-text('Quarterly')")?.textContent).toContain("Quarterly report");
+  });
+
+  it("interpolates params before querying", () => {
+    expect(query('li:has-text("{{subject}}")', { subject: "Quarterly" })).not.toBeNull();
+  });
+
+  it("returns null when no element has the text", () => {
+    expect(query('li:has-text("Invoice") .archive')).toBeNull();
+  });
+});
+
+describe("queryAll", () => {
+  it("collects the suffix match of every element with the text", () => {
+    expect(queryAll('li:has-text("Archive") .archive')).toHaveLength(2);
+  });
+
+  it("includes matches inside shadow roots", () => {
+    expect(queryAll("button")).toHaveLength(3);
+  });
+});
+
+describe("frame selectors", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `<iframe id="checkout"></iframe>`;
+    const frame = document.querySelector<HTMLIFrameElement>("#checkout")!;
+    frame.contentDocument!.body.innerHTML = `
+      <input name="card" />
+      <p class="line">Subtotal</p><p class="line">Total</p>
+      <iframe class="inner"></iframe>`;
+    const inner = frame.contentDocument!.querySelector<HTMLIFrameElement>(".inner")!;
+    inner.contentDocument!.body.innerHTML = `<input name="cvc" />`;
+  });
+
+  it("finds elements inside same-origin frames", () => {
+    const card = query("iframe#checkout >>> input[name=card]");
+    expect(card?.getAttribute("name")).toBe("card");
+    expect(card?.ownerDocument).not.toBe(document);
+  });
+
+  it("follows nested frames and :has-text() inside them", () => {
+    expect(query("#checkout >>> .inner >>> input")?.getAttribute("name")).toBe("cvc");
+    expect(query('#checkout >>> p:has-text("Total")')?.textContent).toBe("Total");
+    expect(queryAll("#checkout>>>.line")).toHaveLength(2);
+  });
+
+  it("returns nothing when a hop isn't a frame or doesn't exist", () => {
+    expect(query("#missing >>> input")).toBeNull();
+    expect(query("#checkout >>> input >>> input")).toBeNull();
+    expect(queryAll("#missing >>> .line")).toEqual([]);
+  });
+});
+
+describe("selector strategies", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <nav><a href="/inbox">Inbox</a><a href="/sent" aria-label="Sent mail">Sent</a></nav>
+      <label for="q">Search mail</label><input id="q" />
+      <button class="x1">Send</button><button class="x2">Send later</button>
+      <div aria-hidden="true"><button>Send</button></div>
+      <ul>
+        <li class="row">Inbox <span class="count">3</span></li>
+        <li class="row unread">Inbox (old) <span class="count">9</span></li>
+        <li class="row">Drafts <span class="count">1</span></li>
+      </ul>`;
+  });
+
+  it("finds elements by role and exact accessible name", () => {
+    expect(query('role=button[name="Send"]')?.className).toBe("x1");
+    expect(queryAll("role=button")).toHaveLength(2);
+    expect(query('role=textbox[name="Search mail"]')?.id).toBe("q");
+    expect(query('role=link[name="Sent mail"]')?.getAttribute("href")).toBe("/sent");
+    expect(query('role=link[name="Sent"]')).toBeNull();
+  });
+
+  it("matches case-insensitive substrings of names with the i flag", () => {
+    expect(queryAll('role=button[name="send" i]').map((b) => b.className)).toEqual(["x1", "x2"]);
+    expect(query('nav role=link[name="INBOX" i]')?.getAttribute("href")).toBe("/inbox");
+  });
+
+  it("tells :text-is() from :has-text()", () => {
+    expect(queryAll('button:has-text("Send")')).toHaveLength(3);
+    expect(queryAll('button:text-is("Send later")')).toHaveLength(1);
+    expect(query('li:text-is("Inbox 3") .count')?.textContent).toBe("3");
+  });
+
+  it("checks compound CSS after a text filter", () => {
+    expect(query('li:has-text("Inbox").unread .count')?.textContent).toBe("9");
+  });
+
+  it("picks the nth match across the page with :nth-match()", () => {
+    expect(query(":nth-match(li.row, 3) .count")?.textContent).toBe("1");
+    expect(query(':nth-match(li:has-text("Inbox"), 2)')?.className).toBe("row unread");
+    expect(query(":nth-match(li.row, 4)")).toBeNull();
+  });
+
+  it("evaluates XPath against the document", () => {
+    // happy-dom has no XPath engine, so stand in for the browser's
+    const drafts = document.querySelectorAll("li")[2];
+    const evaluate = (expression: string, context: Node) => {
+      expect([expression, context]).toEqual(["//li[3]", document]);
+      return { snapshotLength: 1, snapshotItem: () => drafts } as unknown as XPathResult;
+    };
+    Object.assign(document, { evaluate });
+    try {
+      expect(query("xpath=//li[3]")).toBe(drafts);
+      expect(queryAll("//li[3]")).toEqual([drafts]);
+    } finally {
+      delete (document as Partial<Document>).evaluate;
+    }
+  });
+
+  it("throws on malformed selectors", () => {
+    expect(() => query('role=button[name="Send"')).toThrow("Invalid selector");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// isVisible / interpolate / interpolateScript
+// ---------------------------------------------------------------------------
+
+describe("isVisible", () => {
+  it("treats display: none as hidden", () => {
+    const [first, , hidden] = queryAll("#inbox li");
+    expect(isVisible(first)).toBe(true);
+    expect(isVisible(hidden)).toBe(false);
+  });
+});
+
+describe("interpolate", () => {
+  it("replaces params, URL params and vars, and blanks unknown keys", () => {
+    const params = { q: "shoes", "url.id": "42", "$vars.title": "Hi" };
+    expect(interpolate("{{q}}/{{url.id}}/{{$vars.title}}/{{missing}}", params)).toBe(
+      "shoes/42/Hi/",
+    );
+  });
+});
+
+describe("interpolateScript", () => {
+  it("escapes values so they can't end the string literal they're in", () => {
+    const code = interpolateScript("document.title = '{{q}}'", { q: "'); fetch('x" });
+    expect(code).toBe("document.title = '\\u0027); fetch(\\u0027x'");
+    new Function(code)();
+    expect(document.title).toBe("'); fetch('x");
+  });
+
+  it("escapes template literal substitutions", () => {
+    new Function(interpolateScript("document.title = `{{q}}`", { q: "${1 + 1}`" }))();
+    expect(document.title).toBe("${1 + 1}`");
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { coerceToSchema, extractPaginated, extractResult, resultToText } from "../extract.js";
+
+// ---------------------------------------------------------------------------
+// extractResult
+// ---------------------------------------------------------------------------
+
+describe("extractResult", () => {
+  it("reads rows of header-less tables as arrays of cell texts", () => {
+    document.body.innerHTML = `
+      <table id="t"><tr><td>a</td><td>1</td></tr><tr><td>b</td><td>2</td></tr></table>`;
+    expect(extractResult("#t", "table")).toEqual([
+      ["a", "1"],
+      ["b", "2"],
+    ]);
+  });
+
+  it("keys rows by a header made of <th> cells", () => {
+    document.body.innerHTML = `
+      <table id="t"><tr><th>Name</th><th>Qty</th></tr><tr><td>Pen</td><td>3</td></tr></table>`;
+    expect(extractResult("#t", "table")).toEqual([{ Name: "Pen", Qty: "3" }]);
+  });
+
+  it("returns null for a missing element and trims text", () => {
+    document.body.innerHTML = `<p class="msg">  Saved  </p>`;
+    expect(extractResult(".msg", "text")).toBe("Saved");
+    expect(extractResult(".nope", "text")).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// extractPaginated
+// ---------------------------------------------------------------------------
+
+describe("extractPaginated", () => {
+  /** A list whose "next" button swaps in (or, with `append`, adds) the following page. */
+  function paginatedList(pages: string[][], append = false) {
+    document.body.innerHTML = `<ul id="items"></ul><button id="next">Next</button>`;
+    const list = document.getElementById("items")!;
+    const render = (items: string[]) => items.map((item) => `<li>${item}</li>`).join("");
+    let page = 0;
+    list.innerHTML = render(pages[0]);
+    document.getElementById("next")!.addEventListener("click", () => {
+      if (++page >= pages.length) return;
+      list.innerHTML = append ? list.innerHTML + render(pages[page]) : render(pages[page]);
+    });
+  }
+
+  it("keeps identical rows within a page", async () => {
+    paginatedList([
+      ["Pen", "Pen", "Ink"],
+      ["Pad", "Pad"],
+    ]);
+    const items = await extractPaginated("#items li", "list", {
+      mode: "click",
+      nextSelector: "#next",
+      maxPages: 2,
+    });
+    expect(items).toEqual(["Pen", "Pen", "Ink", "Pad", "Pad"]);
+  });
+
+  it("merges rows a new page repeats from the end of the previous one", async () => {
+    paginatedList([["Pen", "Pen"], ["Ink"], ["Ink", "Pad"]], true);
+    const items = await extractPaginated("#items li", "list", {
+      mode: "click",
+      nextSelector: "#next",
+      maxPages: 3,
+    });
+    expect(items).toEqual(["Pen", "Pen", "Ink", "Ink", "Pad"]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// coerceToSchema / resultToText
+// ---------------------------------------------------------------------------
+
+describe("coerceToSchema", () => {
+  it("parses numbers out of page text", () => {
+    expect(coerceToSchema("$1,299.00", { type: "number" })).toBe(1299);
+    expect(coerceToSchema("4.6 stars", { type: "integer" })).toBe(5);
+    expect(coerceToSchema("n/a", { type: "number" })).toBeNull();
+  });
+
+  it("reads booleans from common words", () => {
+    expect(coerceToSchema("Yes", { type: "boolean" })).toBe(true);
+    expect(coerceToSchema("disabled", { type: "boolean" })).toBe(false);
+  });
+
+  it("wraps single values in arrays and zips header-less rows to properties", () => {
+    expect(coerceToSchema("one", { type: "array" })).toEqual(["one"]);
+    const rows = [["Pen", "3"]];
+    const schema = {
+      type: "array" as const,
+      items: {
+        type: "object" as const,
+        properties: { name: { type: "string" as const }, qty: { type: "integer" as const } },
+      },
+    };
+    expect(coerceToSchema(rows, schema)).toEqual([{ name: "Pen", qty: 3 }]);
+  });
+});
+
+describe("resultToText", () => {
+  it("renders lists, rows and row objects one per line", () => {
+    expect(resultToText(["a", "b"])).toBe("a\nb");
+    expect(resultToText([["a", "1"]])).toBe("a | 1");
+    expect(resultToText([{ Name: "Pen", Qty: "3" }])).toBe("Name: Pen, Qty: 3");
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { fillField, fillToolField } from "../fill.js";
+
+beforeEach(() => {
+  document.body.innerHTML = `
+    <input id="name" />
+    <textarea id="bio"></textarea>
+    <select id="size"><option value="s">S</option><option value="l">L</option></select>
+    <input id="terms" type="checkbox" />
+    <input id="plan-free" type="radio" name="plan" value="free" checked />
+    <input id="plan-pro" type="radio" name="plan" value="pro" />
+    <input id="doc" type="file" />
+    <input id="photos" type="file" multiple />`;
+});
+
+describe("fillField", () => {
+  it("sets the value through the native setter and fires input and change", async () => {
+    const input = document.querySelector<HTMLInputElement>("#name")!;
+    const events: string[] = [];
+    input.addEventListener("input", () => events.push("input"));
+    input.addEventListener("change", () => events.push("change"));
+
+    // React-style instance override that swallows direct assignments
+    Object.defineProperty(input, "value", {
+      configurable: true,
+      get: () => input.getAttribute("data-native") ?? "",
+      set: () => {},
+    });
+    const nativeSetter = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, "value")!;
+    expect(await fillField("#name", "Ada")).toBeNull();
+    expect(nativeSetter.get!.call(input)).toBe("Ada");
+    expect(events).toEqual(["input", "change"]);
+  });
+
+  it("fills textareas, selects and checkboxes", async () => {
+    await fillField("#bio", "Hello");
+    await fillField("#size", "l");
+    await fillField("#terms", true);
+    expect(document.querySelector<HTMLTextAreaElement>("#bio")!.value).toBe("Hello");
+    expect(document.querySelector<HTMLSelectElement>("#size")!.value).toBe("l");
+    expect(document.querySelector<HTMLInputElement>("#terms")!.checked).toBe(true);
+  });
+
+  it("reports a missing element", async () => {
+    expect(await fillField("#nope", "x")).toBe("Element not found: #nope");
+  });
+});
+
+describe("fillToolField", () => {
+  const plan = {
+    type: "radio" as const,
+    selector: "input[name=plan]",
+    name: "plan",
+    description: "Plan",
+    options: [
+      { value: "free", label: "Free", selector: "#plan-free" },
+      { value: "pro", label: "Pro", selector: "#plan-pro" },
+    ],
+  };
+
+  it("checks the radio option matching the value", async () => {
+    expect(await fillToolField(plan, "pro")).toBeNull();
+    expect(document.querySelector<HTMLInputElement>("#plan-pro")!.checked).toBe(true);
+    expect(document.querySelector<HTMLInputElement>("#plan-free")!.checked).toBe(false);
+  });
+
+  it("rejects values with no matching radio option", async () => {
+    expect(await fillToolField(plan, "enterprise")).toBe(
+      'No radio option matches value "enterprise"',
+    );
+  });
+});
+
+describe("fillFileField", () => {
+  const doc = {
+    type: "file" as const,
+    selector: "#doc",
+    name: "doc",
+    description: "Document",
+  };
+
+  it("attaches base64 content as a file and fires change", async () => {
+    const input = document.querySelector<HTMLInputElement>("#doc")!;
+    let changed = false;
+    input.addEventListener("change", () => (changed = true));
+
+    const value = { name: "notes.txt", content: btoa("hello"), mimeType: "text/plain" };
+    expect(await fillToolField(doc, value)).toBeNull();
+    const file = input.files![0];
+    expect(file.name).toBe("notes.txt");
+    expect(file.type).toBe("text/plain");
+    expect(await file.text()).toBe("hello");
+    expect(changed).toBe(true);
+  });
+
+  it("takes the MIME type from a data: URL", async () => {
+    const value = { name: "a.json", content: `data:application/json;base64,${btoa("{}")}` };
+    expect(await fillToolField(doc, value)).toBeNull();
+    const file = document.querySelector<HTMLInputElement>("#doc")!.files![0];
+    expect(file.type).toBe("application/json");
+    expect(await file.text()).toBe("{}");
+  });
+
+  it("attaches several files to a multiple input", async () => {
+    const photos = { ...doc, selector: "#photos", multiple: true };
+    const value = [
+      { name: "a.png", content: btoa("a") },
+      { name: "b.png", content: btoa("b") },
+    ];
+    expect(await fillToolField(photos, value)).toBeNull();
+    const files = document.querySelector<HTMLInputElement>("#photos")!.files!;
+    expect([...files].map((f) => f.name)).toEqual(["a.png", "b.png"]);
+    expect(files[0].type).toBe("application/octet-stream");
+    expect(await fillToolField(doc, value)).toBe("File input takes a single file: #doc");
+  });
+
+  it("rejects values that aren't files", async () => {
+    expect(await fillToolField(doc, "report.pdf")).toBe(
+      "File values need a name and base64 content",
+    );
+    expect(await fillToolField(doc, { name: "x.bin", content: "not base64!" })).toBe(
+      'Content of "x.bin" is not valid base64 or a data: URL',
+    );
+    expect(await fillToolField({ ...doc, selector: "#name" }, { name: "a", content: "" })).toBe(
+      "Element is not a file input: #name",
+    );
+  });
+});
+
+describe("multiselect fields", () => {
+  const base = { type: "multiselect" as const, name: "tags", description: "Tags" };
+
+  it("selects exactly the given values in a <select multiple>", async () => {
+    document.body.innerHTML = `
+      <select id="tags" multiple>
+        <option value="a" selected>A</option><option value="b">B</option><option value="c">C</option>
+      </select>`;
+    expect(await fillToolField({ ...base, selector: "#tags" }, ["b", "c"])).toBeNull();
+    const selected = [...document.querySelector<HTMLSelectElement>("#tags")!.selectedOptions];
+    expect(selected.map((o) => o.value)).toEqual(["b", "c"]);
+    expect(await fillToolField({ ...base, selector: "#tags" }, ["z"])).toBe(
+      'No option matches value "z"',
+    );
+  });
+
+  it("clicks checkboxes in a group so only the given values are checked", async () => {
+    document.body.innerHTML = `
+      <input type="checkbox" name="tag" value="a" checked />
+      <input type="checkbox" name="tag" value="b" />
+      <input type="checkbox" name="tag" value="c" />`;
+    let clicks = 0;
+    document.addEventListener("click", () => clicks++);
+    expect(await fillToolField({ ...base, selector: "input[name=tag]" }, ["b"])).toBeNull();
+    const checked = [...document.querySelectorAll<HTMLInputElement>("input:checked")];
+    expect(checked.map((b) => b.value)).toEqual(["b"]);
+    expect(clicks).toBe(2);
+  });
+
+  it("uses per-option selectors when given", async () => {
+    document.body.innerHTML = `<label><input id="x" type="checkbox" /> X</label>`;
+    const field = {
+      ...base,
+      selector: "label",
+      options: [{ value: "x", label: "X", selector: "#x" }],
+    };
+    expect(await fillToolField(field, ["x"])).toBeNull();
+    expect(document.querySelector<HTMLInputElement>("#x")!.checked).toBe(true);
+  });
+});
+
+describe("combobox fields", () => {
+  const city = {
+    type: "combobox" as const,
+    selector: "#city",
+    name: "city",
+    description: "City",
+    optionSelector: "#suggestions [role=option]",
+    options: [{ value: "NYC", label: "New York" }],
+    timeout: 500,
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = `<input id="city" /><ul id="suggestions"></ul>`;
+    // Suggestions arrive asynchronously, like a search-as-you-type endpoint
+    document.querySelector("#city")!.addEventListener("input", (e) => {
+      const typed = (e.target as HTMLInputElement).value;
+      setTimeout(() => {
+        document.querySelector("#suggestions")!.innerHTML = ["New York", "Newark", "Boston"]
+          .filter((name) => name.toLowerCase().startsWith(typed.toLowerCase().slice(0, 3)))
+          .map((name) => `<li role="option">${name}</li>`)
+          .join("");
+      }, 20);
+    });
+  });
+
+  const picked = () => {
+    const picks: string[] = [];
+    document.querySelector("#suggestions")!.addEventListener("click", (e) => {
+      picks.push((e.target as HTMLElement).textContent!);
+    });
+    return picks;
+  };
+
+  it("types the value and clicks the matching suggestion", async () => {
+    const picks = picked();
+    expect(await fillToolField(city, "Newark")).toBeNull();
+    expect(picks).toEqual(["Newark"]);
+  });
+
+  it("matches a known option's label", async () => {
+    const picks = picked();
+    expect(await fillToolField(city, "NYC")).toBeNull();
+    expect(picks).toEqual(["New York"]);
+  });
+
+  it("fails when no suggestion matches", async () => {
+    expect(await fillToolField(city, "Paris")).toBe(
+      'No suggestion matching "Paris" appeared for #city',
+    );
+  });
+});
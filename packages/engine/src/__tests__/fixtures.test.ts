@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { ToolDescriptor } from "@web-mcp-hub/db";
+import { checkFixture, exampleFixture, type ToolFixture } from "../fixture.js";
+
+// Each fixture is a pair: <name>.html (the page) and <name>.json (tool, input, expect)
+const dir = join(import.meta.dirname, "fixtures");
+const names = readdirSync(dir)
+  .filter((file) => file.endsWith(".json"))
+  .map((file) => file.slice(0, -".json".length));
+
+function load(name: string): ToolFixture {
+  const fixture = JSON.parse(readFileSync(join(dir, `${name}.json`), "utf8"));
+  return { ...fixture, html: readFileSync(join(dir, `${name}.html`), "utf8") };
+}
+
+describe("fixtures", () => {
+  it.each(names)("%s", async (name) => {
+    expect(await checkFixture(load(name))).toEqual([]);
+  });
+});
+
+describe("exampleFixture", () => {
+  const tool: ToolDescriptor = {
+    name: "count-results",
+    description: "Read the result count",
+    inputSchema: { type: "object", properties: {} },
+    execution: { selector: "#summary", autosubmit: false, resultSelector: "#summary" },
+  };
+  const html = `<p id="summary">Showing 24 results</p>`;
+
+  it("replays an example against its page snapshot", async () => {
+    const fixture = exampleFixture(tool, {
+      input: {},
+      expect: { pattern: "^Showing \\d+ results$" },
+      fixtureHtml: html,
+    });
+    expect(await checkFixture(fixture!)).toEqual([]);
+  });
+
+  it("reports a result that doesn't match the pattern", async () => {
+    const fixture = exampleFixture(tool, {
+      input: {},
+      expect: { pattern: "no results" },
+      fixtureHtml: html,
+    });
+    expect(await checkFixture(fixture!)).toEqual([
+      'expected text matching /no results/, got "Showing 24 results"',
+    ]);
+  });
+
+  it("returns null for examples without a snapshot", () => {
+    expect(exampleFixture(tool, { input: {}, expect: { error: false } })).toBeNull();
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { executeTool, handleFrameRequest } from "../execute.js";
+import { setFrameBridge, type FrameRequest, type FrameResponse } from "../frames.js";
+
+let requests: { frame: string; request: FrameRequest }[];
+
+/** Record requests instead of delivering them, answering each with `respond`. */
+function recordBridge(
+  respond: (request: FrameRequest) => FrameResponse = () => ({ result: null }),
+) {
+  requests = [];
+  setFrameBridge(async (frame, request) => {
+    requests.push({ frame: frame.id, request });
+    return respond(request);
+  });
+}
+
+beforeEach(() => {
+  document.body.innerHTML = `<iframe id="checkout"></iframe><p id="status"></p>`;
+  const frame = document.querySelector<HTMLIFrameElement>("#checkout")!;
+  frame.contentDocument!.body.innerHTML = `
+    <form><input name="card" /><button type="submit">Pay</button></form>
+    <p class="total">42.00</p>`;
+});
+
+afterEach(() => setFrameBridge(null));
+
+// ---------------------------------------------------------------------------
+// Routing through a frame bridge
+// ---------------------------------------------------------------------------
+
+describe("with a frame bridge", () => {
+  it("sends fields inside frames with selectors relative to the frame", async () => {
+    recordBridge();
+    const result = await executeTool(
+      "pay",
+      {
+        selector: "body",
+        autosubmit: false,
+        fields: [
+          {
+            type: "text",
+            selector: "#checkout >>> input[name=card]",
+            name: "card",
+            description: "",
+          },
+          {
+            type: "radio",
+            selector: "#checkout >>> .plan",
+            name: "plan",
+            description: "",
+            options: [{ value: "pro", label: "Pro", selector: "#checkout >>> #pro" }],
+          },
+        ],
+      },
+      { card: "4242", plan: "pro" },
+    );
+    expect(result.content[0].text).toBe("Executed pay");
+    expect(requests).toEqual([
+      {
+        frame: "checkout",
+        request: {
+          kind: "fill",
+          field: { type: "text", selector: "input[name=card]", name: "card", description: "" },
+          value: "4242",
+        },
+      },
+      {
+        frame: "checkout",
+        request: {
+          kind: "fill",
+          field: expect.objectContaining({
+            selector: ".plan",
+            options: [{ value: "pro", label: "Pro", selector: "#pro" }],
+          }),
+          value: "pro",
+        },
+      },
+    ]);
+  });
+
+  it("rejects option selectors outside the field's frame", async () => {
+    recordBridge();
+    const result = await executeTool(
+      "pay",
+      {
+        selector: "body",
+        autosubmit: false,
+        fields: [
+          {
+            type: "radio",
+            selector: "#checkout >>> .plan",
+            name: "plan",
+            description: "",
+            options: [{ value: "pro", label: "Pro", selector: "#pro" }],
+          },
+        ],
+      },
+      { plan: "pro" },
+    );
+    expect(result.content[0].text).toContain("#pro is not inside the field's frame #checkout");
+    expect(requests).toEqual([]);
+  });
+
+  it("runs steps in the frame and keeps named extracts here", async () => {
+    recordBridge((request) =>
+      request.kind === "step" && request.step.action === "extract"
+        ? { result: "42.00" }
+        : { result: null },
+    );
+    const result = await executeTool(
+      "pay",
+      {
+        selector: "body",
+        autosubmit: false,
+        steps: [
+          { action: "fill", selector: "#checkout >>> input", value: "{{card}}" },
+          { action: "extract", selector: "#checkout >>> .total", extract: "text", as: "total" },
+          { action: "fill", selector: "#status", value: "{{$vars.total}}" },
+        ],
+      },
+      { card: "4242" },
+    );
+    expect(JSON.parse(result.content[0].text)).toEqual({ total: "42.00" });
+    expect(requests.map((r) => r.request)).toEqual([
+      {
+        kind: "step",
+        step: { action: "fill", selector: "input", value: "{{card}}", onError: "fail" },
+        params: { card: "4242" },
+      },
+      {
+        kind: "step",
+        step: { action: "extract", selector: ".total", extract: "text", onError: "fail" },
+        params: { card: "4242" },
+      },
+    ]);
+  });
+
+  it("fails the step with the frame's error", async () => {
+    recordBridge(() => ({ error: "Element not found: input" }));
+    const result = await executeTool(
+      "pay",
+      {
+        selector: "body",
+        autosubmit: false,
+        steps: [{ action: "fill", selector: "#checkout >>> input", value: "x" }],
+      },
+      {},
+    );
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("steps[0] fill (#checkout >>> input)");
+    expect(result.content[0].text).toContain("Element not found: input");
+  });
+
+  it("reports a bridge that throws as an unresponsive frame", async () => {
+    setFrameBridge(async () => {
+      throw new Error("Could not establish connection");
+    });
+    const result = await executeTool(
+      "pay",
+      {
+        selector: "body",
+        autosubmit: false,
+        steps: [{ action: "click", selector: "#checkout >>> button" }],
+      },
+      {},
+    );
+    expect(result.content[0].text).toContain(
+      "Frame #checkout did not respond: Could not establish connection",
+    );
+  });
+
+  it("submits and reads results inside frames", async () => {
+    recordBridge((request) => ({ result: request.kind === "submit" ? true : "42.00" }));
+    const submitted = await executeTool(
+      "pay",
+      { selector: "#checkout >>> form", autosubmit: true, submitSelector: "#checkout >>> button" },
+      {},
+    );
+    expect(submitted.content[0].text).toBe("Submitted pay");
+    expect(requests[0].request).toEqual({
+      kind: "submit",
+      selector: "button",
+      by: "click",
+      timeout: undefined,
+    });
+
+    const read = await executeTool(
+      "total",
+      { selector: "body", autosubmit: false, resultSelector: "#checkout >>> .total" },
+      {},
+    );
+    expect(read.content[0].text).toBe("42.00");
+  });
+
+  it("leaves selectors without a frame hop in this document", async () => {
+    recordBridge();
+    await executeTool(
+      "status",
+      {
+        selector: "body",
+        autosubmit: false,
+        steps: [{ action: "fill", selector: "#status", value: "ok" }],
+      },
+      {},
+    );
+    expect(requests).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Without a bridge, and the frame side
+// ---------------------------------------------------------------------------
+
+describe("without a frame bridge", () => {
+  it("fills and reads same-origin frames directly", async () => {
+    const result = await executeTool(
+      "pay",
+      {
+        selector: "body",
+        autosubmit: false,
+        fields: [
+          {
+            type: "text",
+            selector: "#checkout >>> input[name=card]",
+            name: "card",
+            description: "",
+          },
+        ],
+        resultSelector: "#checkout >>> .total",
+      },
+      { card: "4242" },
+    );
+    expect(result.content[0].text).toBe("42.00");
+    const frame = document.querySelector<HTMLIFrameElement>("#checkout")!;
+    expect(frame.contentDocument!.querySelector<HTMLInputElement>("input")!.value).toBe("4242");
+  });
+});
+
+describe("handleFrameRequest", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `<input name="card" /><p class="total">42.00</p>`;
+  });
+
+  it("fills fields and runs steps in this document", async () => {
+    const field = { type: "text", selector: "input", name: "card", description: "" } as const;
+    expect(await handleFrameRequest({ kind: "fill", field, value: "4242" })).toEqual({
+      result: null,
+    });
+    expect(document.querySelector("input")!.value).toBe("4242");
+
+    const step = { action: "extract", selector: ".total", extract: "text" } as const;
+    expect(await handleFrameRequest({ kind: "step", step, params: {} })).toEqual({
+      result: "42.00",
+    });
+  });
+
+  it("returns failures as errors", async () => {
+    const field = { type: "text", selector: "#missing", name: "card", description: "" } as const;
+    expect(await handleFrameRequest({ kind: "fill", field, value: "x" })).toEqual({
+      error: "Element not found: #missing",
+    });
+
+    const step = { action: "fill", selector: "#missing", value: "x", onError: "fail" } as const;
+    expect(await handleFrameRequest({ kind: "step", step, params: {} })).toEqual({
+      error: "Element not found: #missing",
+    });
+    expect(await handleFrameRequest({ kind: "submit", selector: "#missing", by: "enter" })).toEqual(
+      { result: false },
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { observeNetwork, setNetworkChannel, waitForNetworkIdle } from "../network.js";
+
+// Requests the test finishes by hand
+const requests: (() => void)[] = [];
+const realFetch = window.fetch;
+
+beforeAll(() => {
+  window.fetch = () =>
+    new Promise<Response>((resolve) => requests.push(() => resolve(new Response())));
+  observeNetwork("test-channel");
+  setNetworkChannel("test-channel");
+});
+
+afterAll(() => {
+  window.fetch = realFetch;
+  setNetworkChannel(null);
+});
+
+// ---------------------------------------------------------------------------
+// waitForNetworkIdle
+// ---------------------------------------------------------------------------
+
+describe("waitForNetworkIdle", () => {
+  it("resolves once no request has been in flight for the idle time", async () => {
+    const start = Date.now();
+    await waitForNetworkIdle(50);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+  });
+
+  it("waits for requests started before and during the wait", async () => {
+    void fetch("/a");
+    let idle = false;
+    const waiting = waitForNetworkIdle(20).then(() => (idle = true));
+
+    await new Promise((r) => setTimeout(r, 40));
+    void fetch("/b");
+    requests.shift()!();
+    await new Promise((r) => setTimeout(r, 40));
+    expect(idle).toBe(false);
+
+    requests.shift()!();
+    await waiting;
+    expect(idle).toBe(true);
+  });
+
+  it("times out while requests are still in flight", async () => {
+    void fetch("/slow");
+    await expect(waitForNetworkIdle(20, 60)).rejects.toThrow(
+      "Timeout waiting for network idle (1 requests in flight)",
+    );
+    requests.shift()!();
+  });
+
+  it("ignores counts announced on other channels", async () => {
+    const waiting = waitForNetworkIdle(20, 200);
+    document.dispatchEvent(new CustomEvent("webmcp-hub:network", { detail: 3 }));
+    await waiting;
+
+    setNetworkChannel(null);
+    void fetch("/unobserved");
+    await waitForNetworkIdle(20, 200);
+    setNetworkChannel("test-channel");
+    requests.shift()!();
+  });
+});
@@ -0,0 +1,28 @@
+// happy-dom doesn't lay pages out, so every element has a 0×0 box and isVisible() would
+// treat the whole page as hidden. Give rendered elements a nominal size instead, leaving
+// visibility down to display/visibility/opacity as in a browser.
+HTMLElement.prototype.getBoundingClientRect = function (this: HTMLElement) {
+  const hidden = (el: Element | null): boolean =>
+    !!el && (getComputedStyle(el).display === "none" || hidden(el.parentElement));
+  return hidden(this) ? new DOMRect(0, 0, 0, 0) : new DOMRect(0, 0, 100, 20);
+};
+
+// happy-dom doesn't implement the draggable property, and its DragEvent is a plain Event
+// that drops the dataTransfer init option
+if (!("draggable" in HTMLElement.prototype)) {
+  Object.defineProperty(HTMLElement.prototype, "draggable", {
+    get(this: HTMLElement) {
+      return this.getAttribute("draggable") === "true";
+    },
+  });
+}
+
+if ((DragEvent as unknown) === Event) {
+  globalThis.DragEvent = class extends MouseEvent {
+    readonly dataTransfer: DataTransfer | null;
+    constructor(type: string, init: DragEventInit = {}) {
+      super(type, init);
+      this.dataTransfer = init.dataTransfer ?? null;
+    }
+  };
+}
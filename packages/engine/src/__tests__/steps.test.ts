@@ -0,0 +1,352 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { ActionStep } from "@web-mcp-hub/db";
+import { executeTool, resumeTool, type WorkflowState } from "../execute.js";
+
+beforeEach(() => {
+  document.body.innerHTML = `
+    <div class="cookie-banner">Accept cookies?</div>
+    <div class="cookie-banner">Really?</div>
+    <nav><button id="menu" aria-expanded="false">Menu</button></nav>
+    <input id="q" readonly />`;
+});
+
+function run(steps: ActionStep[]) {
+  return executeTool("test", { selector: "body", autosubmit: false, steps }, {});
+}
+
+// ---------------------------------------------------------------------------
+// Declarative DOM steps
+// ---------------------------------------------------------------------------
+
+describe("declarative DOM steps", () => {
+  it("removes the first match, or every match with all", async () => {
+    await run([{ action: "remove", selector: ".cookie-banner" }]);
+    expect(document.querySelectorAll(".cookie-banner")).toHaveLength(1);
+    await run([{ action: "remove", selector: ".cookie-banner", all: true }]);
+    expect(document.querySelectorAll(".cookie-banner")).toHaveLength(0);
+  });
+
+  it("sets and removes attributes", async () => {
+    await run([
+      { action: "setAttribute", selector: "#menu", attribute: "aria-expanded", value: "true" },
+      { action: "setAttribute", selector: "#q", attribute: "readonly" },
+    ]);
+    expect(document.querySelector("#menu")!.getAttribute("aria-expanded")).toBe("true");
+    expect(document.querySelector("#q")!.hasAttribute("readonly")).toBe(false);
+  });
+
+  it("refuses URL attributes and javascript: values built from params", async () => {
+    const blocked = await run([
+      { action: "setAttribute", selector: "#menu", attribute: "href", value: "/orders" },
+    ]);
+    expect(blocked.content[0].text).toMatch(/"href" attribute can't be set/);
+
+    const exec = {
+      selector: "body",
+      autosubmit: false,
+      steps: [
+        { action: "setAttribute", selector: "#menu", attribute: "data-x", value: "{{v}}" },
+      ] as ActionStep[],
+    };
+    const result = await executeTool("test", exec, { v: "java\tscript:alert(1)" });
+    expect(result.content[0].text).toMatch(/javascript: URLs can't be set/);
+    expect(document.querySelector("#menu")!.hasAttribute("data-x")).toBe(false);
+  });
+
+  it("dispatches plain and custom events", async () => {
+    const seen: unknown[] = [];
+    document.body.addEventListener("change", (e) => seen.push(e.type));
+    document.body.addEventListener("app:refresh", (e) => seen.push((e as CustomEvent).detail));
+    await run([
+      { action: "dispatch", selector: "#q", event: "change" },
+      { action: "dispatch", selector: "#menu", event: "app:refresh", detail: { page: 2 } },
+    ]);
+    expect(seen).toEqual(["change", { page: 2 }]);
+  });
+
+  it("hovers with pointer and mouse events", async () => {
+    const seen: string[] = [];
+    const menu = document.querySelector("#menu")!;
+    for (const type of ["pointerover", "pointerenter", "mouseover", "mouseenter", "mousemove"]) {
+      menu.addEventListener(type, () => seen.push(type));
+    }
+    await run([{ action: "hover", selector: "#menu" }]);
+    expect(seen).toEqual(["pointerover", "pointerenter", "mouseover", "mouseenter", "mousemove"]);
+  });
+
+  it("focuses an element and presses keys on the focused element", async () => {
+    const keys: string[] = [];
+    document.querySelector("#q")!.addEventListener("keydown", (e) => {
+      keys.push(`${(e as KeyboardEvent).key}:${(e as KeyboardEvent).code}`);
+    });
+    await run([
+      { action: "focus", selector: "#q" },
+      { action: "press", key: "ArrowDown" },
+      { action: "press", key: "a", selector: "#q" },
+    ]);
+    expect(document.activeElement?.id).toBe("q");
+    expect(keys).toEqual(["ArrowDown:ArrowDown", "a:KeyA"]);
+  });
+
+  it("sends key chords with modifier flags and modifier keydown/keyup", async () => {
+    const events: string[] = [];
+    const input = document.querySelector("#q")!;
+    for (const type of ["keydown", "keypress", "keyup"]) {
+      input.addEventListener(type, (e) => {
+        const k = e as KeyboardEvent;
+        events.push(`${type}:${k.key}${k.ctrlKey ? "+ctrl" : ""}`);
+      });
+    }
+    await run([{ action: "press", key: "Control+Enter", selector: "#q" }]);
+    expect(events).toEqual([
+      "keydown:Control+ctrl",
+      "keydown:Enter+ctrl",
+      "keyup:Enter+ctrl",
+      "keyup:Control",
+    ]);
+  });
+
+  it("drags draggable elements with HTML5 drag events", async () => {
+    document.body.innerHTML = `
+      <ul><li id="a" draggable="true">A</li><li id="b">B</li></ul>`;
+    const events: string[] = [];
+    const b = document.querySelector("#b")!;
+    document.querySelector("#a")!.addEventListener("dragstart", (e) => {
+      (e as DragEvent).dataTransfer!.setData("text/plain", "a");
+      events.push("dragstart");
+    });
+    b.addEventListener("dragover", (e) => e.preventDefault());
+    b.addEventListener("drop", (e) => {
+      events.push(`drop:${(e as DragEvent).dataTransfer!.getData("text/plain")}`);
+    });
+    await run([{ action: "drag", selector: "#a", to: "#b" }]);
+    expect(events).toEqual(["dragstart", "drop:a"]);
+  });
+
+  it("drags other elements with pointer and mouse events", async () => {
+    document.body.innerHTML = `<div id="handle">≡</div><div id="slot"></div>`;
+    const events: string[] = [];
+    for (const type of ["pointerdown", "pointermove", "pointerup", "mouseup"]) {
+      document.addEventListener(type, (e) => {
+        const target = (e.target as Element).id;
+        if (events.at(-1) !== `${type}@${target}`) events.push(`${type}@${target}`);
+      });
+    }
+    await run([{ action: "drag", selector: "#handle", to: "#slot" }]);
+    expect(events).toEqual([
+      "pointermove@handle",
+      "pointerdown@handle",
+      "pointermove@handle",
+      "pointermove@slot",
+      "pointerup@slot",
+      "mouseup@slot",
+    ]);
+  });
+
+  it("clears inputs through the native setter", async () => {
+    const input = document.querySelector<HTMLInputElement>("#q")!;
+    input.value = "old";
+    let inputEvents = 0;
+    input.addEventListener("input", () => inputEvents++);
+    await run([{ action: "clear", selector: "#q" }]);
+    expect(input.value).toBe("");
+    expect(inputEvents).toBe(1);
+  });
+
+  it("reports a missing target as a step error", async () => {
+    const result = await run([{ action: "hover", selector: "#nope" }]);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("steps[0] hover (#nope): Hover target not found");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Waiting on the page
+// ---------------------------------------------------------------------------
+
+describe("page waits", () => {
+  it("waits for text to appear, optionally inside an element", async () => {
+    setTimeout(() => document.querySelector("nav")!.append(" Order   #42 placed"), 50);
+    const result = await run([
+      { action: "waitForText", text: "Order #42 placed", selector: "nav", onError: "fail" },
+      { action: "extract", selector: "nav", extract: "text" },
+    ]);
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toMatch(/Order\s+#42 placed/);
+  });
+
+  it("waits for the URL to match a pattern", async () => {
+    setTimeout(() => history.pushState(null, "", "/thanks?order=42"), 50);
+    const result = await run([
+      { action: "waitForUrl", url: "/thanks?order=:id(\\d+)", onError: "fail" },
+      { action: "extract", selector: "nav", extract: "text" },
+    ]);
+    expect(result.isError).toBeUndefined();
+  });
+
+  it("matches the whole path, like a urlPattern", async () => {
+    history.pushState(null, "", "/thanksgiving?next=/thanks");
+    const partial = await run([
+      { action: "waitForUrl", url: "/thanks", timeout: 50, onError: "fail" },
+    ]);
+    expect(partial.isError).toBe(true);
+
+    const glob = await run([{ action: "waitForUrl", url: "/thanks*", onError: "fail" }]);
+    expect(glob.isError).toBeUndefined();
+  });
+
+  it("continues past a wait that times out unless told to fail", async () => {
+    const continued = await run([
+      { action: "waitForText", text: "Never", timeout: 50 },
+      { action: "extract", selector: "#menu", extract: "text" },
+    ]);
+    expect(continued.content[0].text).toBe("Menu");
+
+    const failed = await run([
+      { action: "waitForUrl", url: "/never", timeout: 50, onError: "fail" },
+    ]);
+    expect(failed.isError).toBe(true);
+    expect(failed.content[0].text).toContain("steps[0] waitForUrl: Timeout waiting for URL /never");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Workflows across page loads
+// ---------------------------------------------------------------------------
+
+describe("navigating workflows", () => {
+  const exec = {
+    selector: "body",
+    autosubmit: false,
+    steps: [
+      { action: "extract", selector: "#menu", extract: "text", as: "menu" },
+      { action: "navigate", url: "/results?q={{query}}" },
+      {
+        action: "setAttribute",
+        selector: "#menu",
+        attribute: "data-q",
+        value: "{{query}} via {{$vars.menu}}",
+      },
+      { action: "extract", selector: "#menu", extract: "attribute", attribute: "data-q", as: "q" },
+    ] as ActionStep[],
+  };
+
+  it("hands the remaining steps over at a navigate step and resumes from them", async () => {
+    const handedOver: WorkflowState[] = [];
+    const onNavigate = async (state: WorkflowState) => {
+      handedOver.push(structuredClone(state));
+    };
+    const first = await executeTool("search", exec, { query: "shoes" }, { onNavigate });
+    expect(first.content[0].text).toBe("Navigating to /results?q=shoes");
+    expect(location.pathname + location.search).toBe("/results?q=shoes");
+    expect(handedOver).toEqual([
+      {
+        next: [2],
+        params: { query: "shoes", "$vars.menu": "Menu" },
+        vars: { menu: "Menu" },
+        matches: [],
+      },
+    ]);
+    // Steps after the navigate didn't run on the page being left
+    expect(document.querySelector("#menu")!.hasAttribute("data-q")).toBe(false);
+
+    const resumed = await resumeTool("search", exec, handedOver[0]);
+    expect(JSON.parse(resumed.content[0].text)).toEqual({
+      menu: "Menu",
+      q: "shoes via Menu",
+    });
+  });
+
+  it("runs straight through without onNavigate, and ends on a final navigate", async () => {
+    const result = await executeTool("search", exec, { query: "hats" });
+    expect(JSON.parse(result.content[0].text).q).toBe("hats via Menu");
+
+    let handedOver = false;
+    const last = await executeTool(
+      "open",
+      { ...exec, steps: [{ action: "navigate", url: "#done" }] },
+      {},
+      { onNavigate: async () => void (handedOver = true) },
+    );
+    expect(handedOver).toBe(false);
+    expect(last.content[0].text).toBe("Navigating to #done");
+  });
+
+  it("stays on the page for a navigate that only changes the #fragment", async () => {
+    let handedOver = false;
+    const steps = exec.steps.map((step) =>
+      step.action === "navigate" ? { ...step, url: "#results?q={{query}}" } : step,
+    );
+    const result = await executeTool(
+      "search",
+      { ...exec, steps },
+      { query: "socks" },
+      { onNavigate: async () => void (handedOver = true) },
+    );
+    expect(handedOver).toBe(false);
+    expect(location.hash).toBe("#results?q=socks");
+    expect(JSON.parse(result.content[0].text).q).toBe("socks via Menu");
+  });
+
+  it("hands off from inside a condition's branch and resumes in it", async () => {
+    const branching = {
+      ...exec,
+      steps: [
+        {
+          action: "condition",
+          selector: ".cookie-banner",
+          state: "exists",
+          then: exec.steps.slice(0, 3),
+          else: [{ action: "navigate", url: "/missing" }],
+        },
+        exec.steps[3],
+      ] as ActionStep[],
+    };
+    const handedOver: WorkflowState[] = [];
+    const onNavigate = async (state: WorkflowState) => {
+      handedOver.push(structuredClone(state));
+    };
+    await executeTool("search", branching, { query: "boots" }, { onNavigate });
+    expect(handedOver.map((state) => state.next)).toEqual([[0, "then", 2]]);
+
+    // The condition isn't checked again on the new page
+    document.querySelectorAll(".cookie-banner").forEach((el) => el.remove());
+    const resumed = await resumeTool("search", branching, handedOver[0]);
+    expect(JSON.parse(resumed.content[0].text).q).toBe("boots via Menu");
+  });
+
+  it("ends the run on this page when the navigate is the last step of a branch", async () => {
+    const handedOver: WorkflowState[] = [];
+    const result = await executeTool(
+      "open",
+      {
+        ...exec,
+        steps: [
+          { action: "condition", selector: "#menu", state: "exists", then: [exec.steps[1]] },
+        ] as ActionStep[],
+      },
+      { query: "caps" },
+      { onNavigate: async (state) => void handedOver.push(state) },
+    );
+    expect(handedOver).toEqual([]);
+    expect(result.content[0].text).toBe("Navigating to /results?q=caps");
+  });
+
+  it("won't load a new page from inside forEach", async () => {
+    const result = await executeTool(
+      "each",
+      {
+        ...exec,
+        steps: [
+          { action: "forEach", selector: ".cookie-banner", steps: [exec.steps[1]] },
+          exec.steps[0],
+        ] as ActionStep[],
+      },
+      { query: "none" },
+      { onNavigate: async () => {} },
+    );
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("steps[0] forEach");
+    expect(location.search).not.toBe("?q=none");
+  });
+});
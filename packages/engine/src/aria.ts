@@ -0,0 +1,184 @@
+import type { TextMatch } from "@web-mcp-hub/db/selector";
+
+// ---------------------------------------------------------------------------
+// ARIA roles and accessible names, for role= selectors
+// ---------------------------------------------------------------------------
+
+// A simplified take on HTML-AAM and accname: enough to find controls by what screen
+// readers announce, without computing the full accessibility tree.
+
+const INPUT_ROLES: Record<string, string> = {
+  button: "button",
+  image: "button",
+  reset: "button",
+  submit: "button",
+  checkbox: "checkbox",
+  radio: "radio",
+  range: "slider",
+  number: "spinbutton",
+  search: "searchbox",
+  email: "textbox",
+  tel: "textbox",
+  text: "textbox",
+  url: "textbox",
+};
+
+const TAG_ROLES: Record<string, string> = {
+  article: "article",
+  aside: "complementary",
+  blockquote: "blockquote",
+  button: "button",
+  details: "group",
+  dialog: "dialog",
+  fieldset: "group",
+  figure: "figure",
+  form: "form",
+  h1: "heading",
+  h2: "heading",
+  h3: "heading",
+  h4: "heading",
+  h5: "heading",
+  h6: "heading",
+  hr: "separator",
+  li: "listitem",
+  main: "main",
+  menu: "list",
+  meter: "meter",
+  nav: "navigation",
+  ol: "list",
+  option: "option",
+  output: "status",
+  p: "paragraph",
+  progress: "progressbar",
+  table: "table",
+  tbody: "rowgroup",
+  td: "cell",
+  textarea: "textbox",
+  tfoot: "rowgroup",
+  th: "columnheader",
+  thead: "rowgroup",
+  tr: "row",
+  ul: "list",
+};
+
+// Roles whose accessible name comes from their text when nothing else names them
+const NAME_FROM_CONTENT = new Set([
+  "button",
+  "cell",
+  "checkbox",
+  "columnheader",
+  "gridcell",
+  "heading",
+  "link",
+  "menuitem",
+  "menuitemcheckbox",
+  "menuitemradio",
+  "option",
+  "radio",
+  "row",
+  "rowheader",
+  "switch",
+  "tab",
+  "tooltip",
+  "treeitem",
+]);
+
+const LABELABLE = new Set(["INPUT", "METER", "OUTPUT", "PROGRESS", "SELECT", "TEXTAREA"]);
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/** The element's ARIA role: its role attribute, or the one its tag implies. */
+export function roleOf(el: Element): string | null {
+  const explicit = el.getAttribute("role")?.trim().split(/\s+/)[0];
+  if (explicit) return explicit;
+
+  const tag = el.tagName.toLowerCase();
+  switch (tag) {
+    case "a":
+    case "area":
+      return el.hasAttribute("href") ? "link" : null;
+    case "img":
+      return el.getAttribute("alt") === "" ? "presentation" : "img";
+    case "input": {
+      const type = (el.getAttribute("type") ?? "text").toLowerCase();
+      if (el.hasAttribute("list") && ["email", "search", "tel", "text", "url"].includes(type)) {
+        return "combobox";
+      }
+      return INPUT_ROLES[type] ?? null;
+    }
+    case "select": {
+      const select = el as HTMLSelectElement;
+      return select.multiple || select.size > 1 ? "listbox" : "combobox";
+    }
+    case "section":
+      return el.hasAttribute("aria-label") || el.hasAttribute("aria-labelledby") ? "region" : null;
+    case "header":
+    case "footer":
+      // Only page-level headers and footers are landmarks
+      if (el.parentElement?.closest("article, aside, main, nav, section")) return null;
+      return tag === "header" ? "banner" : "contentinfo";
+    default:
+      return TAG_ROLES[tag] ?? null;
+  }
+}
+
+/** The element's accessible name, whitespace-normalized. */
+export function accessibleName(el: Element): string {
+  const labelledBy = el.getAttribute("aria-labelledby");
+  if (labelledBy) {
+    const doc = el.ownerDocument;
+    const text = labelledBy
+      .split(/\s+/)
+      .map((id) => doc.getElementById(id)?.textContent ?? "")
+      .join(" ");
+    if (normalize(text)) return normalize(text);
+  }
+
+  const label = normalize(el.getAttribute("aria-label") ?? "");
+  if (label) return label;
+
+  if (LABELABLE.has(el.tagName)) {
+    const labels = [...((el as HTMLInputElement).labels ?? [])];
+    const text = normalize(labels.map((l) => l.textContent ?? "").join(" "));
+    if (text) return text;
+  }
+
+  if (el.tagName === "INPUT") {
+    const input = el as HTMLInputElement;
+    const type = input.type.toLowerCase();
+    if (type === "image") return normalize(input.alt || input.title || "Submit");
+    if (type === "submit" || type === "reset" || type === "button") {
+      const value = normalize(input.value);
+      if (value || type === "button") return value;
+      return type === "submit" ? "Submit" : "Reset";
+    }
+  }
+
+  if (el.tagName === "IMG" || el.tagName === "AREA") {
+    const alt = normalize(el.getAttribute("alt") ?? "");
+    if (alt) return alt;
+  }
+
+  const role = roleOf(el);
+  if (role && NAME_FROM_CONTENT.has(role)) {
+    const text = normalize(el.textContent ?? "");
+    if (text) return text;
+  }
+
+  return normalize(el.getAttribute("title") || el.getAttribute("placeholder") || "");
+}
+
+/**
+ * Whether `el` has `role` and, if given, an accessible name matching `name` — the whole
+ * name, or a case-insensitive substring when `name.exact` is false. Elements hidden
+ * from assistive technology with aria-hidden never match.
+ */
+export function matchesRole(el: Element, role: string, name?: TextMatch): boolean {
+  if (roleOf(el) !== role || el.closest('[aria-hidden="true"]')) return false;
+  if (!name) return true;
+  const actual = accessibleName(el);
+  const wanted = normalize(name.text);
+  return name.exact ? actual === wanted : actual.toLowerCase().includes(wanted.toLowerCase());
+}
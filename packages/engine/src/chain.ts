@@ -0,0 +1,88 @@
+import type { SelectorChain } from "@web-mcp-hub/db";
+import { query } from "./dom.js";
+import { frameTarget } from "./frames.js";
+import { interpolate } from "./template.js";
+
+// ---------------------------------------------------------------------------
+// Fallback selector chains
+// ---------------------------------------------------------------------------
+
+/** Which alternative of a selector chain a run used, for the result's report. */
+export interface SelectorMatch {
+  /** Where the chain sits, e.g. "fields[0]", "steps[2].to", "submit" */
+  path: string;
+  /** The alternative used, counting from 0 */
+  index: number;
+  /** How many alternatives the chain has */
+  count: number;
+  selector: string;
+  /** False when no alternative matched and the first was used anyway */
+  found: boolean;
+}
+
+/** `T` with its selector chains resolved to the single selector each one used. */
+export type Resolved<T> = T extends unknown
+  ? { [K in keyof T]: string[] extends T[K] ? Exclude<T[K], string[]> : T[K] }
+  : never;
+
+/**
+ * Whether an alternative matches an element here. One reaching into a cross-origin frame
+ * counts when the frame is there — only the engine inside can look further.
+ */
+function isPresent(selector: string, params?: Record<string, unknown>): boolean {
+  try {
+    if (query(selector, params)) return true;
+    return frameTarget(params ? interpolate(selector, params) : selector) !== null;
+  } catch {
+    // A malformed alternative just doesn't match; a later one still can
+    return false;
+  }
+}
+
+/**
+ * The selector to use for `chain`: the first alternative that matches, polling up to
+ * `timeout` ms for one to appear. If none does, the first alternative is used so the
+ * caller's own error names it. The choice is recorded in `matches` (replacing an earlier
+ * choice at the same path, e.g. from a retry); plain strings are returned as they are.
+ */
+export async function resolveChain(
+  chain: SelectorChain,
+  path: string,
+  matches: SelectorMatch[] | undefined,
+  params?: Record<string, unknown>,
+  timeout = 0,
+): Promise<string> {
+  if (typeof chain === "string") return chain;
+
+  const start = Date.now();
+  let index = chain.findIndex((selector) => isPresent(selector, params));
+  while (index === -1 && Date.now() - start < timeout) {
+    await new Promise((resolve) => requestAnimationFrame(resolve));
+    index = chain.findIndex((selector) => isPresent(selector, params));
+  }
+
+  const used = Math.max(index, 0);
+  if (matches) {
+    const match = {
+      path,
+      index: used,
+      count: chain.length,
+      selector: chain[used],
+      found: index !== -1,
+    };
+    const earlier = matches.findIndex((m) => m.path === path);
+    if (earlier === -1) matches.push(match);
+    else matches[earlier] = match;
+  }
+  return chain[used];
+}
+
+/** Report the chains a run resolved, one line each. */
+export function formatMatches(matches: SelectorMatch[]): string {
+  const lines = matches.map((m) =>
+    m.found
+      ? `${m.path}: alternative ${m.index + 1} of ${m.count} matched ("${m.selector}")`
+      : `${m.path}: none of ${m.count} alternatives matched`,
+  );
+  return `Selector fallbacks:\n${lines.join("\n")}`;
+}
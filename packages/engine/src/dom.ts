@@ -0,0 +1,263 @@
+import {
+  parseSelector,
+  type ParsedSelector,
+  type SelectorStep,
+  type TextMatch,
+} from "@web-mcp-hub/db/selector";
+import { matchUrlPattern } from "@web-mcp-hub/db/url-matching";
+import { matchesRole } from "./aria.js";
+import { interpolate } from "./template.js";
+
+export function isVisible(el: Element): boolean {
+  if (!(el instanceof HTMLElement)) return false;
+  const style = getComputedStyle(el);
+  if (style.display === "none") return false;
+  if (style.visibility === "hidden") return false;
+  if (style.opacity === "0") return false;
+  const rect = el.getBoundingClientRect();
+  if (rect.width === 0 && rect.height === 0) return false;
+  return true;
+}
+
+export function checkState(el: Element | null, state: "visible" | "exists" | "hidden"): boolean {
+  if (state === "hidden") return !el || !isVisible(el);
+  if (state === "exists") return !!el;
+  return !!el && isVisible(el);
+}
+
+export function deepQuery(
+  selector: string,
+  root: Document | ShadowRoot = document,
+): Element | null {
+  const el = root.querySelector(selector);
+  if (el) return el;
+  for (const host of root.querySelectorAll("*")) {
+    if (host.shadowRoot) {
+      const found = deepQuery(selector, host.shadowRoot);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+export function deepQueryAll(
+  selector: string,
+  root: Document | ShadowRoot | Element = document,
+): Element[] {
+  const results: Element[] = [...root.querySelectorAll(selector)];
+  for (const host of root.querySelectorAll("*")) {
+    if (host.shadowRoot) {
+      results.push(...deepQueryAll(selector, host.shadowRoot));
+    }
+  }
+  return results;
+}
+
+function normalizeText(el: Element): string {
+  return (el.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+function matchesText(el: Element, match: TextMatch): boolean {
+  const text = normalizeText(el);
+  const wanted = match.text.replace(/\s+/g, " ").trim();
+  return match.exact ? text === wanted : text.includes(wanted);
+}
+
+// XPathResult.ORDERED_NODE_SNAPSHOT_TYPE
+const ORDERED_NODE_SNAPSHOT = 7;
+
+/** Elements an XPath expression selects. XPath doesn't see into shadow roots. */
+function evaluateXPath(expression: string, scope: Document | Element): Element[] {
+  const doc = scope.ownerDocument ?? (scope as Document);
+  const result = doc.evaluate(expression, scope, null, ORDERED_NODE_SNAPSHOT, null);
+  const els: Element[] = [];
+  for (let i = 0; i < result.snapshotLength; i++) {
+    const node = result.snapshotItem(i);
+    if (node?.nodeType === Node.ELEMENT_NODE) els.push(node as Element);
+  }
+  return els;
+}
+
+/** Elements under `scope` matching one selector step (see @web-mcp-hub/db/selector). */
+function matchStep(step: SelectorStep, scope: Document | Element): Element[] {
+  switch (step.kind) {
+    case "css":
+      return deepQueryAll(step.css, scope).filter(
+        (el) => (!step.also || el.matches(step.also)) && step.text.every((t) => matchesText(el, t)),
+      );
+    case "nth": {
+      const el = resolveSteps(step.of, scope)[step.index - 1];
+      return el ? [el] : [];
+    }
+    case "role":
+      return deepQueryAll("*", scope).filter((el) => matchesRole(el, step.role, step.name));
+    case "xpath":
+      return evaluateXPath(step.expression, scope);
+  }
+}
+
+/** Elements matching a chain of steps, each step searching inside the previous matches. */
+function resolveSteps(steps: SelectorStep[], root: Document | Element): Element[] {
+  let scopes: (Document | Element)[] = [root];
+  for (const step of steps) {
+    const found = new Set<Element>();
+    for (const scope of scopes) {
+      for (const el of matchStep(step, scope)) found.add(el);
+    }
+    scopes = [...found];
+  }
+  return scopes as Element[];
+}
+
+/** The steps are one CSS selector the browser can run on its own. */
+function isPlainCss(steps: SelectorStep[]): steps is [Extract<SelectorStep, { kind: "css" }>] {
+  return steps.length === 1 && steps[0].kind === "css" && steps[0].text.length === 0;
+}
+
+/** The element if it's an `<iframe>` or `<frame>`. Tag names work across frame realms. */
+export function asFrame(el: Element | null): HTMLIFrameElement | null {
+  return el?.tagName === "IFRAME" || el?.tagName === "FRAME" ? (el as HTMLIFrameElement) : null;
+}
+
+/**
+ * Follow the frame hops of a selector ("iframe#a >>> iframe#b >>> input") into the
+ * document its last hop applies to. Null if a frame is missing or cross-origin —
+ * those are only reachable through the engine running inside them (see frames.ts).
+ */
+function frameRoot(hops: ParsedSelector): Document | null {
+  let root: Document = document;
+  for (const steps of hops.slice(0, -1)) {
+    const doc = asFrame(resolveSteps(steps, root)[0] ?? null)?.contentDocument;
+    if (!doc) return null;
+    root = doc;
+  }
+  return root;
+}
+
+/**
+ * The first element matching `selector` — CSS that pierces open shadow roots, plus the
+ * extensions in @web-mcp-hub/db/selector (frame hops, :has-text(), role=, XPath, ...).
+ * Throws a SelectorError if the selector is malformed.
+ */
+export function query(selector: string, params?: Record<string, unknown>): Element | null {
+  const hops = parseSelector(params ? interpolate(selector, params) : selector);
+  const root = frameRoot(hops);
+  if (!root) return null;
+  const steps = hops[hops.length - 1];
+  if (isPlainCss(steps)) return deepQuery(steps[0].css, root);
+  return resolveSteps(steps, root)[0] ?? null;
+}
+
+/** Every element matching `selector`; see query(). */
+export function queryAll(selector: string, params?: Record<string, unknown>): Element[] {
+  const hops = parseSelector(params ? interpolate(selector, params) : selector);
+  const root = frameRoot(hops);
+  if (!root) return [];
+  return resolveSteps(hops[hops.length - 1], root);
+}
+
+/**
+ * A selector for `css` inside whatever `selector` matches, or null when `selector` ends
+ * in XPath, which can't take a CSS suffix.
+ */
+export function descendantSelector(selector: string, css: string): string | null {
+  const hops = parseSelector(selector);
+  return hops[hops.length - 1][0].kind === "xpath" ? null : `${selector} ${css}`;
+}
+
+export async function waitForSelector(
+  selector: string,
+  state: "visible" | "exists" | "hidden" = "visible",
+  timeout = 5000,
+): Promise<void> {
+  const start = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      const el = query(selector);
+
+      if (state === "hidden" && !el) return resolve();
+      if (state === "exists" && el) return resolve();
+      if (state === "visible" && el && isVisible(el)) return resolve();
+
+      if (Date.now() - start > timeout) {
+        return reject(new Error(`Timeout waiting for ${selector}`));
+      }
+
+      requestAnimationFrame(check);
+    };
+
+    check();
+  });
+}
+
+/**
+ * Wait for `text` to appear in the element `selector` matches, or anywhere on the page.
+ * Text is matched like :has-text(): a case-sensitive substring, whitespace collapsed.
+ */
+export async function waitForText(text: string, selector?: string, timeout = 5000): Promise<void> {
+  const start = Date.now();
+  const match = { text, exact: false };
+
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      const scope = selector ? query(selector) : document.body;
+      if (scope && matchesText(scope, match)) return resolve();
+
+      if (Date.now() - start > timeout) {
+        return reject(new Error(`Timeout waiting for text "${text}"`));
+      }
+
+      requestAnimationFrame(check);
+    };
+
+    check();
+  });
+}
+
+/**
+ * Wait for the page URL to match `pattern`, written like a config's urlPattern and matched
+ * the same way (:param, * and ** segments, ?key=value terms, #/hash routes). A pattern
+ * starting with "/" is a path on the current site: "/thanks?order=:id".
+ */
+export async function waitForUrl(pattern: string, timeout = 10000): Promise<void> {
+  const start = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      // The domain as the hub keys configs: no "www.", port only when it isn't the default
+      const host = location.hostname.replace(/^www\./, "");
+      const domain = location.port ? `${host}:${location.port}` : host;
+      const urlPattern = pattern.startsWith("/") ? domain + pattern : pattern;
+      if (matchUrlPattern(urlPattern, location.href, domain).matched) return resolve();
+
+      if (Date.now() - start > timeout) {
+        return reject(new Error(`Timeout waiting for URL ${pattern} (at ${location.href})`));
+      }
+
+      requestAnimationFrame(check);
+    };
+
+    check();
+  });
+}
+
+export async function waitForClickable(
+  selector: string,
+  params?: Record<string, unknown>,
+  timeout = 5000,
+): Promise<HTMLElement | null> {
+  const start = Date.now();
+  return new Promise((resolve) => {
+    const check = () => {
+      const el = query(selector, params) as HTMLElement | null;
+      if (el) {
+        const isEnabled = !(el as HTMLButtonElement).disabled;
+        if (isVisible(el) && isEnabled) return resolve(el);
+      }
+      if (Date.now() - start > timeout) return resolve(null);
+      requestAnimationFrame(check);
+    };
+    check();
+  });
+}
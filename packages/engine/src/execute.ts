@@ -0,0 +1,422 @@
+import type { ExecutionDescriptor, ExecutionOutcome, SelectorChain } from "@web-mcp-hub/db";
+import { selectorAlternatives } from "@web-mcp-hub/db/selector";
+import { formatMatches, resolveChain, type SelectorMatch } from "./chain.js";
+import { descendantSelector, query, waitForClickable, waitForSelector } from "./dom.js";
+import { coerceToSchema, extractPaginated, extractResult, resultToText } from "./extract.js";
+import { fillToolField } from "./fill.js";
+import { frameTarget, inFrame, type FrameRequest, type FrameResponse } from "./frames.js";
+import { pressKey } from "./input.js";
+import { PageLeave, runSteps, StepError, type StepPosition } from "./steps.js";
+import { interpolate } from "./template.js";
+import { traceEntry, type TraceEntry } from "./trace.js";
+
+export type McpToolResult = {
+  content: { type: "text"; text: string }[];
+  isError?: boolean;
+};
+
+export type AgentInterface = {
+  requestUserInteraction: (callback: () => Promise<unknown>) => Promise<unknown>;
+};
+
+export interface ExecuteOptions {
+  /** The calling agent, asked to confirm tools annotated with destructiveHint */
+  agent?: AgentInterface;
+  annotations?: Record<string, string>;
+  /** Collects a TraceEntry per field/step when set */
+  trace?: TraceEntry[];
+  /**
+   * Called before a navigate step that has more steps after it loads a new document (a
+   * step that only changes the #fragment doesn't count). The run stops after that step,
+   * and whoever set this resumes it there with resumeTool(). Without it, the remaining
+   * steps run against the page being left.
+   */
+  onNavigate?: (state: WorkflowState) => Promise<void>;
+}
+
+/**
+ * Where a multi-step run picks up on the page a navigate step loads. Plain data, so it
+ * can be stored while the page loads.
+ */
+export interface WorkflowState {
+  /** Position of the next step in `steps`, possibly inside a condition's branch */
+  next: StepPosition;
+  /** Template scope: the agent's params and {{$vars.name}} values */
+  params: Record<string, unknown>;
+  /** Named extracts so far */
+  vars: Record<string, unknown>;
+  /** Selector chain choices so far, for the result's report */
+  matches: SelectorMatch[];
+}
+
+// WebMCP result format per spec
+export function mcpResult(text: string): McpToolResult {
+  return { content: [{ type: "text" as const, text }] };
+}
+
+// Typed result for tools that declare an outputSchema — JSON text the agent can parse
+function mcpJsonResult(value: unknown) {
+  return mcpResult(JSON.stringify(value));
+}
+
+/**
+ * Run a tool's execution against the current document and return its MCP result.
+ * Failures the tool can report (missing elements, failed steps) come back as error
+ * results; anything else throws. When selector chains were resolved, a second content
+ * block reports which alternative each one used.
+ */
+export async function executeTool(
+  toolName: string,
+  exec: ExecutionDescriptor,
+  params: Record<string, unknown>,
+  options: ExecuteOptions = {},
+): Promise<McpToolResult> {
+  const { agent, annotations, trace, onNavigate } = options;
+  // Request user confirmation for destructive tools per WebMCP spec
+  if (agent && annotations?.destructiveHint === "true") {
+    const confirmed = await agent.requestUserInteraction(async () => {
+      return confirm(`Allow "${toolName}" to make changes?`);
+    });
+    if (!confirmed) {
+      return mcpResult(`Tool "${toolName}" ${CANCELLED_SUFFIX}`);
+    }
+  }
+
+  const matches: SelectorMatch[] = [];
+  return withMatches(
+    await runExecution(toolName, exec, params, trace, matches, onNavigate),
+    matches,
+  );
+}
+
+/** Continue a multi-step run from the state a navigate step handed to onNavigate. */
+export async function resumeTool(
+  toolName: string,
+  exec: ExecutionDescriptor,
+  state: WorkflowState,
+  options: Pick<ExecuteOptions, "trace" | "onNavigate"> = {},
+): Promise<McpToolResult> {
+  return withMatches(
+    await runWorkflow(toolName, exec, state, options.trace, options.onNavigate),
+    state.matches,
+  );
+}
+
+/**
+ * Read a simple-mode tool's result from the current document, as executeTool does after
+ * filling its fields. The extension runs this on the page a submit loaded, for tools
+ * with resultAfterNavigation.
+ */
+export async function readToolResult(
+  toolName: string,
+  exec: ExecutionDescriptor,
+  options: Pick<ExecuteOptions, "trace"> = {},
+): Promise<McpToolResult> {
+  const matches: SelectorMatch[] = [];
+  return withMatches(await readResultOf(toolName, exec, options.trace, matches), matches);
+}
+
+/** Add the report of resolved selector chains, if any, to a result. */
+function withMatches(result: McpToolResult, matches: SelectorMatch[]): McpToolResult {
+  if (matches.length === 0) return result;
+  // A block of its own, so JSON results stay parseable
+  return {
+    ...result,
+    content: [...result.content, { type: "text" as const, text: formatMatches(matches) }],
+  };
+}
+
+/** All alternatives of a chain, for error messages. */
+function showChain(chain: SelectorChain): string {
+  return selectorAlternatives(chain).join(" | ");
+}
+
+async function runExecution(
+  toolName: string,
+  exec: ExecutionDescriptor,
+  params: Record<string, unknown>,
+  trace: TraceEntry[] | undefined,
+  matches: SelectorMatch[],
+  onNavigate: ExecuteOptions["onNavigate"],
+): Promise<McpToolResult> {
+  // Multi-step mode
+  if (exec.steps && exec.steps.length > 0) {
+    // Step templates read from a copy, so named extracts ({{$vars.name}}) don't leak
+    // into the agent's params object
+    const state = { next: [], params: { ...params }, vars: {}, matches };
+    return runWorkflow(toolName, exec, state, trace, onNavigate);
+  }
+
+  // Simple mode — fill fields
+  const errors: string[] = [];
+  if (exec.fields) {
+    for (const [i, field] of exec.fields.entries()) {
+      const value = params[field.name];
+      if (value !== undefined) {
+        const start = performance.now();
+        const path = `fields[${i}]`;
+        const selector = await resolveChain(field.selector, path, matches);
+        const err = await fillToolField({ ...field, selector }, value, path, matches);
+        trace?.push(traceEntry(path, "fill", selector, start, err));
+        if (err) errors.push(`Field "${field.name}": ${err}`);
+      }
+    }
+  }
+
+  // Submit — return immediately since it may cause navigation (resultAfterNavigation
+  // tools have their result read on the next page, see readToolResult)
+  if (exec.autosubmit) {
+    const errorSuffix = errors.length > 0 ? `\nWarnings:\n${errors.join("\n")}` : "";
+    const submitStart = performance.now();
+    const traceSubmit = (selector: string, error?: string) =>
+      trace?.push(traceEntry("submit", exec.submitAction ?? "click", selector, submitStart, error));
+    if (exec.submitAction === "enter") {
+      const last = exec.fields?.length ? exec.fields.length - 1 : -1;
+      const targetSelector =
+        last !== -1
+          ? await resolveChain(exec.fields![last].selector, `fields[${last}]`, matches)
+          : interpolate(await resolveChain(exec.selector, "selector", matches, params), params);
+      if (await submit(targetSelector, "enter")) {
+        traceSubmit(targetSelector);
+        return mcpResult(`Submitted ${toolName}${errorSuffix}`);
+      }
+      traceSubmit(targetSelector, "Submit target not found");
+      return mcpResult(
+        `Error: Submit target not found for "${toolName}". Selector: ${showChain(exec.selector)}${errorSuffix}`,
+      );
+    } else {
+      // An explicit submit control is clicked, so wait for one of its alternatives to appear
+      const submitSelector = interpolate(
+        exec.submitSelector
+          ? await resolveChain(exec.submitSelector, "submitSelector", matches, params, 5000)
+          : await resolveChain(exec.selector, "selector", matches, params),
+        params,
+      );
+      const button = exec.submitSelector
+        ? null
+        : descendantSelector(submitSelector, '[type="submit"]');
+      const submitted =
+        (button !== null && (await submit(button, "click", 2500))) ||
+        (await submit(submitSelector, "click"));
+      if (submitted) {
+        traceSubmit(submitSelector);
+        return mcpResult(`Submitted ${toolName}${errorSuffix}`);
+      }
+      traceSubmit(submitSelector, "Submit button not found");
+      return mcpResult(
+        `Error: Submit button not found for "${toolName}". Selector: ${showChain(exec.submitSelector ?? exec.selector)}${errorSuffix}`,
+      );
+    }
+  }
+
+  if (errors.length > 0) {
+    return mcpResult(`Error filling fields for "${toolName}":\n${errors.join("\n")}`);
+  }
+
+  // Extract result (no submit)
+  return readResultOf(toolName, exec, trace, matches);
+}
+
+/**
+ * Run a tool's steps from `state.next`. A navigate step that loads a new document with
+ * steps after it hands the state to `onNavigate` and ends the run on this page.
+ */
+async function runWorkflow(
+  toolName: string,
+  exec: ExecutionDescriptor,
+  state: WorkflowState,
+  trace: TraceEntry[] | undefined,
+  onNavigate: ExecuteOptions["onNavigate"],
+): Promise<McpToolResult> {
+  const steps = exec.steps ?? [];
+  const { params, vars, matches } = state;
+  const run = { defaults: exec, trace, matches, handOff: onNavigate !== undefined };
+  let lastResult: unknown;
+  try {
+    lastResult = await runSteps(steps, "steps", params, vars, run, state.next);
+  } catch (err) {
+    if (err instanceof PageLeave) {
+      // Hand off before navigating: the page can unload as soon as the navigation starts
+      if (err.next) await onNavigate!({ ...state, next: err.next });
+      window.location.href = err.url;
+      return mcpResult(err.message);
+    }
+    if (err instanceof StepError) return mcpStepError(toolName, err);
+    throw err;
+  }
+
+  // Named extracts make the result an object; otherwise it's the last step's value
+  const result = Object.keys(vars).length > 0 ? vars : lastResult;
+  if (exec.outputSchema) {
+    return mcpJsonResult(coerceToSchema(result, exec.outputSchema));
+  }
+  if (result === vars) return mcpJsonResult(vars);
+  return mcpResult(result != null ? resultToText(result) : `Executed ${toolName}`);
+}
+
+/** Wait for and extract a simple-mode result. */
+async function readResultOf(
+  toolName: string,
+  exec: ExecutionDescriptor,
+  trace: TraceEntry[] | undefined,
+  matches: SelectorMatch[],
+): Promise<McpToolResult> {
+  if (exec.resultWaitSelector) {
+    const start = performance.now();
+    const waitSelector = await resolveChain(
+      exec.resultWaitSelector,
+      "resultWaitSelector",
+      matches,
+      undefined,
+      5000,
+    );
+    const timedOut = await waitForResult(waitSelector);
+    trace?.push(traceEntry("resultWait", "wait", waitSelector, start, timedOut));
+    if (timedOut && exec.resultRequired) throw new Error(timedOut);
+  } else if (exec.resultDelay) {
+    await new Promise((r) => setTimeout(r, exec.resultDelay));
+  }
+
+  if (exec.resultSelector) {
+    const mode = exec.resultExtract ?? "text";
+    const start = performance.now();
+    const resultSelector = await resolveChain(exec.resultSelector, "resultSelector", matches);
+    const result =
+      exec.pagination && (mode === "list" || mode === "table")
+        ? await extractPaginated(resultSelector, mode, exec.pagination, matches)
+        : await readResult(resultSelector, mode, exec.resultAttribute);
+    const missing = result == null ? "No result found" : null;
+    trace?.push(traceEntry("result", "extract", resultSelector, start, missing));
+    if (exec.outputSchema) {
+      return mcpJsonResult(coerceToSchema(result, exec.outputSchema));
+    }
+    return mcpResult(result != null ? resultToText(result) : "No result found");
+  }
+
+  return mcpResult(`Executed ${toolName}`);
+}
+
+/**
+ * Submit by clicking `selector`'s element once it's clickable, or by Enter: requesting
+ * submit on the element's form, or pressing Enter on it outside a form. Returns whether
+ * the element was found. Targets inside frames are submitted by the engine there.
+ */
+async function submit(selector: string, by: "click" | "enter", timeout?: number): Promise<boolean> {
+  const target = frameTarget(selector);
+  if (target) {
+    const response = await inFrame(target, {
+      kind: "submit",
+      selector: target.selector,
+      by,
+      timeout,
+    });
+    return "result" in response && response.result === true;
+  }
+
+  if (by === "click") {
+    const el = await waitForClickable(selector, undefined, timeout);
+    el?.click();
+    return el !== null;
+  }
+  const el = query(selector) as HTMLElement | null;
+  if (!el) return false;
+  const form = el.closest("form");
+  if (form) form.requestSubmit();
+  else pressKey(el, "Enter");
+  return true;
+}
+
+/** Wait for the result element to be visible. Resolves to the timeout message, or null. */
+async function waitForResult(selector: string): Promise<string | null> {
+  const target = frameTarget(selector);
+  if (!target) {
+    return waitForSelector(selector).then(
+      () => null,
+      (err: Error) => err.message,
+    );
+  }
+  const step = { action: "wait", selector: target.selector, onError: "fail" } as const;
+  const response = await inFrame(target, { kind: "step", step, params: {} });
+  return "error" in response ? response.error : null;
+}
+
+/** extractResult, run by the engine inside the frame for results inside one. */
+async function readResult(
+  selector: string,
+  mode: NonNullable<ExecutionDescriptor["resultExtract"]>,
+  attribute?: string,
+): Promise<unknown> {
+  const target = frameTarget(selector);
+  if (!target) return extractResult(selector, mode, attribute);
+  const step = {
+    action: "extract",
+    selector: target.selector,
+    extract: mode,
+    attribute,
+    onError: "fail",
+  } as const;
+  const response = await inFrame(target, { kind: "step", step, params: {} });
+  if ("error" in response) throw new Error(response.error);
+  return response.result;
+}
+
+/**
+ * Handle a request from the engine in a parent frame, sent through its FrameBridge:
+ * fill a field, run a step or submit in this frame's document.
+ */
+export async function handleFrameRequest(request: FrameRequest): Promise<FrameResponse> {
+  switch (request.kind) {
+    case "fill": {
+      const err = await fillToolField(request.field, request.value);
+      return err ? { error: err } : { result: null };
+    }
+    case "step":
+      try {
+        const scope = { ...request.params };
+        return { result: await runSteps([request.step], "steps", scope, {}, { defaults: {} }) };
+      } catch (err) {
+        return { error: err instanceof Error ? err.message : String(err) };
+      }
+    case "submit":
+      return { result: await submit(request.selector, request.by, request.timeout) };
+  }
+}
+
+function mcpStepError(toolName: string, err: StepError) {
+  const selector = "selector" in err.step ? err.step.selector : undefined;
+  const target = selector ? ` (${showChain(selector)})` : "";
+  const detail = {
+    error: err.message,
+    step: err.path,
+    action: err.step.action,
+    selector,
+    attempts: err.attempts,
+  };
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Error: "${toolName}" failed at ${err.path} ${err.step.action}${target}: ${err.message}`,
+      },
+      { type: "text" as const, text: JSON.stringify(detail) },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Classify a finished run for telemetry from its result. Returns null for runs that
+ * say nothing about the tool, like the user cancelling a destructive action.
+ */
+export function classifyOutcome(result: McpToolResult): ExecutionOutcome | null {
+  const text = result.content[0]?.text ?? "";
+  if (text.endsWith(CANCELLED_SUFFIX)) return null;
+  if (!result.isError && !text.startsWith("Error")) {
+    return text === "No result found" ? "no_result" : "success";
+  }
+  if (/not found|not clickable/i.test(text)) return "not_found";
+  if (/timeout/i.test(text)) return "timeout";
+  return "error";
+}
+
+const CANCELLED_SUFFIX = "cancelled by user.";
@@ -0,0 +1,198 @@
+import type { OutputSchema, Pagination } from "@web-mcp-hub/db";
+import { resolveChain, type SelectorMatch } from "./chain.js";
+import { deepQueryAll, query, queryAll, waitForClickable } from "./dom.js";
+
+export function extractResult(
+  selector: string,
+  mode: "text" | "html" | "list" | "table" | "attribute",
+  attribute?: string,
+): unknown {
+  if (mode === "list") {
+    const els = queryAll(selector);
+    return els.map((el) => el.textContent?.trim() ?? "");
+  }
+
+  if (mode === "table") {
+    return extractTableRows(selector);
+  }
+
+  const el = query(selector);
+  if (!el) return null;
+
+  if (mode === "html") return el.innerHTML;
+  if (mode === "attribute" && attribute) return el.getAttribute(attribute);
+  return el.textContent?.trim() ?? "";
+}
+
+/**
+ * Read a table's rows. If the table has a header row (inside <thead>, or made only of
+ * <th> cells), each body row becomes an object keyed by the header cell texts;
+ * otherwise rows are arrays of cell texts.
+ */
+export function extractTableRows(selector: string): Record<string, string>[] | string[][] {
+  const rows = [...new Set(queryAll(selector).flatMap((table) => deepQueryAll("tr", table)))];
+  const cellTexts = (row: Element) =>
+    deepQueryAll("td, th", row).map((c) => c.textContent?.trim() ?? "");
+
+  const header = rows.find((row) => {
+    const cells = deepQueryAll("td, th", row);
+    return row.closest("thead") || (cells.length > 0 && cells.every((c) => c.tagName === "TH"));
+  });
+  if (!header) return rows.map(cellTexts);
+
+  const keys = cellTexts(header);
+  return rows
+    .filter((row) => row !== header && !row.closest("thead"))
+    .map((row) => {
+      const values = cellTexts(row);
+      return Object.fromEntries(keys.map((key, i) => [key, values[i] ?? ""]));
+    });
+}
+
+/**
+ * Extract list items / table rows across pages: click the next-page control (or scroll
+ * the last result into view for infinite scroll), wait for the results to change, and
+ * merge them in order — until maxPages, maxItems, or no new page. Rows a new page
+ * repeats from the end of the previous one (infinite scroll keeps earlier rows in the
+ * DOM) are merged once; identical rows within a page are kept.
+ */
+export async function extractPaginated(
+  selector: string,
+  mode: "list" | "table",
+  pagination: Pagination,
+  matches?: SelectorMatch[],
+): Promise<unknown[]> {
+  const maxPages = pagination.maxPages ?? 5;
+  const read = () => JSON.stringify(extractResult(selector, mode));
+  const items: unknown[] = [];
+  let previousKeys: string[] = [];
+
+  let page = read();
+  for (let pageNum = 1; ; pageNum++) {
+    const pageItems = JSON.parse(page) as unknown[];
+    const keys = pageItems.map((item) => JSON.stringify(item));
+    items.push(...pageItems.slice(overlapLength(previousKeys, keys)));
+    previousKeys = keys;
+    if (pagination.maxItems && items.length >= pagination.maxItems) {
+      return items.slice(0, pagination.maxItems);
+    }
+    if (pageNum >= maxPages) break;
+
+    if (pagination.mode === "click") {
+      const nextSelector = await resolveChain(
+        pagination.nextSelector!,
+        "pagination.nextSelector",
+        matches,
+        undefined,
+        1000,
+      );
+      const next = await waitForClickable(nextSelector, undefined, 1000);
+      if (!next) break;
+      next.click();
+    } else {
+      const els = queryAll(selector);
+      if (els.length > 0) els[els.length - 1].scrollIntoView({ block: "end" });
+      else window.scrollTo(0, document.documentElement.scrollHeight);
+    }
+
+    const next = await waitForChange(read, page, pagination.timeout ?? 5000);
+    if (next === null) break;
+    page = next;
+  }
+  return items;
+}
+
+/** The longest run of rows that ends `previous` and starts `next`. */
+function overlapLength(previous: string[], next: string[]): number {
+  for (let k = Math.min(previous.length, next.length); k > 0; k--) {
+    const tail = previous.length - k;
+    let same = true;
+    for (let i = 0; i < k && same; i++) same = previous[tail + i] === next[i];
+    if (same) return k;
+  }
+  return 0;
+}
+
+/**
+ * Poll until read() returns something other than `before` (ignoring an empty result
+ * while the next page is loading). Resolves to the new value, or null on timeout.
+ */
+function waitForChange(
+  read: () => string,
+  before: string,
+  timeout: number,
+): Promise<string | null> {
+  const start = Date.now();
+  return new Promise((resolve) => {
+    const check = () => {
+      const current = read();
+      if (current !== before && current !== "[]") return resolve(current);
+      if (Date.now() - start > timeout) return resolve(null);
+      // Re-extracting every frame is costly for big tables, so poll more slowly
+      setTimeout(check, 100);
+    };
+    check();
+  });
+}
+
+/** Render an extracted result as plain text (tools without an outputSchema). */
+export function resultToText(result: unknown): string {
+  if (!Array.isArray(result)) return String(result);
+  return result
+    .map((item) => {
+      if (Array.isArray(item)) return item.join(" | ");
+      if (item !== null && typeof item === "object") {
+        return Object.entries(item)
+          .map(([key, value]) => `${key}: ${value}`)
+          .join(", ");
+      }
+      return String(item);
+    })
+    .join("\n");
+}
+
+/**
+ * Shape an extracted value to a tool's outputSchema: wrap single values in arrays,
+ * zip header-less table rows with the schema's property names, and parse
+ * number/integer/boolean values out of page text ("$1,299.00" → 1299).
+ */
+export function coerceToSchema(value: unknown, schema: OutputSchema): unknown {
+  switch (schema.type) {
+    case "array": {
+      const items = Array.isArray(value) ? value : value == null ? [] : [value];
+      return schema.items ? items.map((item) => coerceToSchema(item, schema.items!)) : items;
+    }
+    case "object": {
+      if (!schema.properties) return value;
+      const keys = Object.keys(schema.properties);
+      const obj: Record<string, unknown> = Array.isArray(value)
+        ? Object.fromEntries(keys.map((key, i) => [key, value[i]]))
+        : value !== null && typeof value === "object"
+          ? { ...(value as Record<string, unknown>) }
+          : {};
+      for (const [key, propSchema] of Object.entries(schema.properties)) {
+        if (key in obj) obj[key] = coerceToSchema(obj[key], propSchema);
+      }
+      return obj;
+    }
+    case "number":
+    case "integer": {
+      if (typeof value === "number") return schema.type === "integer" ? Math.round(value) : value;
+      const match = String(value ?? "")
+        .replace(/,/g, "")
+        .match(/-?\d+(?:\.\d+)?/);
+      if (!match) return null;
+      const num = parseFloat(match[0]);
+      return schema.type === "integer" ? Math.round(num) : num;
+    }
+    case "boolean": {
+      if (typeof value === "boolean") return value;
+      const text = String(value ?? "")
+        .trim()
+        .toLowerCase();
+      return !["", "false", "no", "off", "0", "unchecked", "disabled"].includes(text);
+    }
+    case "string":
+      return value == null ? null : String(value);
+  }
+}
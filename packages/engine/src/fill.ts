@@ -0,0 +1,358 @@
+import type {
+  ComboboxField,
+  FileInput,
+  MultiselectField,
+  SelectorChain,
+  ToolField,
+} from "@web-mcp-hub/db";
+import { selectorAlternatives } from "@web-mcp-hub/db/selector";
+import { resolveChain, type SelectorMatch } from "./chain.js";
+import { isVisible, query, queryAll } from "./dom.js";
+import { frameTarget, inFrame, innerSelector, type FrameTarget } from "./frames.js";
+import { pointerClick } from "./input.js";
+
+/**
+ * Fill a tool field, handling radio options with per-option selectors, file inputs,
+ * multiselects and comboboxes. Fields inside frames are filled by the engine there.
+ * `path` names the field in `matches`, which records the alternatives its selector
+ * chains resolved to.
+ */
+export async function fillToolField(
+  field: ToolField,
+  value: unknown,
+  path = "field",
+  matches?: SelectorMatch[],
+): Promise<string | null> {
+  const selector = await resolveChain(field.selector, path, matches);
+  const target = frameTarget(selector);
+  if (target) return fillInFrame(field, value, target);
+  if (field.type === "file") return fillFileField(selector, value);
+  if (field.type === "multiselect") return fillMultiselect(field, selector, value, path, matches);
+  if (field.type === "combobox") return fillCombobox(field, selector, value, path, matches);
+  if (field.type === "radio" && field.options) {
+    const index = field.options.findIndex((o) => o.value === String(value));
+    if (index === -1) return `No radio option matches value "${value}"`;
+    const optionPath = `${path}.options[${index}]`;
+    const optionSelector = await resolveChain(field.options[index].selector, optionPath, matches);
+    const el = query(optionSelector) as HTMLInputElement | null;
+    if (!el) return `Radio option element not found: ${optionSelector}`;
+    el.checked = true;
+    el.dispatchEvent(new Event("change", { bubbles: true }));
+    return null;
+  }
+  return fillField(selector, value);
+}
+
+/**
+ * Hand a field to the engine in its frame, with the field's other selectors (options,
+ * suggestions) made relative to the frame too — they must be in the same frame.
+ */
+async function fillInFrame(
+  field: ToolField,
+  value: unknown,
+  target: FrameTarget,
+): Promise<string | null> {
+  const outside: string[] = [];
+  const inner = (chain: SelectorChain) => {
+    const relative = selectorAlternatives(chain).map((selector) => {
+      const inside = innerSelector(selector, target);
+      if (inside === null) outside.push(selector);
+      return inside ?? selector;
+    });
+    return typeof chain === "string" ? relative[0] : relative;
+  };
+  const framed: ToolField = { ...field, selector: target.selector };
+  if ((framed.type === "radio" || framed.type === "multiselect") && framed.options) {
+    framed.options = framed.options.map((o) =>
+      o.selector ? { ...o, selector: inner(o.selector) } : o,
+    ) as typeof framed.options;
+  }
+  if (framed.type === "combobox") framed.optionSelector = inner(framed.optionSelector);
+  if (outside.length > 0) return `${outside[0]} is not inside the field's frame ${target.hop}`;
+
+  const response = await inFrame(target, { kind: "fill", field: framed, value });
+  return "error" in response ? response.error : null;
+}
+
+/**
+ * The contenteditable to type into, if any. The matched element itself may be a wrapper
+ * div — check both the element and its first contenteditable child (e.g. X.com's tweet box).
+ * Match any contenteditable value except explicit "false" to handle "true", "", and "plaintext-only".
+ */
+function editableTarget(el: HTMLElement): HTMLElement | null {
+  return el.isContentEditable
+    ? el
+    : el.querySelector<HTMLElement>('[contenteditable]:not([contenteditable="false"])');
+}
+
+/** Fill a DOM field. Returns an error message if the element was not found, or null on success. */
+export async function fillField(selector: string, value: unknown): Promise<string | null> {
+  const el = query(selector) as HTMLElement | null;
+  if (!el) return `Element not found: ${selector}`;
+
+  const editableEl = editableTarget(el);
+  if (editableEl) {
+    editableEl.focus();
+
+    // Select all existing content via the Selection API so the paste replaces it.
+    const selectRange = document.createRange();
+    selectRange.selectNodeContents(editableEl);
+    window.getSelection()?.removeAllRanges();
+    window.getSelection()?.addRange(selectRange);
+
+    // Dispatch a paste event so rich-text editors (Lexical, Draft.js) process the text
+    // through their own state machines. Direct innerHTML + input/beforeinput bypasses the
+    // editor's internal EditorState, which is why submit buttons stay disabled even when
+    // text appears in the box.
+    const dt = new DataTransfer();
+    dt.setData("text/plain", String(value));
+    const pasteEvent = new ClipboardEvent("paste", {
+      bubbles: true,
+      cancelable: true,
+      clipboardData: dt,
+    });
+    editableEl.dispatchEvent(pasteEvent);
+
+    // If no editor handled the paste (event.defaultPrevented stays false), fall back to
+    // direct DOM manipulation for plain contenteditable elements.
+    if (!pasteEvent.defaultPrevented) {
+      editableEl.innerHTML = "";
+      editableEl.appendChild(document.createTextNode(String(value)));
+      editableEl.dispatchEvent(
+        new InputEvent("input", { bubbles: true, inputType: "insertText", data: String(value) }),
+      );
+      // Move cursor to end — only needed for the plain contenteditable fallback;
+      // rich-text editors (Lexical, Draft.js) manage their own cursor after paste.
+      const range = document.createRange();
+      range.selectNodeContents(editableEl);
+      range.collapse(false);
+      window.getSelection()?.removeAllRanges();
+      window.getSelection()?.addRange(range);
+    }
+
+    return null;
+  }
+
+  if (el instanceof HTMLSelectElement) {
+    el.value = String(value);
+    el.dispatchEvent(new Event("change", { bubbles: true }));
+  } else if (el instanceof HTMLInputElement && el.type === "checkbox") {
+    el.checked = Boolean(value);
+    el.dispatchEvent(new Event("change", { bubbles: true }));
+  } else if (el instanceof HTMLInputElement && el.type === "radio") {
+    el.checked = true;
+    el.dispatchEvent(new Event("change", { bubbles: true }));
+  } else if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+    // Use the native prototype setter to bypass React's value property override.
+    // Direct el.value = x calls React's setter which doesn't trigger state updates.
+    const proto =
+      el instanceof HTMLTextAreaElement
+        ? HTMLTextAreaElement.prototype
+        : HTMLInputElement.prototype;
+    const nativeSetter = Object.getOwnPropertyDescriptor(proto, "value")?.set;
+    if (nativeSetter) {
+      nativeSetter.call(el, String(value));
+    } else {
+      el.value = String(value);
+    }
+    el.dispatchEvent(new Event("input", { bubbles: true }));
+    el.dispatchEvent(new Event("change", { bubbles: true }));
+  }
+  return null;
+}
+
+/**
+ * Empty a text input, textarea or contenteditable. Returns an error message if the element
+ * was not found or can't hold text, or null on success.
+ */
+export async function clearField(selector: string): Promise<string | null> {
+  const el = query(selector) as HTMLElement | null;
+  if (!el) return `Element not found: ${selector}`;
+
+  const editableEl = editableTarget(el);
+  if (editableEl) {
+    editableEl.focus();
+    const range = document.createRange();
+    range.selectNodeContents(editableEl);
+    window.getSelection()?.removeAllRanges();
+    window.getSelection()?.addRange(range);
+
+    // Rich-text editors (Lexical, ProseMirror) delete the selection themselves on
+    // beforeinput and cancel it; plain contenteditables are emptied directly.
+    const beforeInput = new InputEvent("beforeinput", {
+      bubbles: true,
+      cancelable: true,
+      inputType: "deleteContentBackward",
+    });
+    editableEl.dispatchEvent(beforeInput);
+    if (!beforeInput.defaultPrevented) {
+      editableEl.replaceChildren();
+      editableEl.dispatchEvent(
+        new InputEvent("input", { bubbles: true, inputType: "deleteContentBackward" }),
+      );
+    }
+    return null;
+  }
+
+  if (!(el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement)) {
+    return `Element can't be cleared: ${selector}`;
+  }
+  return fillField(selector, "");
+}
+
+// data:[<mime>][;param=value]*[;base64],<data>
+const DATA_URL_RE = /^data:([^;,]*)(?:;[^;,]*)*?(;base64)?,(.*)$/s;
+
+/** Build a File from a FileInput. Returns an error message if the value isn't one. */
+function toFile(value: unknown): File | string {
+  const input = value as Partial<FileInput> | null;
+  if (typeof input?.name !== "string" || typeof input.content !== "string") {
+    return "File values need a name and base64 content";
+  }
+
+  let mimeType = input.mimeType;
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    const dataUrl = DATA_URL_RE.exec(input.content);
+    if (dataUrl) {
+      mimeType ??= dataUrl[1] || undefined;
+      const payload = dataUrl[2] ? atob(dataUrl[3]) : decodeURIComponent(dataUrl[3]);
+      bytes = dataUrl[2]
+        ? Uint8Array.from(payload, (c) => c.charCodeAt(0))
+        : new TextEncoder().encode(payload);
+    } else {
+      bytes = Uint8Array.from(atob(input.content.replace(/\s/g, "")), (c) => c.charCodeAt(0));
+    }
+  } catch {
+    return `Content of "${input.name}" is not valid base64 or a data: URL`;
+  }
+  return new File([bytes], input.name, { type: mimeType ?? "application/octet-stream" });
+}
+
+/**
+ * Attach files to an `<input type="file">` through a DataTransfer, so the page sees the
+ * same FileList and input/change events as a real selection. `value` is a FileInput or,
+ * for inputs with `multiple`, an array of them.
+ */
+export async function fillFileField(selector: string, value: unknown): Promise<string | null> {
+  const el = query(selector);
+  if (!el) return `Element not found: ${selector}`;
+  if (!(el instanceof HTMLInputElement) || el.type !== "file") {
+    return `Element is not a file input: ${selector}`;
+  }
+
+  const inputs = Array.isArray(value) ? value : [value];
+  if (inputs.length > 1 && !el.multiple) return `File input takes a single file: ${selector}`;
+  const dt = new DataTransfer();
+  for (const input of inputs) {
+    const file = toFile(input);
+    if (typeof file === "string") return file;
+    dt.items.add(file);
+  }
+  el.files = dt.files;
+  el.dispatchEvent(new Event("input", { bubbles: true }));
+  el.dispatchEvent(new Event("change", { bubbles: true }));
+  return null;
+}
+
+/**
+ * Select exactly the given values — others are deselected — in a `<select multiple>` or a
+ * checkbox group. Checkboxes are toggled with click() so frameworks see a real change.
+ */
+async function fillMultiselect(
+  field: MultiselectField,
+  selector: string,
+  value: unknown,
+  path: string,
+  matches?: SelectorMatch[],
+): Promise<string | null> {
+  const values = (Array.isArray(value) ? value : [value]).map(String);
+  const el = query(selector);
+  if (!el) return `Element not found: ${selector}`;
+
+  if (el instanceof HTMLSelectElement) {
+    const missing = values.find((v) => ![...el.options].some((o) => o.value === v));
+    if (missing !== undefined) return `No option matches value "${missing}"`;
+    for (const option of el.options) option.selected = values.includes(option.value);
+    el.dispatchEvent(new Event("input", { bubbles: true }));
+    el.dispatchEvent(new Event("change", { bubbles: true }));
+    return null;
+  }
+
+  // Checkbox group: one selector per option, or every checkbox the field selector matches
+  const boxes: { value: string; box: HTMLInputElement }[] = [];
+  if (field.options?.some((o) => o.selector)) {
+    for (const [i, option] of field.options.entries()) {
+      if (!option.selector) continue;
+      const boxSelector = await resolveChain(option.selector, `${path}.options[${i}]`, matches);
+      const box = query(boxSelector) as HTMLInputElement | null;
+      if (!box) return `Checkbox not found: ${boxSelector}`;
+      boxes.push({ value: option.value, box });
+    }
+  } else {
+    for (const box of queryAll(selector) as HTMLInputElement[]) {
+      boxes.push({ value: box.value, box });
+    }
+  }
+
+  const missing = values.find((v) => !boxes.some((b) => b.value === v));
+  if (missing !== undefined) return `No checkbox matches value "${missing}"`;
+  for (const { value, box } of boxes) {
+    if (box.checked !== values.includes(value)) box.click();
+  }
+  return null;
+}
+
+const normalize = (text: string) => text.replace(/\s+/g, " ").trim().toLowerCase();
+
+/**
+ * Type the value into an autocomplete input — or, for a known option, its label — wait
+ * for a suggestion matching that text and click it. An exact text match wins; otherwise a
+ * single suggestion containing the text is accepted.
+ */
+async function fillCombobox(
+  field: ComboboxField,
+  selector: string,
+  value: unknown,
+  path: string,
+  matches?: SelectorMatch[],
+): Promise<string | null> {
+  const text = field.options?.find((o) => o.value === String(value))?.label ?? String(value);
+  const input = query(selector) as HTMLElement | null;
+  if (!input) return `Element not found: ${selector}`;
+  input.focus();
+  const err = await fillField(selector, text);
+  if (err) return err;
+
+  const timeout = field.timeout ?? 5000;
+  // Suggestions appear after typing, so wait for one of the alternatives to show up
+  const optionSelector = await resolveChain(
+    field.optionSelector,
+    `${path}.optionSelector`,
+    matches,
+    undefined,
+    timeout,
+  );
+  const wanted = normalize(text);
+  const findOption = () => {
+    const options = queryAll(optionSelector).filter(isVisible) as HTMLElement[];
+    const exact = options.find((o) => normalize(o.textContent ?? "") === wanted);
+    if (exact) return exact;
+    const partial = options.filter((o) => normalize(o.textContent ?? "").includes(wanted));
+    return partial.length === 1 ? partial[0] : null;
+  };
+
+  const start = Date.now();
+  const option = await new Promise<HTMLElement | null>((resolve) => {
+    const check = () => {
+      const match = findOption();
+      if (match) return resolve(match);
+      if (Date.now() - start > timeout) return resolve(null);
+      requestAnimationFrame(check);
+    };
+    check();
+  });
+  if (!option) return `No suggestion matching "${text}" appeared for ${selector}`;
+  pointerClick(option);
+  return null;
+}
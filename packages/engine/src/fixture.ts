@@ -0,0 +1,108 @@
+import type { ToolDescriptor, ToolExample, ToolExampleExpectation } from "@web-mcp-hub/db";
+import { query } from "./dom.js";
+import { executeTool } from "./execute.js";
+import { withUrlParams } from "./template.js";
+
+/**
+ * A page snapshot paired with a tool run against it: `html` is loaded into the document,
+ * the tool's execution runs with `input`, and the result and resulting DOM are compared
+ * with `expect`.
+ */
+export interface ToolFixture {
+  /** A full HTML document or a body fragment. Scripts in it are not run. */
+  html: string;
+  tool: ToolDescriptor;
+  input: Record<string, unknown>;
+  /** Params the config's urlPattern would capture, available as {{url.name}} */
+  urlParams?: Record<string, string>;
+  expect: FixtureExpectation;
+}
+
+/** A tool example's expectation (error, pattern, json), plus exact text and DOM checks. */
+export interface FixtureExpectation extends ToolExampleExpectation {
+  /** Exact text of the result */
+  text?: string;
+  /** Element state after the run, e.g. the value a field was filled with */
+  dom?: { selector: string; value?: string; checked?: boolean; text?: string }[];
+}
+
+/** A tool example as a fixture, or null if it has no page snapshot to run against. */
+export function exampleFixture(tool: ToolDescriptor, example: ToolExample): ToolFixture | null {
+  if (!example.fixtureHtml) return null;
+  return { html: example.fixtureHtml, tool, input: example.input, expect: example.expect };
+}
+
+/** Replace the current document's head and body with those of an HTML snapshot. */
+export function loadFixture(html: string): void {
+  const snapshot = new DOMParser().parseFromString(html, "text/html");
+  const adopt = (parent: Element) =>
+    [...parent.childNodes].map((node) => document.importNode(node, true));
+  document.head.replaceChildren(...adopt(snapshot.head));
+  document.body.replaceChildren(...adopt(snapshot.body));
+}
+
+/**
+ * Run a fixture in the current document and list every way the outcome differs from
+ * what it expects. An empty list means the tool behaved as recorded.
+ */
+export async function checkFixture(fixture: ToolFixture): Promise<string[]> {
+  const { tool, expect } = fixture;
+  if (!tool.execution) return [`Tool "${tool.name}" has no execution`];
+
+  loadFixture(fixture.html);
+  const params = withUrlParams(fixture.input, fixture.urlParams);
+  const result = await executeTool(tool.name, tool.execution, params);
+  const text = result.content[0]?.text ?? "";
+  const problems: string[] = [];
+
+  const failed = Boolean(result.isError) || text.startsWith("Error");
+  if (expect.error !== undefined && failed !== expect.error) {
+    problems.push(`expected the run to ${expect.error ? "fail" : "succeed"}, got: ${text}`);
+  }
+  if (expect.text !== undefined && text !== expect.text) {
+    problems.push(`expected text ${JSON.stringify(expect.text)}, got ${JSON.stringify(text)}`);
+  }
+  if (expect.pattern !== undefined && !new RegExp(expect.pattern).test(text)) {
+    problems.push(`expected text matching /${expect.pattern}/, got ${JSON.stringify(text)}`);
+  }
+  if (expect.json !== undefined) {
+    let actual: unknown;
+    try {
+      actual = JSON.parse(text);
+    } catch {
+      problems.push(`expected JSON, got ${JSON.stringify(text)}`);
+    }
+    if (actual !== undefined && canonical(actual) !== canonical(expect.json)) {
+      problems.push(`expected JSON ${canonical(expect.json)}, got ${canonical(actual)}`);
+    }
+  }
+
+  for (const check of expect.dom ?? []) {
+    const el = query(check.selector);
+    if (!el) {
+      problems.push(`${check.selector}: not found after the run`);
+      continue;
+    }
+    const input = el as HTMLInputElement;
+    if (check.value !== undefined && input.value !== check.value) {
+      problems.push(`${check.selector}: expected value "${check.value}", got "${input.value}"`);
+    }
+    if (check.checked !== undefined && input.checked !== check.checked) {
+      problems.push(`${check.selector}: expected checked=${check.checked}`);
+    }
+    const content = el.textContent?.trim() ?? "";
+    if (check.text !== undefined && content !== check.text) {
+      problems.push(`${check.selector}: expected text "${check.text}", got "${content}"`);
+    }
+  }
+  return problems;
+}
+
+/** JSON with object keys sorted, so key order doesn't affect comparisons. */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_, v) =>
+    v !== null && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v,
+  );
+}
@@ -0,0 +1,80 @@
+import type { ActionStep, ToolField } from "@web-mcp-hub/db";
+import { FRAME_SEPARATOR, splitFrames } from "@web-mcp-hub/db/selector";
+import { asFrame, query } from "./dom.js";
+
+// ---------------------------------------------------------------------------
+// Running fields and steps inside frames
+// ---------------------------------------------------------------------------
+
+/**
+ * Work the engine hands to the copy of itself running inside a frame. Selectors in a
+ * request are relative to that frame's document.
+ */
+export type FrameRequest =
+  | { kind: "fill"; field: ToolField; value: unknown }
+  | { kind: "step"; step: ActionStep; params: Record<string, unknown> }
+  | { kind: "submit"; selector: string; by: "click" | "enter"; timeout?: number };
+
+export type FrameResponse = { result: unknown } | { error: string };
+
+/**
+ * Delivers a request to the engine running inside `frame` and resolves with its
+ * response. The extension implements this with a content script in every frame.
+ */
+export type FrameBridge = (
+  frame: HTMLIFrameElement,
+  request: FrameRequest,
+) => Promise<FrameResponse>;
+
+let bridge: FrameBridge | null = null;
+
+/**
+ * Route work aimed inside frames through `next`, or through nothing (null) — then
+ * selectors only reach same-origin frames, with this document's globals.
+ */
+export function setFrameBridge(next: FrameBridge | null) {
+  bridge = next;
+}
+
+/** A selector's first frame hop, resolved, and the rest of the selector. */
+export interface FrameTarget {
+  frame: HTMLIFrameElement;
+  /** The selector that matched `frame` */
+  hop: string;
+  /** The selector to use inside the frame */
+  selector: string;
+}
+
+/**
+ * The frame `selector` reaches into, if a bridge is set and the selector has a frame hop
+ * that matches a frame here. Otherwise null, and the selector is resolved in this
+ * document (where a missing frame reads as a missing element).
+ */
+export function frameTarget(selector: string): FrameTarget | null {
+  if (!bridge || !selector.includes(FRAME_SEPARATOR)) return null;
+  const [hop, ...rest] = splitFrames(selector);
+  const frame = asFrame(query(hop));
+  if (!frame) return null;
+  return { frame, hop, selector: rest.join(` ${FRAME_SEPARATOR} `) };
+}
+
+/**
+ * A selector that belongs with `target` — an option or drop target of the same field or
+ * step — made relative to its frame. Null if it doesn't start with the same hop.
+ */
+export function innerSelector(selector: string, target: FrameTarget): string | null {
+  const [hop, ...rest] = splitFrames(selector);
+  if (hop !== target.hop || rest.length === 0) return null;
+  return rest.join(` ${FRAME_SEPARATOR} `);
+}
+
+/** Send a request to the engine in `target`'s frame. Bridge failures come back as errors. */
+export async function inFrame(target: FrameTarget, request: FrameRequest): Promise<FrameResponse> {
+  if (!bridge) return { error: "No frame bridge is set" };
+  try {
+    return await bridge(target.frame, request);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    return { error: `Frame ${target.hop} did not respond: ${msg}` };
+  }
+}
@@ -0,0 +1,32 @@
+export {
+  executeTool,
+  readToolResult,
+  resumeTool,
+  classifyOutcome,
+  handleFrameRequest,
+  mcpResult,
+  type McpToolResult,
+  type AgentInterface,
+  type ExecuteOptions,
+  type WorkflowState,
+} from "./execute.js";
+export { type StepPosition } from "./steps.js";
+export {
+  setFrameBridge,
+  type FrameBridge,
+  type FrameRequest,
+  type FrameResponse,
+} from "./frames.js";
+export { observeNetwork, setNetworkChannel } from "./network.js";
+export { formatTrace, type TraceEntry } from "./trace.js";
+export { interpolate, withUrlParams } from "./template.js";
+export { query, queryAll, deepQuery, deepQueryAll, isVisible } from "./dom.js";
+export { fillField, fillToolField, fillFileField, clearField } from "./fill.js";
+export { extractResult, coerceToSchema, resultToText } from "./extract.js";
+export {
+  loadFixture,
+  checkFixture,
+  exampleFixture,
+  type ToolFixture,
+  type FixtureExpectation,
+} from "./fixture.js";
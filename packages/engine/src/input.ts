@@ -0,0 +1,187 @@
+// ---------------------------------------------------------------------------
+// Synthetic keyboard and pointer input
+// ---------------------------------------------------------------------------
+
+type ModifierFlag = "ctrlKey" | "shiftKey" | "altKey" | "metaKey";
+
+const MODIFIERS: Record<string, ModifierFlag> = {
+  control: "ctrlKey",
+  ctrl: "ctrlKey",
+  shift: "shiftKey",
+  alt: "altKey",
+  option: "altKey",
+  meta: "metaKey",
+  cmd: "metaKey",
+  command: "metaKey",
+};
+
+const MODIFIER_KEYS: Record<ModifierFlag, string> = {
+  ctrlKey: "Control",
+  shiftKey: "Shift",
+  altKey: "Alt",
+  metaKey: "Meta",
+};
+
+// Pointer moves between press and release; drag libraries wait for a few pixels of travel
+const DRAG_MOVES = 5;
+
+/** KeyboardEvent.code for a key value — enough for handlers that check `code`. */
+function keyCode(key: string): string {
+  if (/^[a-z]$/i.test(key)) return `Key${key.toUpperCase()}`;
+  if (/^\d$/.test(key)) return `Digit${key}`;
+  if (key === " ") return "Space";
+  if (Object.values(MODIFIER_KEYS).includes(key)) return `${key}Left`;
+  return key;
+}
+
+/**
+ * Split a chord like "Control+Enter" or "Meta+Shift+k" into its modifiers and key.
+ * A trailing "+" is the key itself ("Control++").
+ */
+function parseChord(chord: string): { modifiers: ModifierFlag[]; key: string } {
+  const parts = chord.length > 1 ? chord.split(/\+(?!$)/) : [chord];
+  const key = parts.pop()!;
+  const modifiers = parts.map((name) => {
+    const flag = MODIFIERS[name.toLowerCase()];
+    if (!flag) throw new Error(`Unknown modifier "${name}" in key "${chord}"`);
+    return flag;
+  });
+  return { modifiers, key };
+}
+
+/**
+ * Send a key or chord to `target`: keydown for each modifier, keydown / keypress / keyup
+ * for the key with the modifier flags set, then keyup for the modifiers in reverse.
+ * keypress is only sent for keys that produce a character (and Enter) without
+ * Control/Meta/Alt held, as browsers do. No text is typed — use a fill step for that.
+ */
+export function pressKey(target: Element, chord: string) {
+  const { modifiers, key } = parseChord(chord);
+  const flags: Partial<Record<ModifierFlag, boolean>> = {};
+  const send = (type: string, key: string) =>
+    target.dispatchEvent(
+      new KeyboardEvent(type, {
+        key,
+        code: keyCode(key),
+        bubbles: true,
+        cancelable: true,
+        composed: true,
+        ...flags,
+      }),
+    );
+
+  for (const flag of modifiers) {
+    flags[flag] = true;
+    send("keydown", MODIFIER_KEYS[flag]);
+  }
+  send("keydown", key);
+  if ((key.length === 1 || key === "Enter") && !flags.ctrlKey && !flags.metaKey && !flags.altKey) {
+    send("keypress", key);
+  }
+  send("keyup", key);
+  for (const flag of [...modifiers].reverse()) {
+    flags[flag] = false;
+    send("keyup", MODIFIER_KEYS[flag]);
+  }
+}
+
+type Point = { clientX: number; clientY: number };
+
+function center(el: Element): Point {
+  const rect = el.getBoundingClientRect();
+  return { clientX: rect.left + rect.width / 2, clientY: rect.top + rect.height / 2 };
+}
+
+/** Dispatch pointer<type> then mouse<type> (down/move/up) for the primary mouse button. */
+function pointer(type: "down" | "move" | "up", el: Element, at: Point, buttons: number) {
+  const init = {
+    ...at,
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+    button: 0,
+    buttons,
+    pointerId: 1,
+    pointerType: "mouse",
+    isPrimary: true,
+  };
+  el.dispatchEvent(new PointerEvent(`pointer${type}`, init));
+  el.dispatchEvent(new MouseEvent(`mouse${type}`, init));
+}
+
+/**
+ * Move the pointer onto `el`: pointerover/enter, mouseover/enter, then a move. Menus
+ * that open on hover listen for one of these (React's onMouseEnter uses mouseover).
+ */
+export function hover(el: Element) {
+  const coords = center(el);
+  const bubbling = { ...coords, bubbles: true, cancelable: true, composed: true };
+  const direct = { ...coords, bubbles: false, cancelable: false, composed: true };
+  el.dispatchEvent(new PointerEvent("pointerover", bubbling));
+  el.dispatchEvent(new PointerEvent("pointerenter", direct));
+  el.dispatchEvent(new MouseEvent("mouseover", bubbling));
+  el.dispatchEvent(new MouseEvent("mouseenter", direct));
+  el.dispatchEvent(new PointerEvent("pointermove", bubbling));
+  el.dispatchEvent(new MouseEvent("mousemove", bubbling));
+}
+
+/**
+ * Click `el` the way a mouse does: hover, press and release, then a native click. For
+ * widgets like autocomplete suggestions that act on mousedown rather than click.
+ */
+export function pointerClick(el: HTMLElement) {
+  const at = center(el);
+  hover(el);
+  pointer("down", el, at, 1);
+  pointer("up", el, at, 0);
+  el.click();
+}
+
+/**
+ * Drag `source` onto `target`. Elements with draggable="true" get the HTML5 drag events
+ * (dragstart → dragenter/dragover → drop → dragend, sharing one DataTransfer); anything
+ * else gets a pointer/mouse press, moves toward the target, and a release over it — what
+ * pointer-based sortable libraries like dnd-kit listen for.
+ */
+export async function drag(source: Element, target: Element) {
+  const from = center(source);
+  const to = center(target);
+  const frame = () => new Promise((resolve) => setTimeout(resolve, 16));
+
+  hover(source);
+  pointer("down", source, from, 1);
+  await frame();
+
+  if ((source as HTMLElement).draggable) {
+    const dataTransfer = new DataTransfer();
+    const dragEvent = (type: string, el: Element, at: Point) =>
+      el.dispatchEvent(
+        new DragEvent(type, {
+          ...at,
+          bubbles: true,
+          cancelable: true,
+          composed: true,
+          dataTransfer,
+        }),
+      );
+    dragEvent("dragstart", source, from);
+    await frame();
+    dragEvent("dragenter", target, to);
+    // As in a browser, drop only fires if the target accepted the drag by cancelling dragover
+    const accepted = !dragEvent("dragover", target, to);
+    await frame();
+    if (accepted) dragEvent("drop", target, to);
+    dragEvent("dragend", source, to);
+    return;
+  }
+
+  for (let i = 1; i <= DRAG_MOVES; i++) {
+    const at = {
+      clientX: from.clientX + ((to.clientX - from.clientX) * i) / DRAG_MOVES,
+      clientY: from.clientY + ((to.clientY - from.clientY) * i) / DRAG_MOVES,
+    };
+    pointer("move", i === 1 ? source : target, at, 1);
+    await frame();
+  }
+  pointer("up", target, to, 0);
+}
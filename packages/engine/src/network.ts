@@ -0,0 +1,101 @@
+// The page's fetch and XHR can only be watched from the page's own JS world. The extension
+// injects observeNetwork() there on pages whose tools wait for the network; the engine, in
+// the content script's isolated world, follows the in-flight count through DOM events,
+// which both worlds see. The events go out on a random channel the extension picks for
+// each page, so page scripts can't announce counts of their own by accident or by guessing.
+// A page that hooks DOM APIs before the observer starts can still learn the channel, but
+// that only lets it mislead waits on itself.
+let channel: string | null = null;
+
+/**
+ * Follow the observer announcing on `next` (the channel passed to observeNetwork), or
+ * none (null) — then every page looks idle.
+ */
+export function setNetworkChannel(next: string | null) {
+  channel = next;
+}
+
+/**
+ * Run in the page's JS world: count fetch and XHR requests in flight and announce every
+ * change (and the current count when asked) on `channel` for waitForNetworkIdle. Requests
+ * already in flight when it starts aren't counted. Self-contained, so the extension can
+ * inject it with scripting.executeScript().
+ */
+export function observeNetwork(channel: string) {
+  let pending = 0;
+  const announce = () => {
+    document.dispatchEvent(new CustomEvent(channel, { detail: pending }));
+  };
+  const started = () => {
+    pending++;
+    announce();
+  };
+  const finished = () => {
+    pending--;
+    announce();
+  };
+
+  const fetch = window.fetch;
+  window.fetch = function (this: unknown, ...args: Parameters<typeof fetch>) {
+    started();
+    let response: ReturnType<typeof fetch>;
+    try {
+      response = fetch.apply(this, args);
+    } catch (err) {
+      finished();
+      throw err;
+    }
+    response.then(finished, finished);
+    return response;
+  };
+
+  const send = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.send = function (...args: Parameters<typeof send>) {
+    started();
+    this.addEventListener("loadend", finished, { once: true });
+    try {
+      send.apply(this, args);
+    } catch (err) {
+      this.removeEventListener("loadend", finished);
+      finished();
+      throw err;
+    }
+  };
+
+  document.addEventListener(`${channel}:query`, announce);
+}
+
+/**
+ * Wait until no fetch or XHR request has been in flight for `idleTime` ms. Without an
+ * observer (see setNetworkChannel), every page looks idle.
+ */
+export async function waitForNetworkIdle(idleTime = 500, timeout = 10000): Promise<void> {
+  const events = channel;
+  return new Promise((resolve, reject) => {
+    let pending = 0;
+    let idle: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (err?: Error) => {
+      clearTimeout(idle);
+      clearTimeout(deadline);
+      if (events) document.removeEventListener(events, onChange);
+      if (err) reject(err);
+      else resolve();
+    };
+    // Every change restarts the quiet period
+    const onChange = (event: Event) => {
+      pending = Number((event as CustomEvent).detail) || 0;
+      clearTimeout(idle);
+      if (pending === 0) idle = setTimeout(finish, idleTime);
+    };
+    const deadline = setTimeout(() => {
+      finish(new Error(`Timeout waiting for network idle (${pending} requests in flight)`));
+    }, timeout);
+
+    idle = setTimeout(finish, idleTime);
+    if (!events) return;
+    document.addEventListener(events, onChange);
+    // The observer answers synchronously with the current count
+    document.dispatchEvent(new Event(`${events}:query`));
+  });
+}
@@ -0,0 +1,478 @@
+import type { ActionStep, StepErrorPolicy } from "@web-mcp-hub/db";
+import { resolveChain, type Resolved, type SelectorMatch } from "./chain.js";
+import {
+  checkState,
+  query,
+  queryAll,
+  waitForClickable,
+  waitForSelector,
+  waitForText,
+  waitForUrl,
+} from "./dom.js";
+import { extractResult } from "./extract.js";
+import { clearField, fillField } from "./fill.js";
+import { frameTarget, inFrame, innerSelector, type FrameTarget } from "./frames.js";
+import { drag, hover, pressKey } from "./input.js";
+import { waitForNetworkIdle } from "./network.js";
+import { interpolate, interpolateScript } from "./template.js";
+import { traceEntry, type TraceEntry } from "./trace.js";
+
+// forEach marks the current element with this attribute; {{$item}} selects it
+const ITEM_ATTR = "data-webmcp-item";
+let itemSeq = 0;
+
+// Attributes that load a URL (style through url(...)); setAttribute steps can't set them
+const URL_ATTRIBUTES = new Set([
+  "href",
+  "xlink:href",
+  "src",
+  "srcset",
+  "action",
+  "formaction",
+  "data",
+  "poster",
+  "ping",
+  "background",
+  "codebase",
+  "style",
+]);
+
+// Steps that only wait. A slow page shouldn't abort the tool, so they continue by default.
+const WAIT_ACTIONS = new Set<ActionStep["action"]>([
+  "wait",
+  "waitForUrl",
+  "waitForText",
+  "waitForNetworkIdle",
+]);
+
+/** A step that failed under its error policy. Aborts the remaining steps. */
+export class StepError extends Error {
+  constructor(
+    /** Location in the config, e.g. "steps[2]" or "steps[3].then[0]" */
+    readonly path: string,
+    readonly step: ActionStep,
+    message: string,
+    readonly attempts: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Where a step sits in a step list: its index, followed — for a step in a condition's
+ * branch — by the branch and the index there. [2, "then", 1] is steps[2].then[1].
+ */
+export type StepPosition = (number | "then" | "else")[];
+
+/**
+ * Thrown by a navigate step that would load a new document while the run can continue
+ * on it (StepRun.handOff), before it navigates. Each step list it passes through on the
+ * way out records where the run picks up.
+ */
+export class PageLeave extends Error {
+  /** The step after the navigate; unset while no list it left has steps after it */
+  next?: StepPosition;
+
+  constructor(readonly url: string) {
+    super(`Navigating to ${url}`);
+  }
+}
+
+/** State shared by every step of one tool run, including nested steps. */
+export interface StepRun {
+  /** Tool-wide error policy for steps that don't set their own */
+  defaults: StepErrorPolicy;
+  /** Collects a TraceEntry per step when debug traces are on */
+  trace?: TraceEntry[];
+  /** Collects the alternative each selector chain resolved to */
+  matches?: SelectorMatch[];
+  /**
+   * Set when the caller can continue the run on another page: a navigate step that loads
+   * a new document then throws a PageLeave instead of navigating itself.
+   */
+  handOff?: boolean;
+}
+
+/**
+ * Run steps in order under their error policies and return the last step's result.
+ * `from` resumes a run where a PageLeave said it picks up; a position inside a
+ * condition's branch goes straight into that branch without checking the condition again.
+ */
+export async function runSteps(
+  steps: ActionStep[],
+  path: string,
+  params: Record<string, unknown>,
+  vars: Record<string, unknown>,
+  run: StepRun,
+  from: StepPosition = [],
+): Promise<unknown> {
+  const [start = 0, branch, ...rest] = from as [number?, ("then" | "else")?, ...StepPosition];
+  let result: unknown = null;
+  for (let i = start; i < steps.length; i++) {
+    const step = steps[i];
+    try {
+      result =
+        i === start && branch && step.action === "condition"
+          ? await inBranch(branch, () =>
+              runSteps(step[branch] ?? [], `${path}[${i}].${branch}`, params, vars, run, rest),
+            )
+          : await runStep(step, `${path}[${i}]`, params, vars, run);
+    } catch (err) {
+      if (err instanceof PageLeave) {
+        err.next = err.next ? [i, ...err.next] : i < steps.length - 1 ? [i + 1] : undefined;
+      }
+      throw err;
+    }
+  }
+  return result;
+}
+
+/** Run a condition's branch, adding the branch to where a PageLeave from it picks up. */
+async function inBranch<T>(branch: "then" | "else", body: () => Promise<T>): Promise<T> {
+  try {
+    return await body();
+  } catch (err) {
+    if (err instanceof PageLeave && err.next) err.next = [branch, ...err.next];
+    throw err;
+  }
+}
+
+/** Whether navigating to `url` loads a new document, rather than a #fragment of this one. */
+function loadsNewDocument(url: string): boolean {
+  const target = new URL(url, location.href).href;
+  return !target.includes("#") || target.split("#")[0] !== location.href.split("#")[0];
+}
+
+/**
+ * Run one step, retrying or skipping it on failure as its onError policy (or the
+ * tool-wide default) says. Throws a StepError when the failure should abort the tool.
+ */
+export async function runStep(
+  step: ActionStep,
+  path: string,
+  params: Record<string, unknown>,
+  vars: Record<string, unknown>,
+  run: StepRun,
+): Promise<unknown> {
+  const { defaults } = run;
+  const policy =
+    step.onError ?? defaults.onError ?? (WAIT_ACTIONS.has(step.action) ? "continue" : "fail");
+  const attempts = policy === "retry" ? 1 + (step.retries ?? defaults.retries ?? 2) : 1;
+  let delay = step.retryDelay ?? defaults.retryDelay ?? 500;
+
+  // Add the entry before running so nested steps (condition/forEach) are listed after it
+  const entry = {} as TraceEntry;
+  run.trace?.push(entry);
+  const start = performance.now();
+  let resolved: Resolved<ActionStep> | undefined;
+  const record = (attempt: number, error?: string, outcome?: TraceEntry["outcome"]) => {
+    if (!run.trace) return;
+    const selector =
+      resolved && "selector" in resolved && resolved.selector
+        ? interpolate(resolved.selector, params)
+        : undefined;
+    Object.assign(entry, traceEntry(path, step.action, selector, start, error), {
+      attempts: attempt,
+    });
+    if (outcome) entry.outcome = outcome;
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      // Re-resolved on every attempt: a retry may find an alternative that wasn't there yet
+      resolved = await resolveSelectors(step, path, params, run);
+      const result = await executeStep(resolved, path, params, vars, run);
+      record(attempt);
+      return result;
+    } catch (err) {
+      // Not a failure: the run goes on on the next page
+      if (err instanceof PageLeave) {
+        record(attempt);
+        throw err;
+      }
+      // A failing nested step (inside condition/forEach) keeps its own path and selector
+      const failure =
+        err instanceof StepError
+          ? err
+          : new StepError(path, step, err instanceof Error ? err.message : String(err), attempt);
+      if (attempt < attempts) {
+        await new Promise((r) => setTimeout(r, delay));
+        delay *= 2;
+        continue;
+      }
+      record(attempt, failure.message, policy === "continue" ? "continued" : "failed");
+      if (policy === "continue") {
+        console.warn(`[webmcp-hub] ${failure.path} failed, continuing:`, failure.message);
+        return null;
+      }
+      throw failure;
+    }
+  }
+}
+
+/**
+ * The step with its selector chains (`selector`, and a drag's `to`) resolved to the
+ * alternatives that match. Steps that wait for their element — click, and waits for it
+ * to show up — also wait for one of the alternatives to appear.
+ */
+async function resolveSelectors(
+  step: ActionStep,
+  path: string,
+  params: Record<string, unknown>,
+  run: StepRun,
+): Promise<Resolved<ActionStep>> {
+  const resolved = { ...step } as Resolved<ActionStep>;
+  if ("selector" in step && step.selector !== undefined) {
+    const wait =
+      step.action === "click"
+        ? 5000
+        : (step.action === "wait" && step.state !== "hidden") || step.action === "waitForText"
+          ? (step.timeout ?? 5000)
+          : 0;
+    (resolved as { selector: string }).selector = await resolveChain(
+      step.selector,
+      path,
+      run.matches,
+      params,
+      wait,
+    );
+  }
+  if (step.action === "drag" && resolved.action === "drag") {
+    resolved.to = await resolveChain(step.to, `${path}.to`, run.matches, params);
+  }
+  return resolved;
+}
+
+/**
+ * Run one step, throwing on failure. `params` is the template scope; an extract step
+ * with `as` stores its value in `vars` and exposes it to later steps' templates as
+ * {{$vars.name}}. `path` and `run` are passed through to nested steps.
+ */
+async function executeStep(
+  step: Resolved<ActionStep>,
+  path: string,
+  params: Record<string, unknown>,
+  vars: Record<string, unknown>,
+  run: StepRun,
+): Promise<unknown> {
+  // Steps aimed inside a frame run in the engine there. condition and forEach stay here:
+  // their nested steps carry their own selectors.
+  if (
+    "selector" in step &&
+    step.selector &&
+    step.action !== "condition" &&
+    step.action !== "forEach"
+  ) {
+    const target = frameTarget(interpolate(step.selector, params));
+    if (target) return executeInFrame(step, target, params, vars);
+  }
+
+  switch (step.action) {
+    case "navigate": {
+      const url = interpolate(step.url, params);
+      // Only a new document ends the run on this page; a new #fragment keeps it
+      if (run.handOff && loadsNewDocument(url)) throw new PageLeave(url);
+      window.location.href = url;
+      return `Navigating to ${url}`;
+    }
+    case "click": {
+      const el = await waitForClickable(step.selector, params);
+      if (!el) throw new Error("Click target not found or not clickable");
+      // Use native .click() so the event has isTrusted:true — sites like X.com
+      // check isTrusted on reply/like handlers and ignore synthetic events.
+      el.click();
+      return null;
+    }
+    case "fill": {
+      const selector = interpolate(step.selector, params);
+      const value = interpolate(step.value, params);
+      const err = await fillField(selector, value);
+      if (err) throw new Error(err);
+      return null;
+    }
+    case "select": {
+      const selector = interpolate(step.selector, params);
+      const value = interpolate(step.value, params);
+      const err = await fillField(selector, value);
+      if (err) throw new Error(err);
+      return null;
+    }
+    case "wait": {
+      // A timeout only aborts the tool when the step (or tool) opts into onError "fail"
+      await waitForSelector(interpolate(step.selector, params), step.state, step.timeout);
+      return null;
+    }
+    case "waitForUrl": {
+      await waitForUrl(interpolate(step.url, params), step.timeout);
+      return null;
+    }
+    case "waitForNetworkIdle": {
+      await waitForNetworkIdle(step.idleTime, step.timeout);
+      return null;
+    }
+    case "waitForText": {
+      const selector = step.selector && interpolate(step.selector, params);
+      await waitForText(interpolate(step.text, params), selector, step.timeout);
+      return null;
+    }
+    case "extract": {
+      const selector = interpolate(step.selector, params);
+      const result = extractResult(selector, step.extract, step.attribute);
+      if (step.as) storeAs(step.as, result, params, vars);
+      return result;
+    }
+    case "scroll": {
+      const el = query(step.selector, params);
+      if (!el) throw new Error("Scroll target not found");
+      el.scrollIntoView({ behavior: "smooth" });
+      return null;
+    }
+    case "remove": {
+      const els = step.all
+        ? queryAll(step.selector, params)
+        : [query(step.selector, params)].filter((el) => el !== null);
+      if (els.length === 0) throw new Error("Element to remove not found");
+      for (const el of els) el.remove();
+      return null;
+    }
+    case "dispatch": {
+      const el = query(step.selector, params);
+      if (!el) throw new Error("Event target not found");
+      const init = { bubbles: step.bubbles ?? true, cancelable: true, composed: true };
+      el.dispatchEvent(
+        step.detail !== undefined
+          ? new CustomEvent(step.event, { ...init, detail: step.detail })
+          : new Event(step.event, init),
+      );
+      return null;
+    }
+    case "setAttribute": {
+      const el = query(step.selector, params);
+      if (!el) throw new Error("Element not found");
+      if (step.value === undefined) {
+        el.removeAttribute(step.attribute);
+        return null;
+      }
+      // Validation refuses these attributes; this covers configs saved before it did
+      if (URL_ATTRIBUTES.has(step.attribute.toLowerCase())) {
+        throw new Error(`The "${step.attribute}" attribute can't be set`);
+      }
+      // Validation rejects literal javascript: URLs; this catches ones built from params.
+      // URL parsing drops tabs, newlines and control characters, so they're ignored here too.
+      const value = interpolate(step.value, params);
+      if (/^javascript:/i.test(value.replace(/[\p{Cc} ]/gu, ""))) {
+        throw new Error("javascript: URLs can't be set");
+      }
+      el.setAttribute(step.attribute, value);
+      return null;
+    }
+    case "focus": {
+      const el = query(step.selector, params) as HTMLElement | null;
+      if (!el) throw new Error("Focus target not found");
+      el.focus();
+      return null;
+    }
+    case "press": {
+      const target = step.selector ? query(step.selector, params) : document.activeElement;
+      if (!target) throw new Error("Key target not found");
+      pressKey(target, interpolate(step.key, params));
+      return null;
+    }
+    case "drag": {
+      const source = query(step.selector, params);
+      if (!source) throw new Error("Drag source not found");
+      const target = query(step.to, params);
+      if (!target) throw new Error("Drop target not found");
+      await drag(source, target);
+      return null;
+    }
+    case "clear": {
+      const err = await clearField(interpolate(step.selector, params));
+      if (err) throw new Error(err);
+      return null;
+    }
+    case "hover": {
+      const el = query(step.selector, params);
+      if (!el) throw new Error("Hover target not found");
+      hover(el);
+      return null;
+    }
+    case "condition": {
+      const el = query(step.selector, params);
+      const match = checkState(el, step.state);
+      const branch = match ? "then" : "else";
+      const branchSteps = step[branch];
+      if (!branchSteps) return null;
+      return inBranch(branch, () => runSteps(branchSteps, `${path}.${branch}`, params, vars, run));
+    }
+    case "forEach": {
+      const els = queryAll(step.selector, params).slice(0, step.max);
+      const results: unknown[] = [];
+      for (const el of els) {
+        // Tag the element so {{$item}} resolves to a selector for exactly this element
+        const id = String(++itemSeq);
+        el.setAttribute(ITEM_ATTR, id);
+        const itemScope = { ...params, $item: `[${ITEM_ATTR}="${id}"]` };
+        const itemVars: Record<string, unknown> = {};
+        let itemResult: unknown;
+        try {
+          itemResult = await runSteps(step.steps, `${path}.steps`, itemScope, itemVars, run);
+        } catch (err) {
+          // The items are on this page, so the loop can't go on on another one
+          if (err instanceof PageLeave) {
+            throw new Error("A navigate step inside forEach can only change the URL's #fragment");
+          }
+          throw err;
+        } finally {
+          el.removeAttribute(ITEM_ATTR);
+        }
+        // Named extracts make each item an object, like the tool-level result
+        results.push(Object.keys(itemVars).length > 0 ? itemVars : itemResult);
+      }
+      if (step.as) storeAs(step.as, results, params, vars);
+      return results;
+    }
+    case "evaluate": {
+      if (step.value) {
+        const code = interpolateScript(step.value, params);
+        await new Function(`return (async () => { ${code} })()`)();
+      }
+      return null;
+    }
+  }
+}
+
+/** Store a named result in `vars` and expose it to later templates as {{$vars.name}}. */
+function storeAs(
+  name: string,
+  value: unknown,
+  params: Record<string, unknown>,
+  vars: Record<string, unknown>,
+) {
+  vars[name] = value;
+  params[`$vars.${name}`] = value;
+}
+
+/**
+ * Run a step in the engine inside `target`'s frame, throwing its error here so the
+ * step's error policy applies as usual. A named extract is stored on this side.
+ */
+async function executeInFrame(
+  step: Resolved<ActionStep>,
+  target: FrameTarget,
+  params: Record<string, unknown>,
+  vars: Record<string, unknown>,
+): Promise<unknown> {
+  const framed = { ...step, selector: target.selector, onError: "fail" } as Resolved<ActionStep>;
+  if (framed.action === "drag") {
+    const to = innerSelector(interpolate(framed.to, params), target);
+    if (to === null) throw new Error(`Drop target must be inside the frame ${target.hop}`);
+    framed.to = to;
+  }
+  if (framed.action === "extract") delete framed.as;
+
+  const response = await inFrame(target, { kind: "step", step: framed, params: { ...params } });
+  if ("error" in response) throw new Error(response.error);
+  if (step.action === "extract" && step.as) storeAs(step.as, response.result, params, vars);
+  return response.result;
+}
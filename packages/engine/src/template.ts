@@ -0,0 +1,34 @@
+export function interpolate(template: string, params: Record<string, unknown>): string {
+  return template.replace(/\{\{([\w.$]+)\}\}/g, (_, key) => String(params[key] ?? ""));
+}
+
+/**
+ * Interpolate into evaluate step code. Validation only allows templates inside string
+ * literals, so each value is escaped as string content — quotes, backslashes, `${`
+ * and line breaks become \u escapes and a param can't end the literal and run code.
+ */
+export function interpolateScript(code: string, params: Record<string, unknown>): string {
+  return code.replace(/\{\{([\w.$]+)\}\}/g, (_, key) =>
+    String(params[key] ?? "").replace(
+      /["'`\\$\n\r\u2028\u2029]/g,
+      (c) => `\\u${c.charCodeAt(0).toString(16).padStart(4, "0")}`,
+    ),
+  );
+}
+
+/**
+ * Add the config's captured URL params (e.g. :id in "example.com/dashboard/:id") to the
+ * agent-supplied params as "url.id", so templates can use {{url.id}}. URL params win —
+ * an agent can't override what the page URL says.
+ */
+export function withUrlParams(
+  params: Record<string, unknown>,
+  urlParams?: Record<string, string>,
+): Record<string, unknown> {
+  if (!urlParams) return params;
+  const merged = { ...params };
+  for (const [key, value] of Object.entries(urlParams)) {
+    merged[`url.${key}`] = value;
+  }
+  return merged;
+}
@@ -0,0 +1,55 @@
+import { queryAll } from "./dom.js";
+
+/** One step's line in the debug trace. */
+export interface TraceEntry {
+  /** Location in the config, e.g. "steps[2]", "fields[0]", "submit", "result" */
+  step: string;
+  action: string;
+  /** The selector after template interpolation */
+  selector?: string;
+  /** Elements the selector matched when the step finished */
+  matched?: number;
+  durationMs: number;
+  /** "continued" means the step failed but its onError policy let the tool carry on */
+  outcome: "ok" | "failed" | "continued";
+  attempts?: number;
+  error?: string;
+}
+
+export function traceEntry(
+  step: string,
+  action: string,
+  selector: string | undefined,
+  start: number,
+  error?: string | null,
+): TraceEntry {
+  return {
+    step,
+    action,
+    selector,
+    matched: selector ? countMatches(selector) : undefined,
+    durationMs: Math.round(performance.now() - start),
+    outcome: error ? "failed" : "ok",
+    ...(error && { error }),
+  };
+}
+
+function countMatches(selector: string): number {
+  try {
+    return queryAll(selector).length;
+  } catch {
+    return 0; // Invalid selector — the step's own error says why
+  }
+}
+
+/** Render the trace as one line per step, e.g. `steps[1] click ".send" → 1 matched, 12ms, ok`. */
+export function formatTrace(trace: TraceEntry[]): string {
+  const lines = trace.map((t) => {
+    const target = t.selector ? ` "${t.selector}"` : "";
+    const matched = t.matched !== undefined ? `${t.matched} matched, ` : "";
+    const attempts = t.attempts && t.attempts > 1 ? `, ${t.attempts} attempts` : "";
+    const error = t.error ? ` — ${t.error}` : "";
+    return `${t.step} ${t.action}${target} → ${matched}${t.durationMs}ms, ${t.outcome}${attempts}${error}`;
+  });
+  return `Trace:\n${lines.join("\n") || "(no steps ran)"}`;
+}
@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { chromium, type Browser, type Page } from "playwright";
+import type { ToolDescriptor, WebMcpConfig } from "@web-mcp-hub/db";
+import { checkConfig, checkTool, targetUrl, toolStatus } from "../check.js";
+
+const fixture = (name: string) =>
+  pathToFileURL(fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url))).href;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function tool(name: string, execution: ToolDescriptor["execution"]): ToolDescriptor {
+  return {
+    name,
+    description: name,
+    inputSchema: { type: "object", properties: {} },
+    execution,
+  };
+}
+
+function config(tools: ToolDescriptor[]): WebMcpConfig {
+  return {
+    id: "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f",
+    domain: "shop.example",
+    urlPattern: "shop.example/search",
+    title: "Fixture store",
+    description: "Fixture",
+    tools,
+    contributor: "tester",
+    version: 4,
+    verified: true,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+// ---------------------------------------------------------------------------
+// targetUrl / toolStatus
+// ---------------------------------------------------------------------------
+
+describe("targetUrl", () => {
+  it("turns a static pattern into an https URL", () => {
+    expect(targetUrl({ urlPattern: "example.com/search" })).toBe("https://example.com/search");
+    expect(targetUrl({ urlPattern: "localhost:3000/#/inbox" })).toBe(
+      "https://localhost:3000/#/inbox",
+    );
+  });
+
+  it("returns null for dynamic patterns", () => {
+    expect(targetUrl({ urlPattern: "example.com/users/:id" })).toBeNull();
+    expect(targetUrl({ urlPattern: "example.com/admin/**" })).toBeNull();
+    expect(targetUrl({ urlPattern: "example.com/search?q=:query" })).toBeNull();
+    expect(targetUrl({ urlPattern: "*.atlassian.net/browse" })).toBeNull();
+  });
+});
+
+describe("toolStatus", () => {
+  it("is unchecked when every selector was skipped", () => {
+    expect(toolStatus([{ path: "selector", selector: "{{x}}", matched: null }])).toBe("unchecked");
+  });
+
+  it("is broken when any checked selector matched nothing", () => {
+    expect(
+      toolStatus([
+        { path: "selector", selector: "form", matched: 1 },
+        { path: "fields[0]", selector: "#gone", matched: 0 },
+      ]),
+    ).toBe("broken");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// checkTool / checkConfig against fixtures
+// ---------------------------------------------------------------------------
+
+// Needs Chromium (`npx playwright install chromium`). Without it these tests fail rather
+// than skip, so CI can't pass without running them.
+describe("against HTML fixtures", () => {
+  let browser: Browser | undefined;
+  let page: Page;
+
+  beforeAll(async () => {
+    browser = await chromium.launch();
+    page = await browser.newPage();
+    await page.goto(fixture("search.html"));
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+  });
+
+  it("counts matches for fields, :has-text() and shadow DOM selectors", async () => {
+    const results = await checkTool(
+      page,
+      tool("search", {
+        selector: "#search-form",
+        autosubmit: true,
+        fields: [
+          { type: "text", selector: "#q", name: "query", description: "Query" },
+          {
+            type: "select",
+            selector: "#category",
+            name: "category",
+            description: "Category",
+            options: [{ value: "all", label: "All" }],
+          },
+        ],
+        submitSelector: 'li:has-text("Second result") .delete-btn',
+      }),
+    );
+    expect(results.map((r) => [r.path, r.matched])).toEqual([
+      ["selector", 1],
+      ["fields[0]", 1],
+      ["fields[1]", 1],
+      ["submitSelector", 1],
+    ]);
+
+    const shadow = await checkTool(
+      page,
+      tool("checkout", { selector: "cart-widget .checkout", autosubmit: true }),
+    );
+    expect(shadow[0].matched).toBe(1);
+  });
+
+  it("counts matches inside frames", async () => {
+    const results = await checkTool(
+      page,
+      tool("pay", {
+        selector: "#payment >>> input[name=card]",
+        autosubmit: true,
+        submitSelector: "#payment >>> .cvc >>> input[name=cvc]",
+      }),
+    );
+    expect(results.map((r) => r.matched)).toEqual([1, 1]);
+  });
+
+  it("resolves role, XPath, :nth-match() and text selectors like the extension", async () => {
+    const results = await checkTool(
+      page,
+      tool("delete", {
+        selector: 'role=button[name="Search"]',
+        autosubmit: false,
+        fields: [
+          {
+            type: "text",
+            selector: 'li:text-is("First result Delete") button',
+            name: "exact",
+            description: "",
+          },
+          {
+            type: "text",
+            selector: 'li:has-text("FIRST") button',
+            name: "wrongCase",
+            description: "",
+          },
+        ],
+        submitSelector: ':nth-match(li:has-text("result"), 2) role=button[name="delete" i]',
+        resultSelector: '//ul[@id="results"]/li',
+      }),
+      { timeout: 200 },
+    );
+    expect(results.map((r) => r.matched)).toEqual([1, 1, 0, 1, 2]);
+  });
+
+  it("reports the alternative of a selector chain that matched", async () => {
+    const results = await checkTool(
+      page,
+      tool("search", {
+        selector: ["#old-search", "#search-form"],
+        autosubmit: true,
+        submitSelector: [".go", ".submit-btn"],
+      }),
+      { timeout: 200 },
+    );
+    expect(results).toEqual([
+      { path: "selector", selector: "#search-form", alternative: 2, matched: 1 },
+      { path: "submitSelector", selector: ".go | .submit-btn", matched: 0 },
+    ]);
+  });
+
+  it("waits for content rendered after load", async () => {
+    const [result] = await checkTool(
+      page,
+      tool("more", { selector: "#late .load-more", autosubmit: true }),
+    );
+    expect(result.matched).toBe(1);
+  });
+
+  it("reports missing and invalid selectors", async () => {
+    const results = await checkTool(
+      page,
+      tool("stale", {
+        selector: "#search-form",
+        autosubmit: false,
+        fields: [
+          { type: "text", selector: "#old-query-box", name: "query", description: "Query" },
+          { type: "text", selector: "input[name=", name: "other", description: "Broken" },
+        ],
+      }),
+      { timeout: 200 },
+    );
+    expect(results[1]).toMatchObject({ path: "fields[0]", matched: 0 });
+    expect(results[2]).toMatchObject({ path: "fields[1]", matched: 0 });
+    expect(results[2].error).toBeDefined();
+  });
+
+  it("checks every executable tool in a config", async () => {
+    const results = await checkConfig(
+      page,
+      config([
+        tool("list", {
+          selector: "#results",
+          autosubmit: false,
+          resultSelector: "#results li",
+          resultExtract: "list",
+        }),
+        tool("gone", { selector: "#removed-widget", autosubmit: true }),
+        { name: "docs", description: "No execution", inputSchema: { type: "object" } },
+      ]),
+      fixture("search.html"),
+      { timeout: 200 },
+    );
+    expect(results.map((r) => [r.toolName, r.status, r.configVersion])).toEqual([
+      ["list", "healthy", 4],
+      ["gone", "broken", 4],
+    ]);
+  });
+});
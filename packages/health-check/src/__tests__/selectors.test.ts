@@ -0,0 +1,197 @@
+import { describe, it, expect } from "vitest";
+import type { ToolDescriptor } from "@web-mcp-hub/db";
+import { collectSelectors } from "../selectors.js";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function tool(execution: ToolDescriptor["execution"]): ToolDescriptor {
+  return {
+    name: "search",
+    description: "Search the site",
+    inputSchema: { type: "object", properties: { query: { type: "string" } } },
+    execution,
+  };
+}
+
+const checked = (t: ToolDescriptor) =>
+  collectSelectors(t)
+    .filter((c) => !c.skipped)
+    .map((c) => c.path);
+
+// ---------------------------------------------------------------------------
+// collectSelectors
+// ---------------------------------------------------------------------------
+
+describe("collectSelectors", () => {
+  it("returns nothing for tools without execution", () => {
+    expect(collectSelectors(tool(undefined))).toEqual([]);
+  });
+
+  it("checks the form, fields and submit button in simple mode", () => {
+    const t = tool({
+      selector: "#search-form",
+      autosubmit: true,
+      submitSelector: "button[type=submit]",
+      fields: [{ type: "text", selector: "#q", name: "query", description: "Query" }],
+      resultSelector: "#results li",
+      resultExtract: "list",
+    });
+    expect(checked(t)).toEqual(["selector", "fields[0]", "submitSelector"]);
+    expect(collectSelectors(t).find((c) => c.path === "resultSelector")?.skipped).toBe(
+      "appears after the tool submits",
+    );
+  });
+
+  it("checks the result selector of extract-only tools", () => {
+    const t = tool({
+      selector: "#results",
+      autosubmit: false,
+      resultSelector: "#results li",
+      resultExtract: "list",
+    });
+    expect(checked(t)).toEqual(["selector", "resultSelector"]);
+  });
+
+  it("checks each radio option selector", () => {
+    const t = tool({
+      selector: "form",
+      autosubmit: false,
+      fields: [
+        {
+          type: "radio",
+          selector: "input[name=size]",
+          name: "size",
+          description: "Size",
+          options: [
+            { value: "s", label: "Small", selector: "#size-s" },
+            { value: "l", label: "Large", selector: "#size-l" },
+          ],
+        },
+      ],
+    });
+    expect(checked(t)).toEqual([
+      "selector",
+      "fields[0]",
+      "fields[0].options[0]",
+      "fields[0].options[1]",
+    ]);
+  });
+
+  it("skips combobox suggestions, which only appear after typing", () => {
+    const t = tool({
+      selector: "form",
+      autosubmit: false,
+      fields: [
+        {
+          type: "combobox",
+          selector: "#city",
+          name: "city",
+          description: "City",
+          optionSelector: "[role=option]",
+        },
+      ],
+    });
+    expect(checked(t)).toEqual(["selector", "fields[0]"]);
+    expect(collectSelectors(t)[2]).toEqual({
+      path: "fields[0].optionSelector",
+      selector: "[role=option]",
+      skipped: "appears after typing",
+    });
+  });
+
+  it("skips templated selectors", () => {
+    const t = tool({
+      selector: "#app",
+      autosubmit: false,
+      steps: [{ action: "click", selector: 'li:has-text("{{query}}") .open' }],
+    });
+    expect(collectSelectors(t)[1]).toEqual({
+      path: "steps[0]",
+      selector: 'li:has-text("{{query}}") .open',
+      skipped: "uses a template",
+    });
+  });
+
+  it("keeps selector chains together and skips them if any alternative is templated", () => {
+    const t = tool({
+      selector: ["#app", "main"],
+      autosubmit: false,
+      steps: [{ action: "click", selector: [".open", 'li:has-text("{{query}}")'] }],
+    });
+    expect(collectSelectors(t)).toEqual([
+      { path: "selector", selector: ["#app", "main"] },
+      {
+        path: "steps[0]",
+        selector: [".open", 'li:has-text("{{query}}")'],
+        skipped: "uses a template",
+      },
+    ]);
+  });
+
+  it("skips steps after a click or navigation", () => {
+    const t = tool({
+      selector: "#app",
+      autosubmit: false,
+      steps: [
+        { action: "fill", selector: "#q", value: "{{query}}" },
+        { action: "wait", selector: "#results" },
+        { action: "click", selector: "#open-dialog" },
+        { action: "click", selector: "#dialog .confirm" },
+      ],
+    });
+    expect(checked(t)).toEqual(["selector", "steps[0]", "steps[1]", "steps[2]"]);
+    expect(collectSelectors(t)[4].skipped).toBe("runs after an earlier step changed the page");
+  });
+
+  it("skips conditions, their branches and loop bodies", () => {
+    const t = tool({
+      selector: "#app",
+      autosubmit: false,
+      steps: [
+        {
+          action: "condition",
+          selector: ".cookie-banner",
+          state: "visible",
+          then: [{ action: "extract", selector: ".cookie-banner .title", extract: "text" }],
+        },
+        {
+          action: "forEach",
+          selector: ".product",
+          steps: [{ action: "extract", selector: "{{$item}} .title", extract: "text" }],
+        },
+      ],
+    });
+    expect(collectSelectors(t).map((c) => [c.path, c.skipped])).toEqual([
+      ["selector", undefined],
+      ["steps[0]", "condition — may legitimately be absent"],
+      ["steps[0].then[0]", "runs conditionally"],
+      ["steps[1]", undefined],
+      ["steps[1].steps[0]", "runs conditionally"],
+    ]);
+  });
+
+  it("skips waits for elements to disappear", () => {
+    const t = tool({
+      selector: "#app",
+      autosubmit: false,
+      steps: [{ action: "wait", selector: ".spinner", state: "hidden" }],
+    });
+    expect(checked(t)).toEqual(["selector"]);
+  });
+
+  it("checks the scope of text waits and nothing for URL and network waits", () => {
+    const t = tool({
+      selector: "#app",
+      autosubmit: false,
+      steps: [
+        { action: "waitForNetworkIdle" },
+        { action: "waitForText", text: "Results", selector: "#status" },
+        { action: "waitForText", text: "Done" },
+        { action: "waitForUrl", url: "/results?q=*" },
+      ],
+    });
+    expect(collectSelectors(t).map((c) => c.path)).toEqual(["selector", "steps[1]"]);
+  });
+});
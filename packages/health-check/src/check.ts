@@ -0,0 +1,118 @@
+import type { Page } from "playwright";
+import type {
+  SelectorHealth,
+  ToolDescriptor,
+  ToolHealth,
+  ToolHealthStatus,
+  WebMcpConfig,
+} from "@web-mcp-hub/db";
+import { selectorAlternatives, splitFrames } from "@web-mcp-hub/db/selector";
+import { countInFrames } from "./page-engine.js";
+import { collectSelectors } from "./selectors.js";
+
+export interface CheckOptions {
+  /** Ms to wait for each selector to appear before counting it as missing (default 3000). */
+  timeout?: number;
+}
+
+/**
+ * The page to check a config against, or null when its urlPattern has dynamic parts
+ * (":id", "*", a wildcard domain) and a concrete URL must be given instead.
+ */
+export function targetUrl(config: Pick<WebMcpConfig, "urlPattern">): string | null {
+  const pattern = config.urlPattern;
+  const pathStart = pattern.search(/[/?#]/);
+  const host = pathStart === -1 ? pattern : pattern.slice(0, pathStart);
+  const rest = pathStart === -1 ? "" : pattern.slice(pathStart);
+  if (host.startsWith("*.") || /[:*]/.test(rest)) return null;
+  return `https://${host}${rest}`;
+}
+
+/**
+ * Resolve each checkable selector of a tool on the page with the extension's own engine
+ * (see page-engine.ts), so shadow DOM, text, role and XPath selectors match exactly as
+ * they do for users. Frame hops (`iframe#checkout >>> input`) are followed into each
+ * frame, cross-origin ones included.
+ */
+export async function checkTool(
+  page: Page,
+  tool: ToolDescriptor,
+  opts: CheckOptions = {},
+): Promise<SelectorHealth[]> {
+  const timeout = opts.timeout ?? 3000;
+  const results: SelectorHealth[] = [];
+  for (const check of collectSelectors(tool)) {
+    const alternatives = selectorAlternatives(check.selector);
+    let health: SelectorHealth = {
+      path: check.path,
+      selector: alternatives.join(" | "),
+      matched: check.skipped ? null : 0,
+      ...(check.skipped && { skipped: check.skipped }),
+    };
+    // Like the extension, a chain only needs one of its alternatives to match
+    for (const [i, selector] of check.skipped ? [] : alternatives.entries()) {
+      const count = await countMatches(page, selector, timeout);
+      if (count.matched > 0) {
+        const alternative = Array.isArray(check.selector) ? { alternative: i + 1 } : {};
+        health = { path: check.path, selector, ...count, ...alternative };
+        break;
+      }
+      health = { ...health, ...count };
+    }
+    results.push(health);
+  }
+  return results;
+}
+
+/** Elements `selector` matches, or 0 and the reason the engine rejected it. */
+async function countMatches(
+  page: Page,
+  selector: string,
+  timeout: number,
+): Promise<{ matched: number; error?: string }> {
+  const deadline = Date.now() + timeout;
+  try {
+    const hops = splitFrames(selector);
+    for (;;) {
+      const matched = await countInFrames(page.mainFrame(), hops);
+      // Give client-rendered content a moment before declaring the selector missing
+      if (matched > 0 || Date.now() >= deadline) return { matched };
+      await page.waitForTimeout(100);
+    }
+  } catch (err) {
+    return { matched: 0, error: err instanceof Error ? err.message.split("\n")[0] : String(err) };
+  }
+}
+
+export function toolStatus(selectors: SelectorHealth[]): ToolHealthStatus {
+  const checked = selectors.filter((s) => s.matched !== null);
+  if (checked.length === 0) return "unchecked";
+  return checked.some((s) => s.matched === 0) ? "broken" : "healthy";
+}
+
+/** Load `url` once and check every tool with execution metadata against it. */
+export async function checkConfig(
+  page: Page,
+  config: WebMcpConfig,
+  url: string,
+  opts: CheckOptions = {},
+): Promise<ToolHealth[]> {
+  await page.goto(url, { waitUntil: "domcontentloaded" });
+  // SPAs keep fetching after DOMContentLoaded; don't wait forever on pages that poll
+  await page.waitForLoadState("networkidle", { timeout: 10_000 }).catch(() => null);
+
+  const results: ToolHealth[] = [];
+  for (const tool of config.tools) {
+    if (!tool.execution) continue;
+    const selectors = await checkTool(page, tool, opts);
+    results.push({
+      toolName: tool.name,
+      status: toolStatus(selectors),
+      configVersion: config.version,
+      url,
+      checkedAt: new Date().toISOString(),
+      selectors,
+    });
+  }
+  return results;
+}
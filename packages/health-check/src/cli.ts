@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+import { chromium } from "playwright";
+import { checkConfig, targetUrl } from "./check.js";
+import { fetchConfig, reportHealth, setToolVerified } from "./hub.js";
+
+const USAGE = `Usage: web-mcp-health <configId...> [options]
+
+Loads each config's page in headless Chromium and checks that its tools' selectors
+still resolve, then records a health status per tool on the hub.
+
+Options:
+  --url <url>         Page to check (required when the urlPattern has :params or wildcards)
+  --timeout <ms>      Wait per selector before counting it missing (default 3000)
+  --dry-run           Print results without writing them to the hub
+  --unverify-broken   Also mark broken tools as unverified
+
+Environment: HUB_URL (default https://www.webmcp-hub.com), WEBHOOK_SECRET`;
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    url: { type: "string" },
+    timeout: { type: "string" },
+    "dry-run": { type: "boolean", default: false },
+    "unverify-broken": { type: "boolean", default: false },
+    help: { type: "boolean", short: "h", default: false },
+  },
+});
+
+if (values.help || positionals.length === 0) {
+  console.error(USAGE);
+  process.exit(values.help ? 0 : 1);
+}
+
+const timeout = values.timeout ? Number(values.timeout) : undefined;
+let failed = false;
+
+const browser = await chromium.launch();
+try {
+  for (const configId of positionals) {
+    const config = await fetchConfig(configId);
+    const url = values.url ?? targetUrl(config);
+    if (!url) {
+      console.error(`${configId}: urlPattern "${config.urlPattern}" is dynamic — pass --url`);
+      failed = true;
+      continue;
+    }
+
+    const page = await browser.newPage();
+    const results = await checkConfig(page, config, url, { timeout }).finally(() => page.close());
+
+    console.log(`${config.title} (${configId}, v${config.version}) — ${url}`);
+    for (const r of results) {
+      console.log(`  ${r.toolName}: ${r.status}`);
+      for (const s of r.selectors.filter((s) => s.matched === 0)) {
+        console.log(`    missing ${s.path}: ${s.selector}${s.error ? ` (${s.error})` : ""}`);
+      }
+    }
+    if (results.some((r) => r.status === "broken")) failed = true;
+
+    if (values["dry-run"] || results.length === 0) continue;
+    await reportHealth(configId, results);
+    if (values["unverify-broken"]) {
+      for (const r of results.filter((r) => r.status === "broken")) {
+        await setToolVerified(configId, r.toolName, false);
+      }
+    }
+  }
+} finally {
+  await browser.close();
+}
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,35 @@
+import type { ToolHealth, WebMcpConfig } from "@web-mcp-hub/db";
+
+const HUB_BASE = process.env.HUB_URL ?? "https://www.webmcp-hub.com";
+// Shared secret for the hub's /api/internal/* endpoints
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET;
+
+async function internalPost(path: string, body: unknown): Promise<void> {
+  if (!WEBHOOK_SECRET) throw new Error("WEBHOOK_SECRET is not set");
+  const res = await fetch(`${HUB_BASE}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-webhook-secret": WEBHOOK_SECRET },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    throw new Error(`${path} failed (${res.status}): ${await res.text()}`);
+  }
+}
+
+export async function fetchConfig(id: string): Promise<WebMcpConfig> {
+  const res = await fetch(`${HUB_BASE}/api/configs/${encodeURIComponent(id)}`);
+  if (!res.ok) throw new Error(`Config ${id} not found (${res.status})`);
+  return res.json() as Promise<WebMcpConfig>;
+}
+
+export async function reportHealth(configId: string, results: ToolHealth[]): Promise<void> {
+  await internalPost("/api/internal/health", { configId, results });
+}
+
+export async function setToolVerified(
+  configId: string,
+  toolName: string,
+  verified: boolean,
+): Promise<void> {
+  await internalPost("/api/internal/verify", { configId, toolName, verified });
+}
@@ -0,0 +1,4 @@
+export { collectSelectors } from "./selectors.js";
+export type { SelectorCheck } from "./selectors.js";
+export { checkConfig, checkTool, toolStatus, targetUrl } from "./check.js";
+export type { CheckOptions } from "./check.js";
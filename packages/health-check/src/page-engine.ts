@@ -0,0 +1,69 @@
+import { dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { build } from "esbuild";
+import type { Frame } from "playwright";
+
+/** Global the bundled engine is installed under in each checked frame. */
+const ENGINE_GLOBAL = "__webMcpHealthEngine";
+
+interface PageEngine {
+  query(selector: string): Element | null;
+  queryAll(selector: string): Element[];
+}
+
+let bundle: Promise<string> | undefined;
+
+/**
+ * The extension engine's query()/queryAll() from @web-mcp-hub/engine, bundled into a
+ * script for the checked page — so a health check resolves shadow DOM, text, role and
+ * XPath selectors with the same code as the extension instead of a re-implementation.
+ */
+function engineBundle(): Promise<string> {
+  bundle ??= build({
+    stdin: {
+      contents: `import { query, queryAll } from "@web-mcp-hub/engine";
+globalThis.${ENGINE_GLOBAL} = { query, queryAll };`,
+      resolveDir: dirname(fileURLToPath(import.meta.url)),
+    },
+    bundle: true,
+    format: "iife",
+    platform: "browser",
+    write: false,
+  }).then((result) => result.outputFiles[0].text);
+  return bundle;
+}
+
+/**
+ * Install the engine in `frame` unless it's already there. Evaluated through the
+ * debugging protocol, so the page's Content-Security-Policy doesn't block it.
+ */
+async function ensureEngine(frame: Frame): Promise<void> {
+  const installed = await frame.evaluate((name) => name in globalThis, ENGINE_GLOBAL);
+  if (!installed) await frame.evaluate(await engineBundle());
+}
+
+/**
+ * Count the elements the engine matches for `hops` (a selector split at `>>>`). Each
+ * frame hop is followed through Playwright, which — unlike the engine on its own —
+ * can also enter cross-origin frames.
+ */
+export async function countInFrames(frame: Frame, hops: string[]): Promise<number> {
+  for (const hop of hops.slice(0, -1)) {
+    await ensureEngine(frame);
+    const handle = await frame.evaluateHandle(
+      ([name, selector]) =>
+        (globalThis as unknown as Record<string, PageEngine>)[name].query(selector),
+      [ENGINE_GLOBAL, hop] as const,
+    );
+    const next = await handle.asElement()?.contentFrame();
+    await handle.dispose();
+    if (!next) return 0;
+    frame = next;
+  }
+  await ensureEngine(frame);
+  return frame.evaluate(
+    ([name, selector]) =>
+      (globalThis as unknown as Record<string, PageEngine>)[name].queryAll(selector).length,
+    [ENGINE_GLOBAL, hops[hops.length - 1]] as const,
+  );
+}
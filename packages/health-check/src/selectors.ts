@@ -0,0 +1,151 @@
+import type { ActionStep, SelectorChain, ToolDescriptor } from "@web-mcp-hub/db";
+import { selectorAlternatives } from "@web-mcp-hub/db/selector";
+
+/** A selector found in a tool's execution, and whether it can be checked on page load. */
+export interface SelectorCheck {
+  /** Where the selector sits in the execution, e.g. "fields[0]" or "steps[2].then[0]". */
+  path: string;
+  /** A selector, or fallback alternatives of which one matching is enough */
+  selector: SelectorChain;
+  /** Why the selector can't be checked statically; unset if it can. */
+  skipped?: string;
+}
+
+// Template placeholders need agent params, URL params or loop items to resolve
+const TEMPLATE_RE = /\{\{[\w.$]+\}\}/;
+
+// Steps after one of these may be looking at a different page or DOM
+const PAGE_CHANGING_ACTIONS = new Set<ActionStep["action"]>([
+  "navigate",
+  "click",
+  "press",
+  "hover",
+  "drag",
+  "dispatch",
+  "evaluate",
+]);
+
+/**
+ * List every selector in a tool's execution. Only selectors that should exist as soon
+ * as the target page loads are checkable — ones that appear after a submit or an
+ * earlier click, or that are expected to be absent, are marked as skipped.
+ */
+export function collectSelectors(tool: ToolDescriptor): SelectorCheck[] {
+  const exec = tool.execution;
+  if (!exec) return [];
+
+  const checks: SelectorCheck[] = [];
+  const add = (path: string, selector: SelectorChain, skipped?: string) => {
+    const templated = selectorAlternatives(selector).some((s) => TEMPLATE_RE.test(s));
+    const reason = skipped ?? (templated ? "uses a template" : undefined);
+    checks.push(reason ? { path, selector, skipped: reason } : { path, selector });
+  };
+
+  add("selector", exec.selector);
+
+  if (exec.steps && exec.steps.length > 0) {
+    collectSteps(exec.steps, "steps", add, { pageChanged: false });
+    return checks;
+  }
+
+  exec.fields?.forEach((field, i) => {
+    add(`fields[${i}]`, field.selector);
+    if (field.type === "radio" || field.type === "multiselect") {
+      field.options?.forEach((option, j) => {
+        if (option.selector) add(`fields[${i}].options[${j}]`, option.selector);
+      });
+    }
+    if (field.type === "combobox") {
+      add(`fields[${i}].optionSelector`, field.optionSelector, "appears after typing");
+    }
+  });
+  if (exec.submitSelector) add("submitSelector", exec.submitSelector);
+  if (exec.resultWaitSelector) {
+    add("resultWaitSelector", exec.resultWaitSelector, "appears after the tool runs");
+  }
+  if (exec.resultSelector) {
+    add(
+      "resultSelector",
+      exec.resultSelector,
+      exec.autosubmit ? "appears after the tool submits" : undefined,
+    );
+  }
+  if (exec.pagination?.nextSelector) {
+    add("pagination.nextSelector", exec.pagination.nextSelector, "only present with more pages");
+  }
+  return checks;
+}
+
+function collectSteps(
+  steps: ActionStep[],
+  path: string,
+  add: (path: string, selector: SelectorChain, skipped?: string) => void,
+  state: { pageChanged: boolean },
+): void {
+  steps.forEach((step, i) => {
+    const stepPath = `${path}[${i}]`;
+    const afterChange = state.pageChanged ? "runs after an earlier step changed the page" : null;
+
+    switch (step.action) {
+      case "navigate":
+      case "evaluate":
+      case "waitForUrl":
+      case "waitForNetworkIdle":
+        break;
+      case "press":
+      case "waitForText":
+        if (step.selector) add(stepPath, step.selector, afterChange ?? undefined);
+        break;
+      case "drag":
+        add(stepPath, step.selector, afterChange ?? undefined);
+        add(`${stepPath}.to`, step.to, afterChange ?? undefined);
+        break;
+      case "condition":
+        add(stepPath, step.selector, "condition — may legitimately be absent");
+        collectBranch(step.then, `${stepPath}.then`, add);
+        if (step.else) collectBranch(step.else, `${stepPath}.else`, add);
+        break;
+      case "forEach":
+        add(stepPath, step.selector, afterChange ?? undefined);
+        collectBranch(step.steps, `${stepPath}.steps`, add);
+        break;
+      case "wait":
+        add(
+          stepPath,
+          step.selector,
+          afterChange ?? (step.state === "hidden" ? "waits for the element to go away" : undefined),
+        );
+        break;
+      default:
+        add(stepPath, step.selector, afterChange ?? undefined);
+    }
+
+    if (changesPage(step)) state.pageChanged = true;
+  });
+}
+
+function changesPage(step: ActionStep): boolean {
+  if (PAGE_CHANGING_ACTIONS.has(step.action)) return true;
+  if (step.action === "condition") return [...step.then, ...(step.else ?? [])].some(changesPage);
+  if (step.action === "forEach") return step.steps.some(changesPage);
+  return false;
+}
+
+/** Nested steps only run conditionally or per element, so none of them are checked. */
+function collectBranch(
+  steps: ActionStep[],
+  path: string,
+  add: (path: string, selector: SelectorChain, skipped?: string) => void,
+): void {
+  steps.forEach((step, i) => {
+    const stepPath = `${path}[${i}]`;
+    if ("selector" in step && step.selector) add(stepPath, step.selector, "runs conditionally");
+    if (step.action === "drag") add(`${stepPath}.to`, step.to, "runs conditionally");
+    if (step.action === "condition") {
+      collectBranch(step.then, `${stepPath}.then`, add);
+      if (step.else) collectBranch(step.else, `${stepPath}.else`, add);
+    } else if (step.action === "forEach") {
+      collectBranch(step.steps, `${stepPath}.steps`, add);
+    }
+  });
+}
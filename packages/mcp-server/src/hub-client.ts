@@ -17,12 +17,21 @@ async function hubFetch(path: string, init?: RequestInit): Promise<Response> {
 export async function lookupConfig(
   domain: string,
   url?: string,
-  opts?: { executable?: boolean; yolo?: boolean },
+  opts?: {
+    executable?: boolean;
+    yolo?: boolean;
+    configId?: string;
+    version?: number;
+    at?: string;
+  },
 ): Promise<{ configs: WebMcpConfig[] }> {
   const params = new URLSearchParams({ domain });
   if (url) params.set("url", url);
   if (opts?.executable) params.set("executable", "true");
   if (opts?.yolo) params.set("yolo", "true");
+  if (opts?.configId) params.set("configId", opts.configId);
+  if (opts?.version) params.set("version", String(opts.version));
+  if (opts?.at) params.set("at", opts.at);
   const res = await hubFetch(`/api/configs/lookup?${params}`);
   return res.json() as Promise<{ configs: WebMcpConfig[] }>;
 }
@@ -1,31 +1,106 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { formatConfig } from "@web-mcp-hub/db";
+import { formatConfig, type OutputSchema } from "@web-mcp-hub/db";
 import * as hub from "./hub-client.js";
 
+const outputSchemaSchema: z.ZodType<OutputSchema> = z.lazy(() =>
+  z.object({
+    type: z
+      .enum(["string", "number", "integer", "boolean", "array", "object"])
+      .describe("Result type. number/integer/boolean values are parsed from the page text"),
+    description: z.string().optional(),
+    items: outputSchemaSchema.optional().describe("Schema for list items / table rows"),
+    properties: z
+      .record(z.string(), outputSchemaSchema)
+      .optional()
+      .describe("Schemas for object keys (table header cells)"),
+  }),
+);
+
+const onErrorSchema = z
+  .enum(["fail", "continue", "retry"])
+  .optional()
+  .describe(
+    "What to do when this step fails: 'fail' aborts the tool (default, except wait steps which 'continue'), 'continue' moves on, 'retry' re-runs it",
+  );
+const retriesSchema = z
+  .number()
+  .int()
+  .optional()
+  .describe("Extra attempts when onError is 'retry' (default 2, max 10)");
+const retryDelaySchema = z
+  .number()
+  .int()
+  .optional()
+  .describe("Ms before the first retry, doubled for each one after (default 500)");
+
+const selectorChainSchema = z.union([
+  z.string(),
+  z
+    .array(z.string())
+    .min(1)
+    .describe("Fallback selectors, tried in order — the first that matches is used"),
+]);
+
 const executionSchema = z
   .object({
-    selector: z
-      .string()
-      .describe("CSS selector for the primary container (form, button, content area)"),
+    selector: selectorChainSchema.describe(
+      "CSS selector for the primary container (form, button, content area)",
+    ),
     fields: z
       .array(
         z.object({
           type: z
-            .enum(["text", "number", "textarea", "select", "checkbox", "radio", "date", "hidden"])
+            .enum([
+              "text",
+              "number",
+              "textarea",
+              "select",
+              "checkbox",
+              "radio",
+              "date",
+              "hidden",
+              "file",
+              "multiselect",
+              "range",
+              "combobox",
+            ])
             .describe("Field type"),
-          selector: z.string().describe("CSS selector for the input element"),
+          selector: selectorChainSchema.describe("CSS selector for the input element"),
           name: z.string().describe("Parameter name matching inputSchema property"),
           description: z.string().describe("Description for the agent"),
           required: z.boolean().optional().describe("Whether field is required (default: true)"),
           defaultValue: z.union([z.string(), z.number(), z.boolean()]).optional(),
           options: z
             .array(
-              z.object({ value: z.string(), label: z.string(), selector: z.string().optional() }),
+              z.object({
+                value: z.string(),
+                label: z.string(),
+                selector: selectorChainSchema.optional(),
+              }),
             )
             .optional()
-            .describe("For select/radio fields"),
+            .describe(
+              "For select/radio/multiselect/combobox fields. Radio options need a selector; multiselect options may have one for checkbox groups",
+            ),
           dynamicOptions: z.boolean().optional().describe("For select fields with dynamic options"),
+          accept: z
+            .string()
+            .optional()
+            .describe("For file fields: the input's accept attribute, e.g. '.pdf,image/*'"),
+          multiple: z.boolean().optional().describe("For file fields that take several files"),
+          min: z.number().optional().describe("For range fields: the slider's min"),
+          max: z.number().optional().describe("For range fields: the slider's max"),
+          step: z.number().optional().describe("For range fields: the slider's step"),
+          optionSelector: selectorChainSchema
+            .optional()
+            .describe(
+              "For combobox fields: CSS selector matching the suggestions, e.g. '[role=listbox] [role=option]'",
+            ),
+          timeout: z
+            .number()
+            .optional()
+            .describe("For combobox fields: ms to wait for a matching suggestion (default 5000)"),
         }),
       )
       .optional()
@@ -41,11 +116,12 @@ const executionSchema = z
       .describe(
         "How to submit: 'click' (default) clicks a button, 'enter' dispatches Enter key on the last filled field",
       ),
-    submitSelector: z
-      .string()
+    submitSelector: selectorChainSchema
       .optional()
       .describe("CSS selector for custom submit button (only used with submitAction 'click')"),
-    resultSelector: z.string().optional().describe("CSS selector for where to read the result"),
+    resultSelector: selectorChainSchema
+      .optional()
+      .describe("CSS selector for where to read the result"),
     resultExtract: z
       .enum(["text", "html", "attribute", "table", "list"])
       .optional()
@@ -56,6 +132,35 @@ const executionSchema = z
       .describe(
         "HTML attribute name to read when resultExtract is 'attribute', e.g. 'href', 'data-id'",
       ),
+    pagination: z
+      .object({
+        mode: z
+          .enum(["click", "scroll"])
+          .describe(
+            "'click' clicks nextSelector to load each page, 'scroll' scrolls to the last result to trigger infinite scroll",
+          ),
+        nextSelector: selectorChainSchema
+          .optional()
+          .describe("CSS selector for the next-page button (required for 'click')"),
+        maxPages: z
+          .number()
+          .int()
+          .optional()
+          .describe("Maximum pages to read, including the first (default 5, max 50)"),
+        maxItems: z
+          .number()
+          .int()
+          .optional()
+          .describe("Stop once this many items are collected (max 1000)"),
+        timeout: z
+          .number()
+          .optional()
+          .describe("Ms to wait for each new page of results (default 5000)"),
+      })
+      .optional()
+      .describe(
+        "Collect list/table results across pages. Items are merged in order; rows a page repeats from the end of the previous one are merged once",
+      ),
     steps: z
       .array(
         z
@@ -67,25 +172,61 @@ const executionSchema = z
                 "fill",
                 "select",
                 "wait",
+                "waitForUrl",
+                "waitForNetworkIdle",
+                "waitForText",
                 "extract",
                 "scroll",
+                "remove",
+                "dispatch",
+                "setAttribute",
+                "focus",
+                "press",
+                "hover",
+                "drag",
+                "clear",
                 "condition",
                 "evaluate",
+                "forEach",
               ])
               .describe("The action type for this step"),
-            selector: z.string().optional().describe("CSS selector (required for most actions)"),
-            url: z.string().optional().describe("URL for navigate steps, supports {{paramName}}"),
+            selector: selectorChainSchema
+              .optional()
+              .describe("CSS selector (required for most actions)"),
+            url: z
+              .string()
+              .optional()
+              .describe(
+                "URL for navigate steps, supports {{paramName}} and {{url.name}}. For waitForUrl steps: the URL to wait for, written like a urlPattern; a path starting with '/' is on the current site (e.g. '/thanks?order=:id')",
+              ),
+            text: z
+              .string()
+              .optional()
+              .describe(
+                "For waitForText steps: text to wait for, matched like :has-text(). Searches the step's selector, or the whole page without one",
+              ),
+            idleTime: z
+              .number()
+              .optional()
+              .describe(
+                "For waitForNetworkIdle steps: ms with no fetch/XHR request in flight to count as idle (default 500)",
+              ),
             value: z
               .string()
               .optional()
               .describe(
-                "Value for fill/select steps, supports {{paramName}}. For evaluate steps: the JS code string to execute in the page context (e.g. \"document.querySelector('.banner').remove()\")",
+                "Value for fill/select/setAttribute steps, supports {{paramName}} and {{url.name}}. For evaluate steps: the JS code string to execute in the page context (e.g. \"document.querySelector('#sort').value = 'price'\")",
               ),
             state: z
               .enum(["visible", "exists", "hidden"])
               .optional()
               .describe("State to check for wait/condition steps"),
-            timeout: z.number().optional().describe("Timeout in ms for wait steps"),
+            timeout: z
+              .number()
+              .optional()
+              .describe(
+                "Timeout in ms for wait steps (default 5000; 10000 for waitForUrl and waitForNetworkIdle)",
+              ),
             extract: z
               .enum(["text", "html", "list", "table", "attribute"])
               .optional()
@@ -93,7 +234,37 @@ const executionSchema = z
             attribute: z
               .string()
               .optional()
-              .describe("Attribute name for extract steps with extract:'attribute'"),
+              .describe(
+                "Attribute name for extract steps with extract:'attribute', and for setAttribute steps",
+              ),
+            event: z.string().optional().describe("Event type for dispatch steps, e.g. 'change'"),
+            detail: z
+              .unknown()
+              .optional()
+              .describe("For dispatch steps: sent as a CustomEvent's detail"),
+            bubbles: z
+              .boolean()
+              .optional()
+              .describe("For dispatch steps: whether the event bubbles (default true)"),
+            key: z
+              .string()
+              .optional()
+              .describe(
+                "Key for press steps, as a KeyboardEvent key value ('Enter', 'Escape', 'ArrowDown', 'a'), optionally with modifiers: 'Control+Enter', 'Meta+Shift+k'",
+              ),
+            to: selectorChainSchema
+              .optional()
+              .describe("For drag steps: CSS selector of the drop target"),
+            all: z
+              .boolean()
+              .optional()
+              .describe("For remove steps: remove every match instead of just the first"),
+            as: z
+              .string()
+              .optional()
+              .describe(
+                "Name for an extract step's value. Named extracts are collected into the result object and later steps can use them as {{$vars.name}}",
+              ),
             then: z
               .array(z.record(z.string(), z.unknown()))
               .optional()
@@ -102,28 +273,91 @@ const executionSchema = z
               .array(z.record(z.string(), z.unknown()))
               .optional()
               .describe("Steps to run if condition does not match"),
+            steps: z
+              .array(z.record(z.string(), z.unknown()))
+              .optional()
+              .describe(
+                "Steps to run once per element matched by a forEach step's selector. Use {{$item}} in their selectors for the current element",
+              ),
+            max: z
+              .number()
+              .optional()
+              .describe("For forEach steps: maximum number of elements to process"),
+            onError: onErrorSchema,
+            retries: retriesSchema,
+            retryDelay: retryDelaySchema,
           })
           .passthrough(),
       )
       .optional()
       .describe("Multi-step workflow (overrides simple mode). Array of action steps."),
     resultDelay: z.number().optional().describe("Milliseconds to wait before reading result"),
-    resultWaitSelector: z
-      .string()
+    resultWaitSelector: selectorChainSchema
       .optional()
       .describe("CSS selector to wait for before reading result"),
+    resultAfterNavigation: z
+      .boolean()
+      .optional()
+      .describe(
+        "Simple mode with autosubmit: the submit loads a new page, so wait for it and read the result (resultWaitSelector, resultSelector) there instead of returning once submitted. The agent reads that result with the webmcp_hub_run_result tool on the new page",
+      ),
     resultRequired: z
       .boolean()
       .optional()
       .describe(
         "If true, the tool fails with an error when resultWaitSelector times out instead of silently returning empty. Use when empty results indicate a real failure (e.g. a search that should always return something).",
       ),
+    outputSchema: outputSchemaSchema
+      .optional()
+      .describe(
+        "JSON Schema for the result. When set, the result is returned as JSON instead of text: 'list' → array, 'table' → array of row objects keyed by header cells, scalars coerced to the declared type. E.g. { type: 'array', items: { type: 'object', properties: { Name: { type: 'string' }, Price: { type: 'number' } } } }",
+      ),
+    onError: onErrorSchema.describe("Default onError for steps that don't set their own"),
+    retries: retriesSchema.describe("Default retries for steps that don't set their own"),
+    retryDelay: retryDelaySchema.describe("Default retryDelay for steps that don't set their own"),
   })
   .optional()
   .describe(
     "Execution metadata for Chrome extension. Enables declarative tool execution via CSS selectors.",
   );
 
+const examplesSchema = z
+  .array(
+    z.object({
+      description: z
+        .string()
+        .optional()
+        .describe("What the example shows, e.g. 'Search for running shoes'"),
+      input: z
+        .record(z.string(), z.unknown())
+        .describe("Params to call the tool with, keyed by inputSchema property"),
+      expect: z
+        .object({
+          error: z.boolean().optional().describe("true if this call should fail"),
+          pattern: z
+            .string()
+            .optional()
+            .describe("Regular expression the result text must match, e.g. '\\d+ results'"),
+          json: z
+            .unknown()
+            .optional()
+            .describe("The exact result, for tools with an outputSchema or named extracts"),
+        })
+        .describe("What the result should look like — at least one of error, pattern or json"),
+      fixtureHtml: z
+        .string()
+        .optional()
+        .describe("HTML snapshot of the page to replay the example against (max 50,000 chars)"),
+      url: z
+        .string()
+        .optional()
+        .describe("Page to replay against instead of a snapshot, if not the config's page"),
+    }),
+  )
+  .max(10)
+  .optional()
+  .describe("Optional worked examples: input params and the result they should give");
+
 export function registerTools(server: McpServer): void {
   // lookup_config
   server.tool(
@@ -136,18 +370,29 @@ URL pattern matching rules (patterns are always "domain/path" format — no prot
 - "example.com" (domain-only) — matches ALL pages on the domain (lowest priority, acts as fallback)
 - "example.com/dashboard" — matches only /dashboard exactly
 - "example.com/dashboard/:id" — matches /dashboard/<anything> (dynamic segment)
+- "example.com/users/:id(\\d+)" or ":id(uuid)" — dynamic segment that must match a constraint (ranked above plain :id)
+- "example.com/repos/*/issues" or "example.com/files/*.pdf" — single-segment glob
 - "example.com/admin/**" — matches /admin and everything under it (wildcard)
+- "example.com/search?q=:query" — requires the q query key (captured as "query"); other query keys are ignored
+- "example.com/#/inbox" — matches a hash route; patterns without "#" ignore the URL hash
+- "*.atlassian.net/browse/:key" — subdomain wildcard config, matches any tenant (acme.atlassian.net). Always ranked after exact-domain configs
+
+Lookups for a tenant domain (e.g. "acme.atlassian.net") include wildcard configs that cover it.
 
 When navigating between pages on the same domain, call lookup_config again with the new URL to get the correct page-specific tools.
 
-By default, only verified configs are returned. If you are authenticated (via API key), your own unverified configs are also included automatically so you can test before verification. To see all unverified configs from everyone, set yolo=true.`,
+By default, only verified configs are returned. If you are authenticated (via API key), your own unverified configs are also included automatically so you can test before verification. To see all unverified configs from everyone, set yolo=true.
+
+Pinning: every edit bumps a config's version. If a recent edit broke a tool, pass configId and version to get that config as it was at a known-good version, or at (a timestamp) to get every config on the domain as it was then. Pinned results show "Version: N (pinned — latest is M)".
+
+Reliability: tools that have been run by extension users who share anonymous stats show a success rate for the tool's current content (runs since it was last edited), e.g. "Reliability: 92% success over 48 runs (3 not_found, 1 timeout)", followed by the rate across all versions when older versions of the tool were run too. A low rate usually means the site changed and the tool's selectors need fixing.`,
     {
       domain: z.string().describe("Domain to look up, e.g. 'google.com'"),
       url: z
         .string()
         .optional()
         .describe(
-          "Current page URL for path-scoped matching, e.g. 'example.com/dashboard/abc-123'. Returns only configs whose urlPattern matches this path, sorted most-specific-first.",
+          "Current page URL for path-scoped matching, including any query string or hash, e.g. 'example.com/dashboard/abc-123' or 'example.com/search?q=shoes'. Returns only configs whose urlPattern matches this path, sorted most-specific-first.",
         ),
       executable: z
         .boolean()
@@ -159,11 +404,35 @@ By default, only verified configs are returned. If you are authenticated (via AP
         .describe(
           "Include unverified configs. Default false (only verified configs). Set true to see all configs including unverified ones.",
         ),
+      configId: z
+        .string()
+        .optional()
+        .describe("The config a version pin applies to. Required with version, unused otherwise."),
+      version: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe(
+          "Pin configId to a version: only that config is returned, as of its latest revision at or before this version. Versions are counted per config.",
+        ),
+      at: z
+        .string()
+        .optional()
+        .describe(
+          "Pin to a point in time (ISO 8601 timestamp, e.g. '2026-01-15T00:00:00Z'): configs are returned as they were then. Cannot be combined with version.",
+        ),
     },
     { readOnlyHint: true, openWorldHint: true },
-    async ({ domain, url, executable, yolo }) => {
+    async ({ domain, url, executable, yolo, configId, version, at }) => {
       try {
-        const result = await hub.lookupConfig(domain, url, { executable, yolo });
+        const result = await hub.lookupConfig(domain, url, {
+          executable,
+          yolo,
+          configId,
+          version,
+          at,
+        });
         if (result.configs.length === 0) {
           return {
             content: [
@@ -276,7 +545,11 @@ Configs are scoped to specific URL paths via urlPattern. The Chrome extension an
 **Pattern types (from most to least specific):**
 - \`"example.com/admin/dashboard"\` — exact path match (only /admin/dashboard)
 - \`"example.com/dashboard/:id"\` — dynamic segment, matches /dashboard/<any-single-segment> (e.g. UUIDs, usernames)
+- \`"example.com/users/:id(\\\\d+)"\` / \`"example.com/orders/:id(uuid)"\` — constrained param: the segment must match the constraint — a named constraint (\`uuid\`, \`int\`) or character classes and literals with repeats, e.g. \`[a-z0-9-]{3,40}\` or \`v\\\\d+\`. Ranked between static and plain dynamic segments, so \`/users/settings\` doesn't fall into \`/users/:id(\\\\d+)\`. Groups, alternation ("|") and "/" are not allowed, and only one part may repeat a variable number of times
+- \`"example.com/repos/*/issues"\` / \`"example.com/files/*.pdf"\` — single-segment glob (\`*\` never crosses a "/"); partial globs like \`*.pdf\` rank like constrained params
 - \`"example.com/admin/**"\` — wildcard, matches /admin and everything under it. ** must be the last segment.
+- \`"example.com/search?q=:query"\` — required query key. \`q=:query\` captures the value, \`type=images\` requires a value (case-insensitive), a bare \`q\` only requires the key. Each term adds to the path's specificity; extra query keys in the URL are ignored.
+- \`"example.com/#/inbox/:id"\` — hash route for hash-routed SPAs, matched segment by segment like a path
 - \`"example.com"\` — domain-only fallback, matches ALL pages on the domain (lowest priority)
 
 **Best practices:**
@@ -284,6 +557,7 @@ Configs are scoped to specific URL paths via urlPattern. The Chrome extension an
 - Use exact paths for page-specific tools (e.g. \`"example.com/settings"\` for settings-page tools)
 - Use \`:param\` for pages with dynamic IDs (e.g. \`"example.com/users/:userId/profile"\`) — avoids creating a config per user
 - Use \`**\` for section-wide tools (e.g. \`"example.com/admin/**"\` for tools available across all admin pages)
+- Use a \`*.\` wildcard domain for multi-tenant SaaS (e.g. domain \`"*.myshopify.com"\` with urlPattern \`"*.myshopify.com/admin/orders"\`) — one config covers every tenant. The urlPattern must start with the same wildcard domain
 - Create separate configs for different sections of a site rather than one catch-all
 
 ## Tool Schema Rules
@@ -301,6 +575,7 @@ Each tool in the tools array MUST follow this structure:
   WRONG:     {"properties":{"query":{"type":"string"}}} ← missing top-level "type":"object"
   Property values must ALWAYS look like: {"type":"string","description":"..."} or {"type":"number","description":"..."}
 - **annotations**: Optional hints like readOnlyHint, destructiveHint, idempotentHint, openWorldHint
+- **examples**: Optional worked examples — { "input": {...}, "expect": { "pattern": "..." } } — showing a call and the result it should give. Input keys must be inputSchema properties (including every required one), and expect needs at least one of "error" (true if the call should fail), "pattern" (regex the result text must match) or "json" (exact result). Add "fixtureHtml" with a snapshot of the page so the example can be replayed to check the tool still works. Requires execution
 
 ## Execution Metadata (optional, for Chrome extension)
 
@@ -309,22 +584,54 @@ Maps tool parameters to DOM elements via CSS selectors. Two modes:
 **Simple mode** — fill fields and optionally submit:
   - selector: CSS selector for the form/container
   - fields[]: array of {type, selector, name, description} mapping params to inputs
+  - Richer inputs: type "multiselect" for a <select multiple> or a checkbox group (a selector matching every checkbox, or options with a selector each) — the parameter is an array of option values. Type "range" for sliders (add min/max/step). Type "combobox" for autocomplete inputs: the value is typed into selector, then the suggestion matching "optionSelector" with that text is clicked (options are known values; their labels are typed)
+  - File inputs: type "file" (add "accept" and "multiple" to mirror the input). The matching inputSchema property is an object { "name": "report.pdf", "content": "<base64 or data: URL>", "mimeType": "application/pdf" } with name and content required — or an array of them with "multiple"
   - autosubmit: true to submit after filling, false for fill-only or extract
   - submitAction: "click" (default) clicks a button, "enter" presses Enter key on the input field
   - submitSelector: optional custom submit button selector (for click mode)
   - resultSelector + resultExtract: where and how to read the result ("text"|"html"|"list"|"table"|"attribute")
+  - resultAfterNavigation: true when submitting loads a new page (a classic form POST or GET). The extension waits for that page and reads the result there, where the agent gets it from the webmcp_hub_run_result tool; a submit that doesn't load a new page within 3s has its result read in place. Without it the tool returns as soon as it submits
+  - pagination: optional, for "list"/"table" results spread over several pages — { "mode": "click", "nextSelector": "a.next", "maxPages": 5 } or { "mode": "scroll", "maxItems": 100 }. Items from every page are merged in order; rows repeated from the end of the previous page (as infinite scroll keeps them) are merged once
+  - outputSchema: optional JSON Schema for a typed JSON result — "list" returns an array, "table" returns row objects keyed by the header cells, and number/integer/boolean values are parsed from the text (e.g. { "type": "array", "items": { "type": "number" } } for a list of prices)
 
 **Multi-step mode** — steps[] array overrides simple mode:
-  - Each step has an "action": navigate, click, fill, select, wait, extract, scroll, condition, evaluate
-  - "evaluate" runs arbitrary JavaScript in the page context via value (e.g. { "action": "evaluate", "value": "document.querySelector('.cookie-banner').remove()" }). Use as a last resort when standard actions are blocked by overlays or non-standard DOM behavior.
-  - Use {{paramName}} in url/value/selector for parameter interpolation
+  - Each step has an "action": navigate, click, fill, select, wait, waitForUrl, waitForNetworkIdle, waitForText, extract, scroll, remove, dispatch, setAttribute, focus, press, hover, condition, evaluate, forEach
+  - Waiting: "wait" waits for selector to reach "state"; "waitForUrl" waits for the URL to match "url", written like a urlPattern (":param", "*", "**", e.g. "/results?q=:query"), for in-page route changes; "waitForNetworkIdle" waits until no fetch/XHR request has been in flight for "idleTime" ms (default 500), for results loaded in the background; "waitForText" waits for "text" to appear in selector, or anywhere without one. Each takes a "timeout"
+  - Steps after a "navigate" step that loads a new document (also one inside a condition branch) run on the page it loads, with the same params and $vars — the extension carries the run across page loads (60s in total) and the agent reads the result with webmcp_hub_run_result there. A navigate to a #fragment stays on the page; inside forEach a navigate may only change the #fragment
+  - "forEach" runs nested steps once per element matched by selector (capped by "max") and returns an array of the per-element results. Inside, {{$item}} is a selector for the current element, e.g. { "action": "forEach", "selector": ".product-card", "max": 20, "steps": [{ "action": "extract", "selector": "{{$item}} .title", "extract": "text", "as": "title" }, { "action": "extract", "selector": "{{$item}} .price", "extract": "text", "as": "price" }] } → [{ "title": ..., "price": ... }, ...]
+  - DOM steps that don't need code: "remove" deletes the element (add "all": true for every match, e.g. cookie banners), "setAttribute" sets "attribute" to "value" (omit value to remove it; on* handlers and attributes that load a URL — href, src, action, formaction, data, style, ... — are not allowed), "dispatch" fires "event" on the element (with "detail" it's a CustomEvent), "focus" focuses it, "hover" sends pointer/mouse enter and over events (for hover menus), "press" sends a "key" to the element or, without a selector, to the focused element — with modifiers for chords like "Control+Enter" — "clear" empties an input, textarea or contenteditable, and "drag" drags the element onto the "to" selector (HTML5 drag events for draggable="true" elements, pointer/mouse events otherwise)
+  - "evaluate" runs JavaScript in the page context via value. Prefer the DOM steps above — use evaluate only for what they can't do. The code is checked against an allowlist: it may use document, its own variables and a few safe globals (Math, JSON, Array.from, Object.keys, Promise, setTimeout with a function, Event constructors, ...), but not window/globalThis/this, network or storage APIs, cookies, eval, innerHTML, Object.assign, writes that load a URL (href, src, action, srcset, on* handlers, style url(...) properties — also as object literal keys, so name an extracted link "url" rather than "href"), or computed property names like el[name]. {{paramName}} templates are only allowed inside string literals, e.g. "document.querySelector('#sort').value = '{{order}}'"
+  - Use {{paramName}} in url/value/selector/key/to/text for parameter interpolation
+  - Failures: a step that fails (element not found, evaluate throws, ...) aborts the tool with an error naming the step (e.g. steps[2]) and its selector. Set "onError" on a step — or on execution as the default for all steps — to "continue" past it or "retry" it ("retries" times, waiting "retryDelay" ms, doubled each time). Wait steps continue on timeout unless told otherwise
+  - Give extract steps an "as" name to collect several values into one result object, e.g. extract "#title" as "title" and ".price" as "price" → { "title": "...", "price": "..." }. Later steps can use an earlier extract as {{$vars.title}}
+  - Use {{url.name}} for values captured by the config's urlPattern — e.g. with "example.com/projects/:projectId", {{url.projectId}} is the current page's project ID. The agent doesn't need to supply it. The name must be one the urlPattern captures
 
 **Special selector support**:
-  - :has-text("...") — matches elements containing text, e.g. 'li:has-text("{{target}}") .delete-btn'
-    This is NOT standard CSS but is supported by our extension for text-based element matching.
+  Prefer roles and text over generated class names (".css-1x2y3z" breaks on the next deploy).
+  - role=button[name="Send"] — ARIA role plus accessible name (aria-label, <label>, alt or the
+    element's text). The name is exact and case-sensitive; add " i" for a case-insensitive
+    substring: role=link[name="inbox" i]. Omit [name=...] to match any element with the role.
+  - :has-text("...") — matches elements whose text contains the string (case-sensitive), e.g.
+    'li:has-text("{{target}}") .delete-btn'. :text-is("...") matches the whole text exactly.
+  - :nth-match(selector, n) — the nth match (from 1) on the page, e.g. ':nth-match(li.result, 2) a'.
+  - xpath=//button[@type="submit"] — XPath; a selector starting with "//" is XPath too. XPath must
+    be the whole selector (or the whole part after a frame hop) and doesn't see into shadow roots.
+  - After role=, :nth-match() or a text filter, a space (or " > ") and more selector looks inside
+    the matches: 'role=dialog[name="Share"] role=button[name="Copy link"]'.
+  These are NOT standard CSS but are supported by our extension. Malformed selectors are
+  rejected when you upload the config.
+  - Fallbacks — any selector (selector, fields, options, optionSelector, submitSelector,
+    resultSelector, resultWaitSelector, nextSelector, step selector and "to") can be an array of
+    alternatives tried in order, e.g. ["#send", "role=button[name='Send']"]. The first that
+    matches is used, and the tool result reports which one did — so one site change doesn't break
+    the tool, and a result naming a later alternative tells you the first needs updating.
   - Shadow DOM — selectors automatically pierce shadow roots, so elements inside web components
     (Shoelace sl-button, Material Web mwc-input, Ionic ion-item, etc.) are fully supported.
     Write selectors normally; deep traversal is handled by the runtime transparently.
+  - Frames — "iframe#checkout >>> input[name=card]" targets an element inside the frame that
+    "iframe#checkout" matches; chain hops for nested frames. Works for same-origin and cross-origin
+    frames (payment forms, embedded editors). A field's option selectors and a drag step's "to"
+    must start with the same frame hop as its selector.
 
 ## Example Config
 
@@ -379,12 +686,12 @@ Maps tool parameters to DOM elements via CSS selectors. Two modes:
       domain: z
         .string()
         .describe(
-          "Bare domain without protocol or www prefix, e.g. 'google.com', 'youtube.com'. NEVER include http://, https://, or www.",
+          "Bare domain without protocol or www prefix, e.g. 'google.com', 'youtube.com'. NEVER include http://, https://, or www. A leading '*.' (e.g. '*.atlassian.net') covers every subdomain.",
         ),
       urlPattern: z
         .string()
         .describe(
-          "URL pattern in 'domain/path' format. MUST be a bare domain with optional path — NEVER use Chrome extension match patterns like '*://...' or 'https://...'. Examples: 'example.com' (all pages), 'example.com/search' (exact), 'example.com/users/:id' (dynamic), 'example.com/admin/**' (prefix)",
+          "URL pattern in 'domain/path' format. MUST be a bare domain with optional path — NEVER use Chrome extension match patterns like '*://...' or 'https://...'. Examples: 'example.com' (all pages), 'example.com/search' (exact), 'example.com/users/:id' (dynamic), 'example.com/admin/**' (prefix), 'example.com/search?q=:query' (query key), 'example.com/#/inbox' (hash route)",
         ),
       pageType: z
         .string()
@@ -432,6 +739,7 @@ Maps tool parameters to DOM elements via CSS selectors. Two modes:
                 "Optional hints: readOnlyHint, destructiveHint, idempotentHint, openWorldHint",
               ),
             execution: executionSchema,
+            examples: examplesSchema,
           }),
         )
         .describe("Array of WebMCP tool descriptors for this page"),
@@ -618,6 +926,7 @@ All fields are optional — only provide the ones you want to change. The tool n
         .optional()
         .describe("Updated hints: readOnlyHint, destructiveHint, idempotentHint, openWorldHint"),
       execution: executionSchema,
+      examples: examplesSchema,
     },
     { idempotentHint: true },
     async ({ configId, toolName, ...updates }) => {
@@ -662,7 +971,8 @@ Tool schema rules:
   CORRECT: {"type":"object","properties":{"query":{"type":"string","description":"Search term"}},"required":["query"]}
   WRONG:   {"type":"object","properties":{"query":"string"}} ← raw string, not a schema object
 - **annotations**: Optional hints — readOnlyHint, destructiveHint, idempotentHint, openWorldHint.
-- **execution**: Optional CSS selector metadata for the Chrome extension (same format as upload_config).`,
+- **execution**: Optional CSS selector metadata for the Chrome extension (same format as upload_config).
+- **examples**: Optional worked examples of calling the tool and the result it should give (same format as upload_config).`,
     {
       configId: z
         .string()
@@ -695,6 +1005,7 @@ Tool schema rules:
         .optional()
         .describe("Optional hints: readOnlyHint, destructiveHint, idempotentHint, openWorldHint"),
       execution: executionSchema,
+      examples: examplesSchema,
     },
     { idempotentHint: false },
     async ({ configId, ...toolData }) => {
@@ -0,0 +1,37 @@
+CREATE TABLE "config_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"config_id" uuid NOT NULL,
+	"version" integer NOT NULL,
+	"change_type" text NOT NULL,
+	"tool_name" text,
+	"restored_from_version" integer,
+	"contributor" text NOT NULL,
+	"snapshot" jsonb NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "config_revisions" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "config_revisions" ADD CONSTRAINT "config_revisions_config_id_configs_id_fk" FOREIGN KEY ("config_id") REFERENCES "public"."configs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_config_revisions_config_version" ON "config_revisions" USING btree ("config_id","version");--> statement-breakpoint
+-- Backfill: record the current state of every existing config as its baseline revision
+INSERT INTO "config_revisions" ("config_id", "version", "change_type", "contributor", "snapshot", "created_at")
+SELECT
+	c."id",
+	c."version",
+	'config.created',
+	c."contributor",
+	jsonb_build_object('urlPattern', c."url_pattern", 'title', c."title", 'description', c."description")
+		|| CASE WHEN c."page_type" IS NULL THEN '{}'::jsonb ELSE jsonb_build_object('pageType', c."page_type") END
+		|| CASE WHEN c."tags" IS NULL THEN '{}'::jsonb ELSE jsonb_build_object('tags', c."tags") END
+		|| jsonb_build_object('tools', COALESCE((
+			SELECT jsonb_agg(
+				jsonb_build_object('name', t."name", 'description', t."description", 'inputSchema', t."input_schema", 'contributor', t."contributor")
+					|| CASE WHEN t."annotations" IS NULL THEN '{}'::jsonb ELSE jsonb_build_object('annotations', t."annotations") END
+					|| CASE WHEN t."execution" IS NULL THEN '{}'::jsonb ELSE jsonb_build_object('execution', t."execution") END
+				ORDER BY t."created_at"
+			)
+			FROM "tools" t
+			WHERE t."config_id" = c."id"
+		), '[]'::jsonb)),
+	c."updated_at"
+FROM "configs" c;
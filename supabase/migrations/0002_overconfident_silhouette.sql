@@ -0,0 +1,10 @@
+ALTER TABLE "config_revisions" ADD COLUMN "verified_tool_names" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+-- Backfill: the current revision of each config carries today's verified tools
+UPDATE "config_revisions" r
+SET "verified_tool_names" = COALESCE((
+	SELECT jsonb_agg(t."name" ORDER BY t."name")
+	FROM "tools" t
+	WHERE t."config_id" = r."config_id" AND t."verified" = true
+), '[]'::jsonb)
+FROM "configs" c
+WHERE c."id" = r."config_id" AND c."version" = r."version";
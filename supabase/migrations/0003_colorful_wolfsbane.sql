@@ -0,0 +1,13 @@
+CREATE TABLE "tool_execution_stats" (
+	"config_id" uuid NOT NULL,
+	"tool_name" text NOT NULL,
+	"config_version" integer NOT NULL,
+	"outcome" text NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	"total_duration_ms" bigint DEFAULT 0 NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "tool_execution_stats_config_id_tool_name_config_version_outcome_pk" PRIMARY KEY("config_id","tool_name","config_version","outcome")
+);
+--> statement-breakpoint
+ALTER TABLE "tool_execution_stats" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "tool_execution_stats" ADD CONSTRAINT "tool_execution_stats_config_id_configs_id_fk" FOREIGN KEY ("config_id") REFERENCES "public"."configs"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "tool_health" (
+	"config_id" uuid NOT NULL,
+	"tool_name" text NOT NULL,
+	"status" text NOT NULL,
+	"config_version" integer NOT NULL,
+	"url" text NOT NULL,
+	"selectors" jsonb NOT NULL,
+	"checked_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "tool_health_config_id_tool_name_pk" PRIMARY KEY("config_id","tool_name")
+);
+--> statement-breakpoint
+ALTER TABLE "tool_health" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+ALTER TABLE "tool_health" ADD CONSTRAINT "tool_health_config_id_configs_id_fk" FOREIGN KEY ("config_id") REFERENCES "public"."configs"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "tools" ADD COLUMN "examples" jsonb;
\ No newline at end of file